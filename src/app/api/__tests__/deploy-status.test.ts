@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { GET } from '../deploy/[id]/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function deployment(status: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'dep-1',
+    projectId: 'proj-1',
+    provider: 'netlify',
+    status,
+    url: null,
+    errorMessage: null,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+function statusRequest(query = '') {
+  return GET(new NextRequest(`http://localhost/api/deploy/dep-1${query}`), {
+    params: Promise.resolve({ id: 'dep-1' }),
+  });
+}
+
+describe('GET /api/deploy/[id]', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+  });
+
+  it('should return the deployment status', async () => {
+    mockDb.deployment.findUnique.mockResolvedValue({
+      ...deployment('BUILDING'),
+      project: { ownerId: 'user-1' },
+    } as never);
+
+    const response = await statusRequest();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(deployment('BUILDING'));
+  });
+
+  it('should return 404 for unknown deployments', async () => {
+    mockDb.deployment.findUnique.mockResolvedValue(null);
+
+    const response = await statusRequest();
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should forbid other users deployments', async () => {
+    mockDb.deployment.findUnique.mockResolvedValue({
+      ...deployment('BUILDING'),
+      project: { ownerId: 'user-2' },
+    } as never);
+
+    const response = await statusRequest();
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should stream status changes until the deployment finishes', async () => {
+    vi.useFakeTimers();
+    try {
+      mockDb.deployment.findUnique
+        .mockResolvedValueOnce({ ...deployment('PENDING'), project: { ownerId: 'user-1' } } as never)
+        .mockResolvedValueOnce(deployment('BUILDING') as never)
+        .mockResolvedValueOnce(deployment('BUILDING') as never)
+        .mockResolvedValueOnce(deployment('SUCCESS', { url: 'https://todo.netlify.app' }) as never);
+
+      const response = await statusRequest('?stream=true');
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+      const text = response.text();
+      await vi.runAllTimersAsync();
+
+      const events = (await text)
+        .trim()
+        .split('\n\n')
+        .map((block) => {
+          const [event, data] = block.split('\n');
+          return [event.replace('event: ', ''), JSON.parse(data.replace('data: ', '')).status];
+        });
+
+      expect(events).toEqual([
+        ['status', 'PENDING'],
+        ['status', 'BUILDING'],
+        ['status', 'SUCCESS'],
+        ['done', 'SUCCESS'],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
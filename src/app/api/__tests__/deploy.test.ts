@@ -0,0 +1,192 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { POST } from '../deploy/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function project(files: { path: string; content: string }[]) {
+  return {
+    id: 'proj-1',
+    ownerId: 'user-1',
+    name: 'Todo',
+    status: 'GENERATED',
+    generatedFiles: files,
+    envVariables: { SESSION_SECRET: 'correct-horse-battery' },
+  };
+}
+
+function deployRequest(provider = 'vercel', options: Record<string, unknown> = {}) {
+  return new NextRequest('http://localhost/api/deploy', {
+    method: 'POST',
+    body: JSON.stringify({ projectId: 'proj-1', provider, ...options }),
+  });
+}
+
+describe('POST /api/deploy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, VERCEL_TOKEN: 'token', NETLIFY_TOKEN: 'token' };
+    delete process.env.DEPLOY_BLOCK_SEVERITY;
+    delete process.env.SECRET_SCAN_MODE;
+
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should not block deployment on security findings by default', async () => {
+    mockDb.project.findUnique.mockResolvedValue(
+      project([{ path: 'src/auth.js', content: "jwt.sign(user, 'hardcoded');" }]) as never
+    );
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+
+    const response = await POST(deployRequest());
+
+    expect(response.status).toBe(202);
+  });
+
+  it('should block deployment when findings reach the requested threshold', async () => {
+    mockDb.project.findUnique.mockResolvedValue(
+      project([{ path: 'src/auth.js', content: "jwt.sign(user, 'hardcoded');" }]) as never
+    );
+
+    const response = await POST(deployRequest('vercel', { blockSeverity: 'high' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.blockSeverity).toBe('high');
+    expect(body.findings).toEqual([expect.objectContaining({ rule: 'hardcoded-jwt-secret', severity: 'critical' })]);
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'DEPLOY_BLOCKED' }),
+    });
+  });
+
+  it('should block deployment of secrets in block mode', async () => {
+    process.env.SECRET_SCAN_MODE = 'block';
+    mockDb.project.findUnique.mockResolvedValue(
+      project([{ path: 'src/config.js', content: "export const secret = 'correct-horse-battery';" }]) as never
+    );
+
+    const response = await POST(deployRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.findings).toEqual([{ path: 'src/config.js', rule: 'env-value', line: 1, column: 24 }]);
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+  });
+
+  it('should queue a deployment job and return 202', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project([{ path: 'index.html', content: '<h1>Todo</h1>' }]),
+      netlifyId: 'site-1',
+    } as never);
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+
+    const response = await POST(deployRequest('netlify'));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ deploymentId: 'dep-1', status: 'PENDING' });
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'DEPLOYING' },
+    });
+    expect(mockDb.job.create).toHaveBeenCalledWith({
+      data: {
+        type: 'deploy',
+        payload: {
+          deploymentId: 'dep-1',
+          projectId: 'proj-1',
+          userId: 'user-1',
+          provider: 'netlify',
+          envVariables: undefined,
+          isPrivate: true,
+          vercelMode: undefined,
+        },
+        maxAttempts: 1,
+        runAt: undefined,
+      },
+    });
+    expect(mockDb.deployment.update).not.toHaveBeenCalled();
+  });
+
+  it('should queue Vercel deployments with the saved project and chosen mode', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project([{ path: 'app/page.tsx', content: 'export default () => null;' }]),
+      vercelProjectId: 'prj_1',
+    } as never);
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+
+    const response = await POST(deployRequest('vercel', { vercelMode: 'git' }));
+
+    expect(response.status).toBe(202);
+    expect(mockDb.job.create.mock.calls[0][0].data.payload).toMatchObject({
+      provider: 'vercel',
+      vercelMode: 'git',
+      isPrivate: true,
+    });
+  });
+
+  it('should queue request environment variables without saving them on the project', async () => {
+    mockDb.project.findUnique.mockResolvedValue(project([{ path: 'index.html', content: '<h1>Todo</h1>' }]) as never);
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+
+    const response = await POST(deployRequest('netlify', { envVariables: { API_KEY: 'request-secret-value' } }));
+
+    expect(response.status).toBe(202);
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'DEPLOYING' },
+    });
+    expect(mockDb.job.create.mock.calls[0][0].data.payload).toMatchObject({
+      envVariables: { API_KEY: 'request-secret-value' },
+    });
+  });
+
+  it('should restore the project status when the job cannot be queued', async () => {
+    mockDb.project.findUnique.mockResolvedValue(project([{ path: 'index.html', content: '<h1>Todo</h1>' }]) as never);
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockRejectedValue(new Error('connection lost'));
+
+    const response = await POST(deployRequest('netlify'));
+
+    expect(response.status).toBe(500);
+    expect(mockDb.project.update).toHaveBeenLastCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'GENERATED' },
+    });
+    expect(mockDb.deployment.update).toHaveBeenCalledWith({
+      where: { id: 'dep-1' },
+      data: expect.objectContaining({ status: 'FAILED' }),
+    });
+  });
+
+  it('should queue GitHub Pages deployments with a public repository', async () => {
+    process.env.GITHUB_TOKEN = 'token';
+    mockDb.project.findUnique.mockResolvedValue(project([{ path: 'index.html', content: '<h1>Todo</h1>' }]) as never);
+    mockDb.deployment.create.mockResolvedValue({ id: 'dep-1', status: 'PENDING' } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+
+    const response = await POST(deployRequest('github-pages'));
+
+    expect(response.status).toBe(202);
+    expect(mockDb.job.create.mock.calls[0][0].data.payload).toMatchObject({
+      provider: 'github-pages',
+      isPrivate: false,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { GET } from '../projects/[id]/diff/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function diff(query: string) {
+  return GET(new NextRequest(`http://localhost/api/projects/proj-1/diff?${query}`), {
+    params: Promise.resolve({ id: 'proj-1' }),
+  });
+}
+
+describe('GET /api/projects/[id]/diff', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.project.findUnique.mockResolvedValue({
+      id: 'proj-1',
+      ownerId: 'user-1',
+      generatedFiles: [{ path: 'index.js', content: 'console.log(2);\n' }],
+    } as never);
+  });
+
+  it('should compare a version with a generation output', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({
+      files: [{ path: 'index.js', content: 'console.log(1);\n' }],
+    } as never);
+    mockDb.codeGeneration.findUnique.mockResolvedValue({
+      projectId: 'proj-1',
+      output: [
+        { path: 'index.js', content: 'console.log(2);\n' },
+        { path: 'README.md', content: '# App\n' },
+      ],
+    } as never);
+
+    const response = await diff('from=1&to=gen-1');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.from).toEqual({ type: 'version', version: 1 });
+    expect(body.to).toEqual({ type: 'generation', id: 'gen-1' });
+    expect(body.stats).toMatchObject({ filesChanged: 2, added: 1, modified: 1, additions: 2, deletions: 1 });
+    expect(mockDb.projectVersion.findUnique).toHaveBeenCalledWith({
+      where: { projectId_version: { projectId: 'proj-1', version: 1 } },
+      select: { files: true },
+    });
+  });
+
+  it('should compare against the current files by default and return a patch', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({
+      files: [{ path: 'index.js', content: 'console.log(1);\n' }],
+    } as never);
+
+    const response = await diff('from=1&format=patch');
+
+    expect(response.headers.get('Content-Type')).toContain('text/x-diff');
+    expect(await response.text()).toContain('-console.log(1);\n+console.log(2);');
+  });
+
+  it('should reject missing or invalid revisions', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue(null);
+
+    expect((await diff('to=1')).status).toBe(400);
+    expect((await diff('from=../x')).status).toBe(400);
+    expect((await diff('from=9')).status).toBe(404);
+  });
+
+  it('should reject generations that stored a patch instead of files', async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue({
+      projectId: 'proj-1',
+      output: { summary: 'Say bye', operations: [{ action: 'delete', path: 'index.js' }] },
+    } as never);
+
+    const response = await diff('from=gen-refine');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ revision: 'gen-refine' });
+  });
+
+  it("should forbid diffing another user's project", async () => {
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-2', generatedFiles: [] } as never);
+
+    expect((await diff('from=1')).status).toBe(403);
+  });
+});
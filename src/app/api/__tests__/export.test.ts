@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { GET } from '../projects/[id]/export/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function exportProject(query = '') {
+  return GET(new NextRequest(`http://localhost/api/projects/proj-1/export?${query}`), {
+    params: Promise.resolve({ id: 'proj-1' }),
+  });
+}
+
+describe('GET /api/projects/[id]/export', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.project.findUnique.mockResolvedValue({
+      id: 'proj-1',
+      ownerId: 'user-1',
+      name: 'Todo App',
+      version: 3,
+      generatedFiles: [{ path: 'index.js', content: 'console.log(1);\n' }],
+    } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+  });
+
+  it('should download a zip and audit the export', async () => {
+    const response = await exportProject();
+    const archive = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/zip');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="todo-app-v3.zip"');
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    expect(archive.includes(Buffer.from('todo-app/index.js'))).toBe(true);
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'EXPORT',
+        resource: 'Project',
+        resourceId: 'proj-1',
+        category: 'data_access',
+        details: { format: 'zip', version: 3, fileCount: 1, manifest: false },
+      }),
+    });
+  });
+
+  it('should export a chosen version as a tarball', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({
+      version: 2,
+      files: [{ path: 'old.js', content: 'old\n' }],
+    } as never);
+
+    const response = await exportProject('format=tar.gz&version=2');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/gzip');
+    expect(response.headers.get('Content-Disposition')).toContain('todo-app-v2.tar.gz');
+  });
+
+  it('should reject unknown formats and missing versions', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue(null);
+
+    expect((await exportProject('format=rar')).status).toBe(400);
+    expect((await exportProject('version=9')).status).toBe(404);
+    expect(mockDb.auditLog.create).not.toHaveBeenCalled();
+  });
+
+  it("should forbid exporting another user's project", async () => {
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-2', name: 'x', version: 1 } as never);
+
+    expect((await exportProject()).status).toBe(403);
+  });
+});
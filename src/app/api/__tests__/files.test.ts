@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { GET as getTree } from '../projects/[id]/files/route';
+import { GET as getFile } from '../projects/[id]/files/[...path]/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function fileRequest(path: string[]) {
+  return getFile(new NextRequest(`http://localhost/api/projects/proj-1/files/${path.join('/')}`), {
+    params: Promise.resolve({ id: 'proj-1', path }),
+  });
+}
+
+describe('Project files API', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.project.findUnique.mockResolvedValue({
+      id: 'proj-1',
+      ownerId: 'user-1',
+      version: 2,
+      generatedFiles: [
+        { path: 'src/index.ts', content: 'export const a = 1;' },
+        { path: 'package.json', content: '{}' },
+      ],
+    } as never);
+  });
+
+  it('should return the tree without file contents', async () => {
+    const response = await getTree(new NextRequest('http://localhost/api/projects/proj-1/files'), {
+      params: Promise.resolve({ id: 'proj-1' }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.version).toBe(2);
+    expect(body.fileCount).toBe(2);
+    expect(body.tree.children.map((node: { path: string }) => node.path)).toEqual(['src', 'package.json']);
+    expect(JSON.stringify(body)).not.toContain('export const a');
+  });
+
+  it('should return a single file by path', async () => {
+    const response = await fileRequest(['src', 'index.ts']);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ path: 'src/index.ts', language: 'typescript', size: 19, content: 'export const a = 1;' });
+  });
+
+  it('should return 404 for missing files and 403 for other users', async () => {
+    expect((await fileRequest(['src', 'missing.ts'])).status).toBe(404);
+
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-2', generatedFiles: [] } as never);
+    expect((await fileRequest(['package.json'])).status).toBe(403);
+  });
+});
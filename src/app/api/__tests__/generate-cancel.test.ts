@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { resetProviders, resetMockResponses } from '@/lib/ai';
+import { runGenerateJob } from '@/lib/generation/job';
+import { DELETE } from '../generate/[id]/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function generation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'gen-1',
+    projectId: 'proj-1',
+    status: 'PROCESSING',
+    previousProjectStatus: 'DEPLOYED',
+    progress: null,
+    project: { ownerId: 'user-1' },
+    ...overrides,
+  };
+}
+
+function cancelRequest() {
+  return DELETE(new NextRequest('http://localhost/api/generate/gen-1', { method: 'DELETE' }), {
+    params: Promise.resolve({ id: 'gen-1' }),
+  });
+}
+
+describe('DELETE /api/generate/[id]', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DEFAULT_LLM_PROVIDER: 'mock',
+      LLM_FALLBACK_PROVIDERS: '',
+      MOCK_LLM_LATENCY_MS: '10000',
+    };
+    resetProviders();
+    resetMockResponses();
+
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+    mockDb.project.findUnique.mockResolvedValue({ envVariables: null } as never);
+    mockDb.codeGeneration.findUnique.mockResolvedValue(generation() as never);
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should abort a running generation and restore the project status', async () => {
+    const job = runGenerateJob({
+      generationId: 'gen-1',
+      projectId: 'proj-1',
+      userId: 'user-1',
+      mode: 'single',
+      prompt: 'Build a todo app',
+      projectDescription: 'Todo',
+      techStack: [],
+      skipCache: true,
+    });
+    // Let the job reach the provider call
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const started = Date.now();
+    const response = await cancelRequest();
+    await job;
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ generationId: 'gen-1', status: 'CANCELLED' });
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: { in: ['PENDING', 'PROCESSING'] } },
+      data: { status: 'CANCELLED', completedAt: expect.any(Date) },
+    });
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'DEPLOYED' },
+    });
+    // The aborted job writes nothing further
+    expect(mockDb.codeGeneration.update).not.toHaveBeenCalled();
+    expect(mockDb.project.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to cancel finished generations', async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue(generation({ status: 'COMPLETED' }) as never);
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 0 });
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(409);
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+  });
+
+  it('should forbid cancelling other users generations', async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue(generation({ project: { ownerId: 'user-2' } }) as never);
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(403);
+    expect(mockDb.codeGeneration.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown generations', async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue(null);
+
+    const response = await cancelRequest();
+
+    expect(response.status).toBe(404);
+  });
+});
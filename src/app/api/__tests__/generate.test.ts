@@ -0,0 +1,430 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { resetProviders, resetMockResponses, setMockResponses } from '@/lib/ai';
+import { GenerateJobPayload, runGenerateJob } from '@/lib/generation/job';
+import { POST } from '../generate/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+const project = {
+  id: 'proj-1',
+  ownerId: 'user-1',
+  name: 'Todo',
+  status: 'GENERATED',
+  description: 'A todo app',
+  prompt: 'Build a todo app',
+  techStack: [{ name: 'Node.js', category: 'backend' }],
+};
+
+function generateRequest(body: Record<string, unknown>) {
+  return new NextRequest('http://localhost/api/generate', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+// Queue a generation, then run the job the way the worker would
+async function generate(body: Record<string, unknown>) {
+  const response = await POST(generateRequest(body));
+  expect(response.status).toBe(202);
+
+  const { payload } = mockDb.job.create.mock.calls[0][0].data;
+  await runGenerateJob(payload as GenerateJobPayload);
+  return response;
+}
+
+// Data written when the generation completed
+function completed() {
+  const call = mockDb.codeGeneration.updateMany.mock.calls.find(([args]) => args.data.status === 'COMPLETED');
+  expect(call).toBeDefined();
+  return call?.[0].data as Record<string, unknown>;
+}
+
+describe('POST /api/generate with the mock provider', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DEFAULT_LLM_PROVIDER: 'mock',
+      LLM_FALLBACK_PROVIDERS: '',
+      LLM_RETRY_BASE_DELAY_MS: '1',
+    };
+    resetProviders();
+    resetMockResponses();
+
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.user.findUnique.mockResolvedValue({ role: 'USER', monthlyBudgetUsd: null } as never);
+    mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: 0 } } as never);
+    mockDb.project.findUnique.mockResolvedValue(project as never);
+    mockDb.project.update.mockResolvedValue(project as never);
+    mockDb.codeGeneration.create.mockResolvedValue({ id: 'gen-1', status: 'PROCESSING' } as never);
+    mockDb.codeGeneration.update.mockResolvedValue({ id: 'gen-1' } as never);
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 1 } as never);
+    mockDb.codeGeneration.findUnique.mockResolvedValue({ id: 'gen-1', status: 'PROCESSING', progress: null } as never);
+    mockDb.job.create.mockResolvedValue({ id: 'job-1' } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+    mockDb.promptTemplate.findMany.mockResolvedValue([]);
+    mockDb.generationCache.findUnique.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should queue the generation and return its id right away', async () => {
+    const response = await POST(generateRequest({ projectId: 'proj-1' }));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ generationId: 'gen-1', status: 'PROCESSING', mode: 'single' });
+    expect(mockDb.codeGeneration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'PROCESSING', previousProjectStatus: 'GENERATED' }),
+    });
+    expect(mockDb.job.create).toHaveBeenCalledWith({
+      data: {
+        type: 'generate',
+        payload: expect.objectContaining({ generationId: 'gen-1', projectId: 'proj-1', userId: 'user-1', mode: 'single' }),
+        maxAttempts: 1,
+        runAt: undefined,
+      },
+    });
+    expect(mockDb.codeGeneration.update).not.toHaveBeenCalled();
+  });
+
+  it('should generate and store files without API keys', async () => {
+    await generate({ projectId: 'proj-1' });
+
+    const data = completed();
+    expect((data.output as { path: string }[]).map((file) => file.path)).toEqual([
+      'README.md',
+      'src/index.js',
+    ]);
+    expect(data).toMatchObject({ provider: 'mock', model: 'mock-1' });
+    expect(mockDb.project.update).toHaveBeenLastCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'GENERATED', generatedFiles: data.output, version: { increment: 1 } },
+    });
+    expect(mockDb.projectVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ source: 'generate', codeGenerationId: 'gen-1', createdById: 'user-1' }),
+    });
+  });
+
+  it('should not save a generation cancelled just before it completed', async () => {
+    setMockResponses('default', {
+      content: JSON.stringify({ files: [{ path: 'index.js', content: 'console.log(1);' }] }),
+      usage: { inputTokens: 800, outputTokens: 200 },
+    });
+    // The cancellation lands after the repair check, before the final write
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 0 } as never);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: 'PROCESSING' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+    expect(mockDb.project.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: expect.stringMatching(/GENERATED|FAILED/) }) })
+    );
+    expect(mockDb.projectVersion.create).not.toHaveBeenCalled();
+    expect(mockDb.codeGeneration.update).toHaveBeenCalledWith({
+      where: { id: 'gen-1' },
+      data: { tokenUsage: { inputTokens: 800, outputTokens: 200 }, costUsd: 0 },
+    });
+  });
+
+  it('should add the spend of a resumed run to the spend already recorded', async () => {
+    setMockResponses('default', {
+      content: JSON.stringify({ files: [{ path: 'index.js', content: 'console.log(1);' }] }),
+      usage: { inputTokens: 800, outputTokens: 200 },
+    });
+    // A failed earlier run already recorded what it was billed
+    mockDb.codeGeneration.findUnique.mockResolvedValue({
+      id: 'gen-1',
+      status: 'PROCESSING',
+      progress: null,
+      tokenUsage: { inputTokens: 1000, outputTokens: 100 },
+      costUsd: 0.5,
+    } as never);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(completed()).toMatchObject({
+      tokenUsage: { inputTokens: 1800, outputTokens: 300 },
+      costUsd: 0.5,
+    });
+  });
+
+  it('should use the mock provider when a request asks for it', async () => {
+    process.env.DEFAULT_LLM_PROVIDER = 'anthropic';
+    resetProviders();
+
+    await generate({ projectId: 'proj-1', provider: 'mock' });
+
+    expect(completed()).toMatchObject({ provider: 'mock', model: 'mock-1' });
+  });
+
+  it('should skip generations cancelled while queued', async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue({ id: 'gen-1', status: 'CANCELLED', progress: null } as never);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.codeGeneration.update).not.toHaveBeenCalled();
+    expect(mockDb.codeGeneration.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should continue a truncated generation', async () => {
+    const files = JSON.stringify({ files: [{ path: 'index.js', content: 'console.log(1);' }] });
+    setMockResponses('default', [
+      { content: files.slice(0, 30), finishReason: 'max_tokens' },
+      { content: files.slice(30) },
+    ]);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(completed().output).toEqual([{ path: 'index.js', content: 'console.log(1);' }]);
+  });
+
+  it('should record a failure when the provider keeps failing', async () => {
+    setMockResponses('default', { error: { message: 'Service unavailable', status: 503 } });
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: 'PROCESSING' },
+      data: expect.objectContaining({
+        status: 'FAILED',
+        errorMessage: 'Service unavailable',
+        attempts: expect.arrayContaining([expect.objectContaining({ provider: 'mock', status: 503 })]),
+      }),
+    });
+    expect(mockDb.project.update).toHaveBeenLastCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'FAILED' },
+    });
+  });
+
+  it('should record the spend of a response that could not be used', async () => {
+    setMockResponses('default', {
+      content: 'Sorry, I cannot help with that.',
+      usage: { inputTokens: 1200, outputTokens: 40 },
+    });
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: 'PROCESSING' },
+      data: expect.objectContaining({
+        status: 'FAILED',
+        tokenUsage: { inputTokens: 1200, outputTokens: 40 },
+        costUsd: 0,
+      }),
+    });
+  });
+
+  it('should stream a generation as Server-Sent Events', async () => {
+    const response = await POST(generateRequest({ projectId: 'proj-1', stream: true }));
+    const text = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(text).toContain('event: file\ndata: {"path":"README.md"');
+    expect(text).toContain('event: done\ndata: {"generationId":"gen-1"');
+    // Raw deltas cannot be redacted, so they are only sent with scanning off
+    expect(text).not.toContain('event: token');
+  });
+
+  it('should finish and save a streamed generation after the client disconnects', async () => {
+    process.env.SECRET_SCAN_MODE = 'off';
+    const response = await POST(generateRequest({ projectId: 'proj-1', stream: true }));
+
+    await response.body!.cancel();
+
+    await vi.waitFor(() => completed());
+    expect(mockDb.project.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'GENERATED' }) })
+    );
+    expect(mockDb.project.update).not.toHaveBeenCalledWith({ where: { id: 'proj-1' }, data: { status: 'FAILED' } });
+  });
+
+  it('should stream raw tokens when secret scanning is off', async () => {
+    process.env.SECRET_SCAN_MODE = 'off';
+
+    const response = await POST(generateRequest({ projectId: 'proj-1', stream: true }));
+
+    expect(await response.text()).toContain('event: token');
+  });
+
+  it('should redact streamed files and partial output before sending or saving them', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project,
+      envVariables: { DB_PASSWORD: 'hunter2-production-pw' },
+    } as never);
+    setMockResponses('default', {
+      content: JSON.stringify({
+        files: [{ path: 'db.js', content: "module.exports = 'hunter2-production-pw';" }],
+      }),
+    });
+
+    const response = await POST(generateRequest({ projectId: 'proj-1', stream: true }));
+    const text = await response.text();
+
+    expect(text).toContain('[REDACTED:env-value]');
+    expect(text).not.toContain('hunter2-production-pw');
+    for (const [args] of [...mockDb.codeGeneration.update.mock.calls, ...mockDb.codeGeneration.updateMany.mock.calls]) {
+      expect(JSON.stringify(args.data.output ?? null)).not.toContain('hunter2-production-pw');
+    }
+  });
+
+  it('should record the prompt template used', async () => {
+    mockDb.promptTemplate.findMany.mockResolvedValue([
+      {
+        id: 'tpl-1',
+        name: 'node-api',
+        version: 3,
+        body: 'Write a Node.js service: {{description}}',
+        techStack: 'node.js',
+      },
+    ] as never);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.codeGeneration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ promptTemplateId: 'tpl-1', promptTemplateVersion: 3 }),
+    });
+  });
+
+  it('should validate the files and drop unsafe paths', async () => {
+    setMockResponses('default', {
+      content: JSON.stringify({
+        files: [
+          { path: 'index.js', content: "require('./missing');" },
+          { path: '../escape.sh', content: 'rm -rf /' },
+        ],
+      }),
+    });
+
+    await generate({ projectId: 'proj-1', repairRounds: 0 });
+
+    expect(completed()).toMatchObject({
+      output: [{ path: 'index.js', content: "require('./missing');" }],
+      repairRounds: 0,
+      diagnostics: [
+        expect.objectContaining({ path: '../escape.sh', code: 'unsafe-path', severity: 'error' }),
+        expect.objectContaining({ path: 'index.js', code: 'unresolved-import', severity: 'error' }),
+      ],
+    });
+  });
+
+  it('should send validation errors back to the model for repair', async () => {
+    setMockResponses('default', [
+      { content: JSON.stringify({ files: [{ path: 'index.js', content: 'const x = ;' }] }) },
+      { content: JSON.stringify({ files: [{ path: 'index.js', content: 'const x = 1;' }] }), usage: { inputTokens: 40, outputTokens: 10 } },
+    ]);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(completed()).toMatchObject({
+      output: [{ path: 'index.js', content: 'const x = 1;' }],
+      diagnostics: [],
+      repairRounds: 1,
+      repairTokenUsage: { inputTokens: 40, outputTokens: 10 },
+    });
+  });
+
+  it('should redact secrets and the project env values before saving', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project,
+      envVariables: { DB_PASSWORD: 'hunter2-production-pw' },
+    } as never);
+    setMockResponses('default', {
+      content: JSON.stringify({
+        files: [{ path: 'db.js', content: "module.exports = 'hunter2-production-pw';" }],
+      }),
+    });
+
+    await generate({ projectId: 'proj-1' });
+
+    const files = [{ path: 'db.js', content: "module.exports = '[REDACTED:env-value]';" }];
+    expect(completed().output).toEqual(files);
+    expect(mockDb.project.update).toHaveBeenLastCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'GENERATED', generatedFiles: files, version: { increment: 1 } },
+    });
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'SECRETS_DETECTED', category: 'security' }),
+    });
+  });
+
+  it('should refuse to save secrets in block mode', async () => {
+    process.env.SECRET_SCAN_MODE = 'block';
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project,
+      envVariables: { DB_PASSWORD: 'hunter2-production-pw' },
+    } as never);
+    setMockResponses('default', {
+      content: JSON.stringify({
+        files: [{ path: 'db.js', content: "module.exports = 'hunter2-production-pw';" }],
+      }),
+    });
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'SECRETS_DETECTED',
+        details: expect.objectContaining({
+          findings: [{ path: 'db.js', rule: 'env-value', line: 1, column: 19 }],
+        }),
+      }),
+    });
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: 'PROCESSING' },
+      data: expect.objectContaining({ status: 'FAILED' }),
+    });
+    expect(mockDb.codeGeneration.updateMany.mock.calls.some(([args]) => args.data.status === 'COMPLETED')).toBe(false);
+  });
+
+  it('should record cache hits at no cost', async () => {
+    mockDb.generationCache.findUnique.mockResolvedValue({
+      expiresAt: new Date(Date.now() + 60000),
+      result: {
+        content: JSON.stringify({ files: [{ path: 'index.js', content: 'cached' }] }),
+        files: [{ path: 'index.js', content: 'cached' }],
+        model: 'mock-1',
+        provider: 'mock',
+        usage: { inputTokens: 100, outputTokens: 200, totalTokens: 300 },
+        finishReason: 'stop',
+        durationMs: 500,
+      },
+    } as never);
+
+    await generate({ projectId: 'proj-1' });
+
+    expect(completed()).toMatchObject({
+      cacheHit: true,
+      costUsd: 0,
+      tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    });
+  });
+
+  it('should bypass the cache with skipCache', async () => {
+    await generate({ projectId: 'proj-1', skipCache: true });
+
+    expect(mockDb.generationCache.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to generate once the monthly budget is spent', async () => {
+    mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: 50 } } as never);
+
+    const response = await POST(generateRequest({ projectId: 'proj-1' }));
+
+    expect(response.status).toBe(402);
+    expect(mockDb.codeGeneration.create).not.toHaveBeenCalled();
+  });
+});
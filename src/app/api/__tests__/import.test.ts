@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { createArchiveEntries, zipArchive } from '@/lib/export';
+import { POST } from '../projects/import/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function zipUpload(files: { path: string; content: string }[]) {
+  const zip = Buffer.concat([...zipArchive(createArchiveEntries(files))]);
+  const form = new FormData();
+  form.set('name', 'Imported');
+  form.set('archive', new File([zip], 'repo.zip', { type: 'application/zip' }));
+  return new NextRequest('http://localhost/api/projects/import', { method: 'POST', body: form });
+}
+
+describe('POST /api/projects/import', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.project.create.mockImplementation((async ({ data }: { data: object }) => ({
+      id: 'proj-1',
+      version: 1,
+      ...data,
+    })) as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should create a generated project from a zip upload', async () => {
+    const response = await POST(
+      zipUpload([
+        { path: 'package.json', content: JSON.stringify({ dependencies: { express: '^4.19.0' } }) },
+        { path: 'index.js', content: "require('express')().listen(3000);\n" },
+        { path: 'node_modules/express/index.js', content: '' },
+      ])
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body.import).toMatchObject({ source: 'zip', fileCount: 2, skipped: [{ path: 'node_modules/express/index.js', reason: 'ignored' }] });
+    expect(mockDb.project.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Imported',
+        status: 'GENERATED',
+        ownerId: 'user-1',
+        techStack: [
+          { name: 'Node.js', category: 'backend' },
+          { name: 'Express', category: 'backend', version: '4' },
+        ],
+        generatedFiles: [
+          { path: 'index.js', content: "require('express')().listen(3000);\n" },
+          expect.objectContaining({ path: 'package.json' }),
+        ],
+      }),
+    });
+    expect(mockDb.projectVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ projectId: 'proj-1', version: 1, source: 'import' }),
+    });
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'CREATE', resource: 'Project' }),
+    });
+  });
+
+  it('should reject uploads without importable files', async () => {
+    const response = await POST(zipUpload([{ path: 'logo.png', content: 'x' }]));
+
+    expect(response.status).toBe(400);
+    expect(mockDb.project.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse uploads with more files than the limit', async () => {
+    process.env = { ...originalEnv, IMPORT_MAX_FILES: '2' };
+
+    const response = await POST(
+      zipUpload(Array.from({ length: 5 }, (_, index) => ({ path: `f${index}.txt`, content: 'x' })))
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(413);
+    expect(body.error).toMatch(/more than 2 files/);
+    expect(mockDb.project.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse repositories on private addresses', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost/api/projects/import', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Internal', repositoryUrl: 'https://localhost/repo.git' }),
+      })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toMatch(/private address/);
+  });
+});
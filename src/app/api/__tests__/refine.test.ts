@@ -0,0 +1,130 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { resetProviders, resetMockResponses, setMockResponses } from '@/lib/ai';
+import { POST } from '../projects/[id]/refine/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+const project = {
+  id: 'proj-1',
+  ownerId: 'user-1',
+  status: 'GENERATED',
+  version: 2,
+  generatedFiles: [{ path: 'db.js', content: 'module.exports = process.env.DB_PASSWORD;' }],
+  chatHistory: null,
+  envVariables: { DB_PASSWORD: 'hunter2-production-pw' },
+};
+
+const leakyPatch = JSON.stringify({
+  summary: 'Inline the password',
+  operations: [{ action: 'modify', path: 'db.js', content: "module.exports = 'hunter2-production-pw';" }],
+});
+
+function refine(message: string) {
+  return POST(
+    new NextRequest('http://localhost/api/projects/proj-1/refine', {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    }),
+    { params: Promise.resolve({ id: 'proj-1' }) }
+  );
+}
+
+describe('POST /api/projects/[id]/refine', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DEFAULT_LLM_PROVIDER: 'mock',
+      LLM_FALLBACK_PROVIDERS: '',
+    };
+    resetProviders();
+    resetMockResponses();
+
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.user.findUnique.mockResolvedValue({ role: 'USER', monthlyBudgetUsd: null } as never);
+    mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: 0 } } as never);
+    mockDb.project.findUnique.mockResolvedValue(project as never);
+    mockDb.project.update.mockResolvedValue({ ...project, version: 3 } as never);
+    mockDb.codeGeneration.create.mockResolvedValue({ id: 'gen-1' } as never);
+    mockDb.codeGeneration.update.mockResolvedValue({ id: 'gen-1' } as never);
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 1 } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+    mockDb.generationCache.findUnique.mockResolvedValue(null);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should keep redacted secrets out of the stored conversation', async () => {
+    setMockResponses('default', { content: leakyPatch });
+
+    const response = await refine('Hardcode the password');
+
+    expect(response.status).toBe(200);
+    const { data } = mockDb.project.update.mock.calls[0][0];
+    const history = data.chatHistory as { role: string; content: string }[];
+    expect(history.map((message) => message.role)).toEqual(['user', 'assistant']);
+    expect(history[1].content).toContain('[REDACTED:env-value]');
+    expect(JSON.stringify(data)).not.toContain('hunter2-production-pw');
+  });
+
+  it('should refuse patches with secrets in block mode and record the spend', async () => {
+    process.env.SECRET_SCAN_MODE = 'block';
+    setMockResponses('default', {
+      content: leakyPatch,
+      usage: { inputTokens: 500, outputTokens: 50 },
+    });
+
+    const response = await refine('Hardcode the password');
+
+    expect(response.status).toBe(422);
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gen-1', status: 'PROCESSING' },
+      data: expect.objectContaining({
+        status: 'FAILED',
+        tokenUsage: { inputTokens: 500, outputTokens: 50 },
+      }),
+    });
+  });
+
+  it('should record the previous project status so a cancellation can restore it', async () => {
+    setMockResponses('default', { content: leakyPatch });
+
+    await refine('Hardcode the password');
+
+    expect(mockDb.codeGeneration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ mode: 'refine', previousProjectStatus: 'GENERATED' }),
+    });
+  });
+
+  it('should not apply a refinement that was cancelled while it ran', async () => {
+    setMockResponses('default', {
+      content: leakyPatch,
+      usage: { inputTokens: 500, outputTokens: 50 },
+    });
+    mockDb.codeGeneration.updateMany.mockResolvedValue({ count: 0 } as never);
+    mockDb.codeGeneration.findUnique.mockResolvedValue({ tokenUsage: null, costUsd: null } as never);
+
+    const response = await refine('Hardcode the password');
+
+    expect(response.status).toBe(409);
+    expect(mockDb.codeGeneration.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+    expect(mockDb.projectVersion.create).not.toHaveBeenCalled();
+    expect(mockDb.codeGeneration.update).toHaveBeenCalledWith({
+      where: { id: 'gen-1' },
+      data: expect.objectContaining({ tokenUsage: { inputTokens: 500, outputTokens: 50 } }),
+    });
+  });
+});
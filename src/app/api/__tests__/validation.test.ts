@@ -26,8 +26,30 @@ const listProjectsSchema = z.object({
 const generateSchema = z.object({
   projectId: z.string(),
   prompt: z.string().min(1).max(10000).optional(),
-  provider: z.enum(['anthropic', 'openai', 'gemini']).optional(),
+  provider: z.enum(['anthropic', 'openai', 'gemini', 'openai-compatible', 'mock']).optional(),
   model: z.string().optional(),
+  stream: z.boolean().default(false),
+  mode: z.enum(['single', 'planned']).default('single'),
+  resumeGenerationId: z.string().optional(),
+  skipCache: z.boolean().default(false),
+  repairRounds: z.number().int().min(0).max(5).optional(),
+});
+
+const refineSchema = z.object({
+  message: z.string().min(1).max(10000),
+  provider: z.enum(['anthropic', 'openai', 'gemini', 'openai-compatible', 'mock']).optional(),
+  model: z.string().optional(),
+});
+
+const createTemplateSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9-]+$/, 'Use lowercase letters, numbers and dashes'),
+  body: z.string().min(1).max(50000),
+  description: z.string().max(1000).optional(),
+  techStack: z.string().min(1).max(100).nullable().optional(),
 });
 
 const deploySchema = z.object({
@@ -256,7 +278,7 @@ describe('API Input Validation Schemas', () => {
     });
 
     it('should accept all valid providers', () => {
-      const providers = ['anthropic', 'openai', 'gemini'];
+      const providers = ['anthropic', 'openai', 'gemini', 'openai-compatible', 'mock'];
 
       for (const provider of providers) {
         const data = {
@@ -298,6 +320,72 @@ describe('API Input Validation Schemas', () => {
       const result = generateSchema.safeParse(invalidData);
       expect(result.success).toBe(false);
     });
+
+    it('should default stream to false', () => {
+      const result = generateSchema.safeParse({ projectId: 'proj-123' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.stream).toBe(false);
+      }
+    });
+
+    it('should accept stream flag', () => {
+      const result = generateSchema.safeParse({
+        projectId: 'proj-123',
+        stream: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should default mode to single', () => {
+      const result = generateSchema.safeParse({ projectId: 'proj-123' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe('single');
+      }
+    });
+
+    it('should reject unknown generation mode', () => {
+      const result = generateSchema.safeParse({
+        projectId: 'proj-123',
+        mode: 'batched',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('refineSchema', () => {
+    it('should accept a change request', () => {
+      const result = refineSchema.safeParse({
+        message: 'Add a dark mode toggle',
+        provider: 'openai',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty change request', () => {
+      const result = refineSchema.safeParse({ message: '' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('createTemplateSchema', () => {
+    it('should accept a template for a tech stack', () => {
+      const result = createTemplateSchema.safeParse({
+        name: 'nextjs-app',
+        body: 'Build {{description}} with {{techStack}}',
+        techStack: 'Next.js',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject names that are not slugs', () => {
+      const result = createTemplateSchema.safeParse({
+        name: 'Next.js App',
+        body: '{{description}}',
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('deploySchema', () => {
@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { POST } from '../projects/[id]/versions/[version]/restore/route';
+
+vi.mock('@/lib/auth/config', () => ({ authOptions: {} }));
+
+const mockDb = vi.mocked(db, true);
+const mockGetServerSession = vi.mocked(getServerSession);
+
+function restore(version: string) {
+  return POST(new NextRequest(`http://localhost/api/projects/proj-1/versions/${version}/restore`, { method: 'POST' }), {
+    params: Promise.resolve({ id: 'proj-1', version }),
+  });
+}
+
+describe('POST /api/projects/[id]/versions/[version]/restore', () => {
+  beforeEach(() => {
+    mockGetServerSession.mockResolvedValue({ user: { id: 'user-1', role: 'USER' } } as never);
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-1', status: 'GENERATED', version: 4 } as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+  });
+
+  it('should restore the version and audit it', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({ version: 2, files: [], prompt: null, techStack: [] } as never);
+    mockDb.project.update.mockResolvedValue({ id: 'proj-1', version: 5 } as never);
+
+    const response = await restore('2');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ version: 5, restoredFromVersion: 2 });
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'RESTORE',
+        resource: 'Project',
+        oldValue: { version: 4 },
+        newValue: { version: 5, restoredFromVersion: 2 },
+      }),
+    });
+  });
+
+  it('should reject invalid and missing versions', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue(null);
+
+    expect((await restore('latest')).status).toBe(400);
+    expect((await restore('7')).status).toBe(404);
+  });
+
+  it('should refuse while a generation is running', async () => {
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-1', status: 'GENERATING' } as never);
+
+    expect((await restore('2')).status).toBe(409);
+  });
+
+  it("should forbid restoring another user's project", async () => {
+    mockDb.project.findUnique.mockResolvedValue({ id: 'proj-1', ownerId: 'user-2', status: 'GENERATED' } as never);
+
+    expect((await restore('2')).status).toBe(403);
+  });
+});
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+
+// Delay between status reads while streaming (2 seconds)
+const STATUS_POLL_INTERVAL_MS = 2000;
+
+const TERMINAL_STATUSES = ["SUCCESS", "FAILED", "CANCELLED"];
+
+const deploymentSelect = {
+  id: true,
+  projectId: true,
+  provider: true,
+  status: true,
+  url: true,
+  errorMessage: true,
+  startedAt: true,
+  completedAt: true,
+} as const;
+
+async function findDeployment(id: string) {
+  return db.deployment.findUnique({
+    where: { id },
+    select: { ...deploymentSelect, project: { select: { ownerId: true } } },
+  });
+}
+
+/**
+ * GET /api/deploy/[id] - Get a deployment's status. With `?stream=true` the
+ * status is sent as Server-Sent Events: `status` whenever it changes and
+ * `done` once the deployment has finished.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const found = await findDeployment(id);
+
+    if (!found) {
+      return NextResponse.json(
+        { error: "Deployment not found" },
+        { status: 404 }
+      );
+    }
+
+    const { project, ...deployment } = found;
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get("stream") !== "true") {
+      return NextResponse.json(deployment);
+    }
+
+    return streamStatus(request, deployment);
+  } catch (error) {
+    console.error("Error getting deployment:", error);
+    return NextResponse.json(
+      { error: "Failed to get deployment" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Poll the deployment until it finishes or the client disconnects
+ */
+function streamStatus(
+  request: NextRequest,
+  initial: { id: string; status: string }
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; later events are dropped
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, payload: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`
+            )
+          );
+        } catch {
+          closed = true;
+        }
+      };
+
+      let deployment: { id: string; status: string } | null = initial;
+      let lastStatus: string | null = null;
+
+      try {
+        while (deployment && !request.signal.aborted && !closed) {
+          if (deployment.status !== lastStatus) {
+            send("status", deployment);
+            lastStatus = deployment.status;
+          }
+          if (TERMINAL_STATUSES.includes(deployment.status)) {
+            send("done", deployment);
+            break;
+          }
+
+          await new Promise((resolve) =>
+            setTimeout(resolve, STATUS_POLL_INTERVAL_MS)
+          );
+          deployment = await db.deployment.findUnique({
+            where: { id: initial.id },
+            select: deploymentSelect,
+          });
+        }
+      } catch (error) {
+        console.error("Error streaming deployment status:", error);
+        send("error", { error: "Failed to get deployment" });
+      } finally {
+        if (!closed) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
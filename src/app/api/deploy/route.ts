@@ -3,7 +3,16 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth/config";
 import { db } from "@/lib/db";
 import { audit } from "@/lib/compliance";
-import { fullDeploymentPipeline, getConfiguredProviders } from "@/lib/deploy";
+import { getConfiguredProviders } from "@/lib/deploy";
+import { DEPLOY_JOB, DeployJobPayload } from "@/lib/deploy/job";
+import { enqueueJob } from "@/lib/jobs";
+import {
+  findingsAtOrAbove,
+  getDeployBlockSeverity,
+  lintSecurity,
+  protectSecrets,
+  summarizeFindings,
+} from "@/lib/analysis";
 import { z } from "zod";
 
 const deploySchema = z.object({
@@ -11,11 +20,18 @@ const deploySchema = z.object({
   provider: z.enum(["vercel", "netlify", "github-pages"]),
   envVariables: z.record(z.string(), z.string()).optional(),
   createGitHubRepo: z.boolean().default(true),
-  isPrivate: z.boolean().default(true),
+  // Defaults to private, except for GitHub Pages, which free plans only
+  // serve from public repositories
+  isPrivate: z.boolean().optional(),
+  // Vercel only: upload the files, or deploy from the pushed GitHub repository
+  vercelMode: z.enum(["files", "git"]).default("files"),
+  // Refuse the deployment on security findings at or above this severity,
+  // on top of DEPLOY_BLOCK_SEVERITY
+  blockSeverity: z.enum(["low", "medium", "high", "critical"]).optional(),
 });
 
 /**
- * POST /api/deploy - Deploy a project
+ * POST /api/deploy - Queue a deployment and return its id with 202
  */
 export async function POST(request: NextRequest) {
   try {
@@ -58,109 +74,120 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update project status
-    await db.project.update({
-      where: { id: project.id },
-      data: { status: "DEPLOYING" },
-    });
+    // Scan for secrets before anything is pushed
+    const secrets = protectSecrets(
+      project.generatedFiles as Array<{ path: string; content: string }>,
+      {
+        envValues: Object.values({
+          ...((project.envVariables as Record<string, string> | null) ?? {}),
+          ...data.envVariables,
+        }),
+      }
+    );
 
-    // Create deployment record
-    const deployment = await db.deployment.create({
-      data: {
+    if (secrets.findings.length > 0) {
+      await audit.security(session.user.id, "SECRETS_DETECTED", {
         projectId: project.id,
         provider: data.provider,
-        status: "PENDING",
-      },
-    });
-
-    try {
-      // Update deployment status to building
-      await db.deployment.update({
-        where: { id: deployment.id },
-        data: { status: "BUILDING" },
-      });
-
-      const files = project.generatedFiles as Array<{
-        path: string;
-        content: string;
-      }>;
-
-      // Deploy
-      const result = await fullDeploymentPipeline({
-        projectName: project.name.toLowerCase().replace(/[^a-z0-9-]/g, "-"),
-        description: project.description || undefined,
-        files,
-        deployProvider: data.provider,
-        envVariables: data.envVariables,
-        isPrivate: data.isPrivate,
+        mode: secrets.mode,
+        findings: summarizeFindings(secrets.findings),
       });
+    }
 
-      if (result.success) {
-        // Update deployment record
-        await db.deployment.update({
-          where: { id: deployment.id },
-          data: {
-            status: "SUCCESS",
-            url: result.deploymentUrl,
-            completedAt: new Date(),
-          },
-        });
+    if (secrets.blocked) {
+      return NextResponse.json(
+        {
+          error: "Project files contain secrets",
+          findings: summarizeFindings(secrets.findings),
+        },
+        { status: 422 }
+      );
+    }
 
-        // Update project
-        await db.project.update({
-          where: { id: project.id },
-          data: {
-            status: "DEPLOYED",
-            deploymentUrl: result.deploymentUrl,
-            githubRepo: result.githubUrl,
-            lastDeployedAt: new Date(),
-          },
-        });
+    // Refuse to deploy code with security findings at or above the threshold
+    const blockSeverity = getDeployBlockSeverity(data.blockSeverity);
+    if (blockSeverity) {
+      const blocking = findingsAtOrAbove(
+        lintSecurity(secrets.files),
+        blockSeverity
+      );
 
-        await audit.create(session.user.id, "Deployment", deployment.id, {
+      if (blocking.length > 0) {
+        await audit.security(session.user.id, "DEPLOY_BLOCKED", {
           projectId: project.id,
           provider: data.provider,
-          url: result.deploymentUrl,
-          githubUrl: result.githubUrl,
+          severity: blockSeverity,
+          findings: blocking.map(({ path, rule, severity, line }) => ({
+            path,
+            rule,
+            severity,
+            line,
+          })),
         });
 
-        return NextResponse.json({
-          success: true,
-          deploymentId: deployment.id,
-          deploymentUrl: result.deploymentUrl,
-          githubUrl: result.githubUrl,
-        });
-      } else {
-        throw new Error(result.error || "Deployment failed");
+        return NextResponse.json(
+          {
+            error: "Deployment blocked by security findings",
+            blockSeverity,
+            findings: blocking,
+          },
+          { status: 422 }
+        );
       }
-    } catch (deployError) {
-      // Update records on failure
-      await db.deployment.update({
-        where: { id: deployment.id },
+    }
+
+    await db.project.update({
+      where: { id: project.id },
+      data: { status: "DEPLOYING" },
+    });
+
+    let deploymentId: string | undefined;
+    try {
+      // Create deployment record
+      const deployment = await db.deployment.create({
         data: {
-          status: "FAILED",
-          errorMessage:
-            deployError instanceof Error
-              ? deployError.message
-              : "Unknown error",
-          completedAt: new Date(),
+          projectId: project.id,
+          provider: data.provider,
+          status: "PENDING",
         },
       });
+      deploymentId = deployment.id;
 
+      // The worker runs the pipeline; its status is polled or streamed from
+      // GET /api/deploy/[id]
+      const payload: DeployJobPayload = {
+        deploymentId: deployment.id,
+        projectId: project.id,
+        userId: session.user.id,
+        provider: data.provider,
+        envVariables: data.envVariables,
+        isPrivate: data.isPrivate ?? data.provider !== "github-pages",
+        vercelMode: data.provider === "vercel" ? data.vercelMode : undefined,
+      };
+      // Deployments push to GitHub and the provider, so they are not retried
+      await enqueueJob(DEPLOY_JOB, payload, { maxAttempts: 1 });
+
+      return NextResponse.json(
+        { deploymentId: deployment.id, status: deployment.status },
+        { status: 202 }
+      );
+    } catch (error) {
+      // Nothing was queued, so the project must not be left DEPLOYING
       await db.project.update({
         where: { id: project.id },
-        data: { status: "FAILED" },
+        data: { status: project.status },
       });
-
-      await audit.error(
-        session.user.id,
-        "Deployment",
-        "DEPLOY",
-        deployError instanceof Error ? deployError.message : "Unknown error",
-        { projectId: project.id, deploymentId: deployment.id }
-      );
-
-      throw deployError;
+      if (deploymentId) {
+        await db.deployment.update({
+          where: { id: deploymentId },
+          data: {
+            status: "FAILED",
+            errorMessage: "Failed to queue the deployment",
+            completedAt: new Date(),
+          },
+        });
+      }
+      throw error;
     }
   } catch (error) {
     console.error("Error deploying:", error);
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { cancelGeneration } from "@/lib/generation";
+
+const generationSelect = {
+  id: true,
+  projectId: true,
+  model: true,
+  provider: true,
+  mode: true,
+  status: true,
+  output: true,
+  incompleteFiles: true,
+  diagnostics: true,
+  securityFindings: true,
+  repairRounds: true,
+  tokenUsage: true,
+  costUsd: true,
+  cacheHit: true,
+  durationMs: true,
+  errorMessage: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+/**
+ * GET /api/generate/[id] - Get a generation's status, and its files once
+ * it has completed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const found = await db.codeGeneration.findUnique({
+      where: { id },
+      select: { ...generationSelect, project: { select: { ownerId: true } } },
+    });
+
+    if (!found) {
+      return NextResponse.json(
+        { error: "Generation not found" },
+        { status: 404 }
+      );
+    }
+
+    const { project, ...generation } = found;
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json(generation);
+  } catch (error) {
+    console.error("Error getting generation:", error);
+    return NextResponse.json(
+      { error: "Failed to get generation" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/generate/[id] - Cancel a queued or running generation. The
+ * provider call is aborted and the project gets back its previous status.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const generation = await db.codeGeneration.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        projectId: true,
+        status: true,
+        previousProjectStatus: true,
+        project: { select: { ownerId: true } },
+      },
+    });
+
+    if (!generation) {
+      return NextResponse.json(
+        { error: "Generation not found" },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (
+      generation.project.ownerId !== session.user.id &&
+      session.user.role === "USER"
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const cancelled = await cancelGeneration(session.user.id, generation);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Cannot cancel a generation that is ${generation.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      generationId: generation.id,
+      status: "CANCELLED",
+    });
+  } catch (error) {
+    console.error("Error cancelling generation:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel generation" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,24 +2,242 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth/config";
 import { db } from "@/lib/db";
-import { audit } from "@/lib/compliance";
+import { getBudgetStatus } from "@/lib/billing";
+import { buildGenerationPrompt } from "@/lib/prompts";
 import {
-  generate,
-  createCodeGenerationPrompt,
-  parseCodeGenerationResponse,
+  getSecretScanMode,
+  redactPartialFiles,
+  summarizeFindings,
+  SecretLeakError,
+} from "@/lib/analysis";
+import {
+  createUsageMeter,
+  generateProjectFiles,
+  FileStreamParser,
+  GeneratedFileOutput,
   LLMProvider,
 } from "@/lib/ai";
+import {
+  completeGeneration,
+  failGeneration,
+  GenerationCancelledError,
+  recordCancelledSpend,
+  trackGeneration,
+} from "@/lib/generation";
+import { GENERATE_JOB, GenerateJobPayload } from "@/lib/generation/job";
+import { enqueueJob } from "@/lib/jobs";
 import { z } from "zod";
 
 const generateSchema = z.object({
   projectId: z.string(),
   prompt: z.string().min(1).max(10000).optional(),
-  provider: z.enum(["anthropic", "openai", "gemini"]).optional(),
+  provider: z
+    .enum(["anthropic", "openai", "gemini", "openai-compatible", "mock"])
+    .optional(),
   model: z.string().optional(),
+  stream: z.boolean().default(false),
+  mode: z.enum(["single", "planned"]).default("single"),
+  resumeGenerationId: z.string().optional(),
+  skipCache: z.boolean().default(false),
+  repairRounds: z.number().int().min(0).max(5).optional(),
 });
 
+type GeneratedFiles = GeneratedFileOutput[];
+
+/**
+ * Stream a generation as Server-Sent Events.
+ *
+ * Events: `token` for each text delta (only with secret scanning off, since
+ * raw deltas cannot be redacted), `file` for each file as soon as it can be
+ * parsed, with secrets redacted, `usage` once the provider reports token
+ * counts, `file` again for each file changed by a repair round or the
+ * final secret scan,
+ * `validation` with the static checks of the final files, `security` with
+ * the OWASP lint findings, `done` with the CodeGeneration id, `error` if
+ * the generation fails, and `cancelled` if it is cancelled through
+ * DELETE /api/generate/[id].
+ */
+function streamGeneration(
+  userId: string,
+  projectId: string,
+  codeGenId: string,
+  fullPrompt: string,
+  envValues: string[],
+  data: z.infer<typeof generateSchema>
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; later events are dropped
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, payload: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`
+            )
+          );
+        } catch {
+          closed = true;
+        }
+      };
+
+      const parser = new FileStreamParser();
+      const streamTokens = getSecretScanMode() === "off";
+      const tracker = trackGeneration(codeGenId);
+      const spend = createUsageMeter();
+      const streamedFiles: GeneratedFiles = [];
+
+      // Keep partial output on the record, one write at a time
+      let persist: Promise<unknown> = Promise.resolve();
+
+      const generateOptions = {
+        provider: data.provider as LLMProvider,
+        model: data.model,
+        maxTokens: 8192,
+        temperature: 0.7,
+        structuredOutput: true,
+        cache: !data.skipCache,
+        signal: tracker.signal,
+        onUsage: spend.record,
+      };
+
+      try {
+        const outcome = await generateProjectFiles(
+          [{ role: "user", content: fullPrompt }],
+          {
+            ...generateOptions,
+            onToken: (token) => {
+              if (streamTokens) {
+                send("token", { text: token });
+              }
+
+              const completed = parser.push(token);
+              if (completed.length === 0) {
+                return;
+              }
+
+              // Partial output is redacted before it is sent or saved
+              for (const file of redactPartialFiles(completed, { envValues })) {
+                streamedFiles.push(file);
+                send("file", file);
+              }
+
+              const snapshot = [...streamedFiles];
+              persist = persist.then(() =>
+                db.codeGeneration.update({
+                  where: { id: codeGenId },
+                  data: { output: snapshot },
+                })
+              );
+            },
+          }
+        );
+
+        await persist;
+
+        send("usage", outcome.result.usage);
+
+        const { files, validation, security, repair, secrets } =
+          await completeGeneration(
+            userId,
+            projectId,
+            codeGenId,
+            outcome,
+            { ...generateOptions, maxRounds: data.repairRounds },
+            envValues
+          );
+
+        // Repaired and redacted files replace the versions streamed earlier
+        const replaced = new Set([
+          ...repair.repairedPaths,
+          ...secrets.map((finding) => finding.path),
+        ]);
+        for (const file of files) {
+          if (replaced.has(file.path)) {
+            send("file", file);
+          }
+        }
+
+        send("validation", validation);
+        send("security", security);
+        send("done", {
+          generationId: codeGenId,
+          filesGenerated: files.length,
+          incompleteFiles: outcome.incompleteFiles,
+          repairRounds: repair.rounds,
+          cacheHit: outcome.result.cacheHit ?? false,
+          durationMs: outcome.result.durationMs,
+        });
+      } catch (genError) {
+        await persist.catch(() => undefined);
+
+        // The cancellation has already updated the generation and project
+        if (
+          tracker.signal.aborted ||
+          genError instanceof GenerationCancelledError
+        ) {
+          await recordCancelledSpend(codeGenId, spend).catch((error) =>
+            console.error("Error recording generation spend:", error)
+          );
+          send("cancelled", { generationId: codeGenId });
+          return;
+        }
+
+        console.error("Error streaming code generation:", genError);
+
+        await failGeneration(
+          userId,
+          projectId,
+          codeGenId,
+          genError,
+          spend
+        ).catch((error) =>
+          console.error("Error recording generation failure:", error)
+        );
+
+        send("error", {
+          generationId: codeGenId,
+          message:
+            genError instanceof Error ? genError.message : "Unknown error",
+          ...(genError instanceof SecretLeakError && {
+            findings: summarizeFindings(genError.findings),
+          }),
+        });
+      } finally {
+        tracker.stop();
+        if (!closed) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 /**
  * POST /api/generate - Generate code for a project
+ *
+ * Pass `stream: true` to receive the generation as Server-Sent Events, or
+ * `mode: "planned"` to plan the file structure first and generate files in
+ * batches. A failed planned generation is resumed with `resumeGenerationId`.
+ * Identical requests are served from the response cache unless `skipCache`
+ * is set. Without `stream` the generation runs as a background job and the
+ * generation id is returned right away with 202.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -45,106 +263,129 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Update project status
-    await db.project.update({
-      where: { id: project.id },
-      data: { status: "GENERATING" },
-    });
+    // Stop before calling the provider once the monthly budget is spent
+    const budget = await getBudgetStatus(session.user.id);
+    if (budget.exceeded) {
+      return NextResponse.json(
+        {
+          error: "Monthly generation budget exceeded",
+          budgetUsd: budget.budgetUsd,
+          spentUsd: budget.spentUsd,
+        },
+        { status: 402 }
+      );
+    }
 
-    // Create code generation record
-    const codeGen = await db.codeGeneration.create({
-      data: {
-        projectId: project.id,
-        prompt: data.prompt || project.prompt || "",
-        model: data.model || "claude-sonnet-4-20250514",
-        status: "PROCESSING",
-      },
-    });
+    const mode = data.resumeGenerationId ? "planned" : data.mode;
 
-    try {
-      // Build the prompt
-      const techStack = (project.techStack as Array<{ name: string }>).map(
-        (t) => t.name
-      );
-      const fullPrompt = createCodeGenerationPrompt(
-        `${project.name}\n\n${project.description || ""}\n\n${data.prompt || project.prompt || ""}`,
-        techStack
+    if (data.stream && mode === "planned") {
+      return NextResponse.json(
+        { error: "Streaming is not supported for planned generation" },
+        { status: 400 }
       );
+    }
 
-      // Generate code
-      const result = await generate(fullPrompt, {
-        provider: data.provider as LLMProvider,
-        model: data.model,
-        maxTokens: 8192,
-        temperature: 0.7,
+    // A failed planned generation can be resumed from its last finished batch
+    if (data.resumeGenerationId) {
+      const previous = await db.codeGeneration.findUnique({
+        where: { id: data.resumeGenerationId },
       });
 
-      // Parse the response
-      const files = parseCodeGenerationResponse(result.content);
-
-      // Update code generation record
-      await db.codeGeneration.update({
-        where: { id: codeGen.id },
-        data: {
-          output: files,
-          tokenUsage: {
-            inputTokens: result.usage.inputTokens,
-            outputTokens: result.usage.outputTokens,
-          },
-          durationMs: result.durationMs,
-          status: "COMPLETED",
-          completedAt: new Date(),
-        },
-      });
+      if (!previous || previous.projectId !== project.id) {
+        return NextResponse.json(
+          { error: "Generation not found" },
+          { status: 404 }
+        );
+      }
 
-      // Update project with generated files
-      await db.project.update({
-        where: { id: project.id },
-        data: {
-          status: "GENERATED",
-          generatedFiles: files,
-        },
-      });
+      if (previous.status !== "FAILED" || !previous.progress) {
+        return NextResponse.json(
+          { error: "Only failed planned generations can be resumed" },
+          { status: 400 }
+        );
+      }
+    }
 
-      await audit.create(session.user.id, "CodeGeneration", codeGen.id, {
-        projectId: project.id,
-        model: result.model,
-        filesGenerated: files.length,
-      });
+    // Update project status
+    await db.project.update({
+      where: { id: project.id },
+      data: { status: "GENERATING" },
+    });
 
-      return NextResponse.json({
-        success: true,
-        generationId: codeGen.id,
-        files,
-        usage: result.usage,
-        durationMs: result.durationMs,
-      });
-    } catch (genError) {
-      // Update records on failure
-      await db.codeGeneration.update({
-        where: { id: codeGen.id },
-        data: {
-          status: "FAILED",
-          errorMessage:
-            genError instanceof Error ? genError.message : "Unknown error",
-        },
-      });
+    // Build the prompt. Planned generations write their own prompts.
+    const techStack = (project.techStack as Array<{ name: string }>).map(
+      (t) => t.name
+    );
+    const projectDescription = `${project.name}\n\n${project.description || ""}\n\n${data.prompt || project.prompt || ""}`;
+    const resolved = await buildGenerationPrompt({
+      promptTemplateId: project.promptTemplateId,
+      description: projectDescription,
+      techStack,
+      existingFiles:
+        (project.generatedFiles as GeneratedFiles | null) ?? undefined,
+    });
 
-      await db.project.update({
-        where: { id: project.id },
-        data: { status: "FAILED" },
-      });
+    // Create code generation record, or reopen the one being resumed
+    const codeGen = data.resumeGenerationId
+      ? await db.codeGeneration.update({
+          where: { id: data.resumeGenerationId },
+          data: {
+            status: "PROCESSING",
+            errorMessage: null,
+            previousProjectStatus: project.status,
+          },
+        })
+      : await db.codeGeneration.create({
+          data: {
+            projectId: project.id,
+            prompt: data.prompt || project.prompt || "",
+            model: data.model || "claude-sonnet-4-20250514",
+            mode,
+            ...(mode === "single" && {
+              promptTemplateId: resolved.templateId,
+              promptTemplateVersion: resolved.templateVersion,
+            }),
+            status: "PROCESSING",
+            previousProjectStatus: project.status,
+          },
+        });
 
-      await audit.error(
-        session.user.id,
-        "CodeGeneration",
-        "GENERATE",
-        genError instanceof Error ? genError.message : "Unknown error",
-        { projectId: project.id, codeGenId: codeGen.id }
+    if (data.stream) {
+      // Environment variable values must not end up in the generated source
+      const envValues = Object.values(
+        (project.envVariables as Record<string, string> | null) ?? {}
       );
 
-      throw genError;
+      return streamGeneration(
+        session.user.id,
+        project.id,
+        codeGen.id,
+        resolved.prompt,
+        envValues,
+        data
+      );
     }
+
+    const payload: GenerateJobPayload = {
+      generationId: codeGen.id,
+      projectId: project.id,
+      userId: session.user.id,
+      mode,
+      prompt: resolved.prompt,
+      projectDescription,
+      techStack,
+      provider: data.provider as LLMProvider | undefined,
+      model: data.model,
+      skipCache: data.skipCache,
+      repairRounds: data.repairRounds,
+    };
+    // Generations are billed, so a failed one is not retried automatically
+    await enqueueJob(GENERATE_JOB, payload, { maxAttempts: 1 });
+
+    return NextResponse.json(
+      { generationId: codeGen.id, status: codeGen.status, mode },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Error generating code:", error);
     if (error instanceof z.ZodError) {
@@ -202,8 +443,18 @@ export async function GET(request: NextRequest) {
       select: {
         id: true,
         model: true,
+        provider: true,
+        mode: true,
         status: true,
         tokenUsage: true,
+        costUsd: true,
+        cacheHit: true,
+        diagnostics: true,
+        securityFindings: true,
+        repairRounds: true,
+        repairTokenUsage: true,
+        promptTemplateId: true,
+        promptTemplateVersion: true,
         durationMs: true,
         createdAt: true,
         completedAt: true,
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import {
+  diffFiles,
+  formatUnifiedDiff,
+  getRevisionFiles,
+  parseRevisionRef,
+  RevisionWithoutFilesError,
+} from "@/lib/versions";
+import { z } from "zod";
+
+const diffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).default("current"),
+  context: z.coerce.number().int().min(0).max(20).optional(),
+  format: z.enum(["json", "patch"]).default("json"),
+});
+
+/**
+ * GET /api/projects/[id]/diff?from=&to= - Compare two revisions of a project.
+ * Each side is a version number, a code generation id, or `current`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = diffQuerySchema.parse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      context: searchParams.get("context") ?? undefined,
+      format: searchParams.get("format") ?? undefined,
+    });
+
+    const fromRef = parseRevisionRef(query.from);
+    const toRef = parseRevisionRef(query.to);
+    if (!fromRef || !toRef) {
+      return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, generatedFiles: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [fromFiles, toFiles] = await Promise.all([
+      getRevisionFiles(project, fromRef),
+      getRevisionFiles(project, toRef),
+    ]);
+
+    if (!fromFiles || !toFiles) {
+      return NextResponse.json(
+        {
+          error: "Revision not found",
+          revision: fromFiles ? query.to : query.from,
+        },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffFiles(fromFiles, toFiles, { context: query.context });
+
+    if (query.format === "patch") {
+      return new NextResponse(formatUnifiedDiff(diff), {
+        headers: { "Content-Type": "text/x-diff; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json({
+      from: fromRef,
+      to: toRef,
+      ...diff,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RevisionWithoutFilesError) {
+      return NextResponse.json(
+        { error: error.message, revision: error.generationId },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error diffing project revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to diff project revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/compliance";
+import { getProjectVersion } from "@/lib/versions";
+import {
+  ARCHIVE_CONTENT_TYPES,
+  ARCHIVE_FORMATS,
+  createArchiveStream,
+} from "@/lib/export";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+import { slugify } from "@/lib/utils";
+import { z } from "zod";
+
+const exportQuerySchema = z.object({
+  format: z.enum(ARCHIVE_FORMATS).default("zip"),
+  version: z.coerce.number().int().min(1).optional(),
+  manifest: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+/**
+ * GET /api/projects/[id]/export?format=zip|tar.gz - Download the project's
+ * files, or those of a version snapshot, as an archive
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const query = exportQuerySchema.parse({
+      format: searchParams.get("format") ?? undefined,
+      version: searchParams.get("version") ?? undefined,
+      manifest: searchParams.get("manifest") ?? undefined,
+    });
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        ownerId: true,
+        name: true,
+        version: true,
+        generatedFiles: true,
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let files = project.generatedFiles as GeneratedFileOutput[] | null;
+    if (query.version !== undefined) {
+      const snapshot = await getProjectVersion(project.id, query.version);
+      if (!snapshot) {
+        return NextResponse.json(
+          { error: "Version not found" },
+          { status: 404 }
+        );
+      }
+      files = snapshot.files as GeneratedFileOutput[] | null;
+    }
+
+    if (!files || files.length === 0) {
+      return NextResponse.json(
+        { error: "Project has no generated files" },
+        { status: 400 }
+      );
+    }
+
+    const version = query.version ?? project.version;
+    const rootDir = slugify(project.name) || "project";
+    const filename = `${rootDir}-v${version}.${query.format}`;
+
+    await createAuditLog({
+      userId: session.user.id,
+      action: "EXPORT",
+      resource: "Project",
+      resourceId: project.id,
+      details: {
+        format: query.format,
+        version,
+        fileCount: files.length,
+        manifest: query.manifest,
+      },
+      category: "data_access",
+    });
+
+    const stream = createArchiveStream(files, query.format, {
+      rootDir,
+      manifest: query.manifest,
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": ARCHIVE_CONTENT_TYPES[query.format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error exporting project:", error);
+    return NextResponse.json(
+      { error: "Failed to export project" },
+      { status: 500 }
+    );
+  }
+}
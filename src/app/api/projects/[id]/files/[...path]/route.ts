@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { findFile } from "@/lib/files";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+/**
+ * GET /api/projects/[id]/files/[...path] - Get a single file with its
+ * detected language
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, path } = await params;
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, generatedFiles: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const files =
+      (project.generatedFiles as GeneratedFileOutput[] | null) ?? [];
+    const file = findFile(files, path.join("/"));
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      path: file.path,
+      language: file.language,
+      size: Buffer.byteLength(file.content, "utf8"),
+      content: file.content,
+    });
+  } catch (error) {
+    console.error("Error getting project file:", error);
+    return NextResponse.json(
+      { error: "Failed to get project file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { buildFileTree } from "@/lib/files";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+/**
+ * GET /api/projects/[id]/files - Get the project's file tree without file
+ * contents. Fetch a file with /api/projects/[id]/files/[...path].
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, version: true, generatedFiles: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const files =
+      (project.generatedFiles as GeneratedFileOutput[] | null) ?? [];
+
+    return NextResponse.json({
+      version: project.version,
+      fileCount: files.length,
+      tree: buildFileTree(files),
+    });
+  } catch (error) {
+    console.error("Error getting project file tree:", error);
+    return NextResponse.json(
+      { error: "Failed to get project file tree" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,353 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import { getBudgetStatus } from "@/lib/billing";
+import {
+  createUsageMeter,
+  GeneratedFileOutput,
+  LLMMessage,
+  LLMProvider,
+  ProviderChainError,
+} from "@/lib/ai";
+import {
+  appendRefinementTurn,
+  runRefinement,
+  PatchApplyError,
+} from "@/lib/ai/refine";
+import { recordProjectVersion } from "@/lib/versions";
+import {
+  GenerationCancelledError,
+  recordCancelledSpend,
+  spendData,
+  trackGeneration,
+} from "@/lib/generation";
+import {
+  createSecurityReport,
+  protectSecrets,
+  summarizeFindings,
+  SecretLeakError,
+} from "@/lib/analysis";
+import { z } from "zod";
+
+const refineSchema = z.object({
+  message: z.string().min(1).max(10000),
+  provider: z
+    .enum(["anthropic", "openai", "gemini", "openai-compatible", "mock"])
+    .optional(),
+  model: z.string().optional(),
+});
+
+/**
+ * GET /api/projects/[id]/refine - Get the refinement conversation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, version: true, chatHistory: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      version: project.version,
+      messages: (project.chatHistory as LLMMessage[] | null) ?? [],
+    });
+  } catch (error) {
+    console.error("Error getting refinement history:", error);
+    return NextResponse.json(
+      { error: "Failed to get refinement history" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/refine - Change generated code with a
+ * natural-language request
+ *
+ * The model answers with a patch of added, modified and deleted files,
+ * which is applied to the project as a new version.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = refineSchema.parse(body);
+
+    const project = await db.project.findUnique({
+      where: { id },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Only finished projects can be refined
+    if (
+      !project.generatedFiles ||
+      (project.status !== "GENERATED" && project.status !== "DEPLOYED")
+    ) {
+      return NextResponse.json(
+        { error: "Project must have generated code before refinement" },
+        { status: 400 }
+      );
+    }
+
+    const budget = await getBudgetStatus(session.user.id);
+    if (budget.exceeded) {
+      return NextResponse.json(
+        {
+          error: "Monthly generation budget exceeded",
+          budgetUsd: budget.budgetUsd,
+          spentUsd: budget.spentUsd,
+        },
+        { status: 402 }
+      );
+    }
+
+    const codeGen = await db.codeGeneration.create({
+      data: {
+        projectId: project.id,
+        prompt: data.message,
+        model: data.model || "claude-sonnet-4-20250514",
+        mode: "refine",
+        status: "PROCESSING",
+        previousProjectStatus: project.status,
+      },
+    });
+
+    const tracker = trackGeneration(codeGen.id);
+    const spend = createUsageMeter();
+
+    try {
+      const outcome = await runRefinement(
+        {
+          files: project.generatedFiles as GeneratedFileOutput[],
+          history: (project.chatHistory as LLMMessage[] | null) ?? [],
+          request: data.message,
+        },
+        {
+          provider: data.provider as LLMProvider,
+          model: data.model,
+          maxTokens: 8192,
+          temperature: 0.3,
+          signal: tracker.signal,
+          onUsage: spend.record,
+        }
+      );
+      const { result } = outcome;
+      const changes = outcome.patch.operations.map(({ action, path }) => ({
+        action,
+        path,
+      }));
+
+      const secrets = protectSecrets(outcome.files, {
+        envValues: Object.values(
+          (project.envVariables as Record<string, string> | null) ?? {}
+        ),
+      });
+      if (secrets.findings.length > 0) {
+        await audit.security(session.user.id, "SECRETS_DETECTED", {
+          projectId: project.id,
+          codeGenId: codeGen.id,
+          mode: secrets.mode,
+          findings: summarizeFindings(secrets.findings),
+        });
+      }
+      if (secrets.blocked) {
+        throw new SecretLeakError(secrets.findings);
+      }
+
+      const security = createSecurityReport(secrets.files);
+
+      // The stored patch and the conversation carry the redacted contents
+      // too, so secrets are not sent back to the model on later turns
+      const redacted = new Map(
+        secrets.files.map((file) => [file.path, file.content])
+      );
+      const patch = {
+        ...outcome.patch,
+        operations: outcome.patch.operations.map((operation) =>
+          operation.action === "delete"
+            ? operation
+            : { ...operation, content: redacted.get(operation.path) ?? "" }
+        ),
+      };
+
+      // A cancelled refinement keeps its status and leaves the project alone
+      const { count } = await db.codeGeneration.updateMany({
+        where: { id: codeGen.id, status: "PROCESSING" },
+        data: {
+          output: patch,
+          securityFindings: security.findings as object[],
+          model: result.model,
+          provider: result.provider,
+          attempts: result.attempts as object[] | undefined,
+          tokenUsage: {
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+          },
+          costUsd: result.costUsd,
+          durationMs: result.durationMs,
+          status: "COMPLETED",
+          completedAt: new Date(),
+        },
+      });
+      if (count === 0) {
+        throw new GenerationCancelledError(codeGen.id);
+      }
+
+      // Changed files need a fresh deployment
+      const updated = await db.project.update({
+        where: { id: project.id },
+        data: {
+          status: "GENERATED",
+          generatedFiles: secrets.files,
+          chatHistory: appendRefinementTurn(
+            (project.chatHistory as LLMMessage[] | null) ?? [],
+            data.message,
+            patch
+          ) as object[],
+          version: { increment: 1 },
+        },
+      });
+
+      await recordProjectVersion(updated, {
+        source: "refine",
+        codeGenerationId: codeGen.id,
+        createdById: session.user.id,
+      });
+
+      await audit.update(
+        session.user.id,
+        "Project",
+        project.id,
+        { version: project.version },
+        { version: updated.version, operations: changes }
+      );
+
+      return NextResponse.json({
+        success: true,
+        generationId: codeGen.id,
+        version: updated.version,
+        summary: outcome.patch.summary,
+        operations: changes,
+        files: secrets.files,
+        secretsRedacted: summarizeFindings(secrets.findings),
+        security,
+        usage: result.usage,
+        costUsd: result.costUsd,
+      });
+    } catch (refineError) {
+      // The project keeps its current files; the spend still counts
+      let failed = false;
+      if (
+        !tracker.signal.aborted &&
+        !(refineError instanceof GenerationCancelledError)
+      ) {
+        const { count } = await db.codeGeneration.updateMany({
+          where: { id: codeGen.id, status: "PROCESSING" },
+          data: {
+            ...spendData(spend),
+            status: "FAILED",
+            errorMessage:
+              refineError instanceof Error
+                ? refineError.message
+                : "Unknown error",
+            ...(refineError instanceof ProviderChainError && {
+              attempts: refineError.attempts as object[],
+            }),
+          },
+        });
+        failed = count > 0;
+      }
+
+      // The cancellation has already updated the generation and project
+      if (!failed) {
+        await recordCancelledSpend(codeGen.id, spend);
+        return NextResponse.json(
+          { error: "Refinement was cancelled", generationId: codeGen.id },
+          { status: 409 }
+        );
+      }
+
+      await audit.error(
+        session.user.id,
+        "CodeGeneration",
+        "REFINE",
+        refineError instanceof Error ? refineError.message : "Unknown error",
+        { projectId: project.id, codeGenId: codeGen.id }
+      );
+
+      if (refineError instanceof PatchApplyError) {
+        return NextResponse.json(
+          { error: "Failed to apply changes", message: refineError.message },
+          { status: 422 }
+        );
+      }
+
+      if (refineError instanceof SecretLeakError) {
+        return NextResponse.json(
+          {
+            error: "Generated files contain secrets",
+            message: refineError.message,
+            findings: summarizeFindings(refineError.findings),
+          },
+          { status: 422 }
+        );
+      }
+
+      throw refineError;
+    } finally {
+      tracker.stop();
+    }
+  } catch (error) {
+    console.error("Error refining project:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to refine project",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
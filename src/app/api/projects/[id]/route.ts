@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth/config";
 import { db } from "@/lib/db";
 import { audit } from "@/lib/compliance";
+import { recordProjectVersion } from "@/lib/versions";
 import { z } from "zod";
 
 const updateProjectSchema = z.object({
@@ -19,6 +20,8 @@ const updateProjectSchema = z.object({
     .optional(),
   prompt: z.string().max(10000).optional(),
   envVariables: z.record(z.string(), z.string()).optional(),
+  // Admins only; null returns the project to its tech stack default
+  promptTemplateId: z.string().nullable().optional(),
 });
 
 /**
@@ -49,6 +52,8 @@ export async function GET(
           select: {
             id: true,
             model: true,
+            promptTemplateId: true,
+            promptTemplateVersion: true,
             status: true,
             tokenUsage: true,
             createdAt: true,
@@ -110,6 +115,23 @@ export async function PATCH(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Only admins pick prompt templates
+    if (data.promptTemplateId !== undefined && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (data.promptTemplateId) {
+      const template = await db.promptTemplate.findUnique({
+        where: { id: data.promptTemplateId },
+      });
+      if (!template) {
+        return NextResponse.json(
+          { error: "Prompt template not found" },
+          { status: 400 }
+        );
+      }
+    }
+
     const project = await db.project.update({
       where: { id },
       data: {
@@ -118,16 +140,32 @@ export async function PATCH(
         ...(data.techStack && { techStack: data.techStack }),
         ...(data.prompt !== undefined && { prompt: data.prompt }),
         ...(data.envVariables && { envVariables: data.envVariables }),
+        ...(data.promptTemplateId !== undefined && {
+          promptTemplateId: data.promptTemplateId,
+        }),
         version: { increment: 1 },
       },
     });
 
+    await recordProjectVersion(project, {
+      source: "edit",
+      createdById: session.user.id,
+    });
+
     await audit.update(
       session.user.id,
       "Project",
       project.id,
-      { name: existing.name, description: existing.description },
-      { name: project.name, description: project.description }
+      {
+        name: existing.name,
+        description: existing.description,
+        promptTemplateId: existing.promptTemplateId,
+      },
+      {
+        name: project.name,
+        description: project.description,
+        promptTemplateId: project.promptTemplateId,
+      }
     );
 
     return NextResponse.json(project);
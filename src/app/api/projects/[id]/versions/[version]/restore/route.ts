@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/compliance";
+import { restoreProjectVersion } from "@/lib/versions";
+import { z } from "zod";
+
+const versionSchema = z.coerce.number().int().min(1);
+
+/**
+ * POST /api/projects/[id]/versions/[version]/restore - Make an older
+ * snapshot the current project state, recorded as a new version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, version } = await params;
+    const parsed = versionSchema.safeParse(version);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Running generations and deployments would overwrite the restored files
+    if (project.status === "GENERATING" || project.status === "DEPLOYING") {
+      return NextResponse.json(
+        { error: `Cannot restore while the project is ${project.status}` },
+        { status: 409 }
+      );
+    }
+
+    const restored = await restoreProjectVersion(
+      project.id,
+      parsed.data,
+      session.user.id
+    );
+    if (!restored) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    await createAuditLog({
+      userId: session.user.id,
+      action: "RESTORE",
+      resource: "Project",
+      resourceId: project.id,
+      oldValue: { version: project.version },
+      newValue: {
+        version: restored.project.version,
+        restoredFromVersion: parsed.data,
+      },
+      category: "data_access",
+    });
+
+    return NextResponse.json({
+      success: true,
+      version: restored.project.version,
+      restoredFromVersion: parsed.data,
+      project: restored.project,
+    });
+  } catch (error) {
+    console.error("Error restoring project version:", error);
+    return NextResponse.json(
+      { error: "Failed to restore project version" },
+      { status: 500 }
+    );
+  }
+}
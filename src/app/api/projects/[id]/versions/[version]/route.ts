@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { getProjectVersion } from "@/lib/versions";
+import { z } from "zod";
+
+const versionSchema = z.coerce.number().int().min(1);
+
+/**
+ * GET /api/projects/[id]/versions/[version] - Get a snapshot with its files
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, version } = await params;
+    const parsed = versionSchema.safeParse(version);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const snapshot = await getProjectVersion(project.id, parsed.data);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error("Error getting project version:", error);
+    return NextResponse.json(
+      { error: "Failed to get project version" },
+      { status: 500 }
+    );
+  }
+}
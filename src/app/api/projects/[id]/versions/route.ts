@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { listProjectVersions } from "@/lib/versions";
+
+/**
+ * GET /api/projects/[id]/versions - List the project's version snapshots
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const project = await db.project.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true, version: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check ownership
+    if (project.ownerId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await listProjectVersions(project.id);
+
+    return NextResponse.json({
+      currentVersion: project.version,
+      items: versions,
+    });
+  } catch (error) {
+    console.error("Error listing project versions:", error);
+    return NextResponse.json(
+      { error: "Failed to list project versions" },
+      { status: 500 }
+    );
+  }
+}
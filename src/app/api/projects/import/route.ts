@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import {
+  ImportError,
+  RawImportFile,
+  cloneRepository,
+  collectImportFiles,
+  createReadBudget,
+  detectTechStack,
+  getImportLimits,
+  readZipArchive,
+} from "@/lib/import";
+import { recordProjectVersion } from "@/lib/versions";
+import { z } from "zod";
+
+const projectFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  prompt: z.string().max(10000).optional(),
+});
+
+const gitImportSchema = projectFieldsSchema.extend({
+  repositoryUrl: z.string().url(),
+  branch: z.string().min(1).max(255).optional(),
+});
+
+/**
+ * POST /api/projects/import - Create a project from an existing codebase.
+ * Accepts multipart form data with a ZIP `archive`, or JSON with a
+ * `repositoryUrl` to clone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const limits = getImportLimits();
+    let fields: z.infer<typeof projectFieldsSchema>;
+    let rawFiles: RawImportFile[];
+    let source: "zip" | "git";
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData();
+      fields = projectFieldsSchema.parse({
+        name: form.get("name") ?? undefined,
+        description: form.get("description") ?? undefined,
+        prompt: form.get("prompt") ?? undefined,
+      });
+
+      const archive = form.get("archive");
+      if (!(archive instanceof File)) {
+        return NextResponse.json(
+          { error: "A ZIP file is required in the archive field" },
+          { status: 400 }
+        );
+      }
+      if (archive.size > limits.maxArchiveBytes) {
+        return NextResponse.json(
+          {
+            error: `The archive is larger than ${limits.maxArchiveBytes} bytes`,
+          },
+          { status: 413 }
+        );
+      }
+
+      rawFiles = readZipArchive(
+        Buffer.from(await archive.arrayBuffer()),
+        createReadBudget(limits)
+      );
+      source = "zip";
+    } else {
+      const data = gitImportSchema.parse(await request.json());
+      fields = data;
+      rawFiles = await cloneRepository(data.repositoryUrl, {
+        branch: data.branch,
+        limits,
+      });
+      source = "git";
+    }
+
+    const result = collectImportFiles(rawFiles, limits);
+    const techStack = detectTechStack(result.files);
+
+    const project = await db.project.create({
+      data: {
+        name: fields.name,
+        description: fields.description,
+        prompt: fields.prompt,
+        techStack,
+        generatedFiles: result.files,
+        status: "GENERATED",
+        ownerId: session.user.id,
+      },
+    });
+
+    await recordProjectVersion(project, {
+      source: "import",
+      createdById: session.user.id,
+    });
+
+    await audit.create(session.user.id, "Project", project.id, {
+      name: project.name,
+      techStack: project.techStack,
+      importSource: source,
+      fileCount: result.files.length,
+      skippedCount: result.skipped.length,
+    });
+
+    return NextResponse.json(
+      {
+        project,
+        import: {
+          source,
+          fileCount: result.files.length,
+          totalBytes: result.totalBytes,
+          skipped: result.skipped,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Error importing project:", error);
+    return NextResponse.json(
+      { error: "Failed to import project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import { z } from "zod";
+
+// Template bodies are immutable; publish a new version to change one
+const updateTemplateSchema = z.object({
+  description: z.string().max(1000).optional(),
+  techStack: z.string().min(1).max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * GET /api/prompt-templates/[id] - Get a prompt template (admins only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const template = await db.promptTemplate.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { codeGenerations: true, projects: true } },
+      },
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Prompt template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("Error getting prompt template:", error);
+    return NextResponse.json(
+      { error: "Failed to get prompt template" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/prompt-templates/[id] - Change a template's tech stack,
+ * description or active flag (admins only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = updateTemplateSchema.parse(body);
+
+    const existing = await db.promptTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Prompt template not found" },
+        { status: 404 }
+      );
+    }
+
+    const template = await db.promptTemplate.update({
+      where: { id },
+      data,
+    });
+
+    await audit.update(
+      session.user.id,
+      "PromptTemplate",
+      id,
+      {
+        techStack: existing.techStack,
+        isActive: existing.isActive,
+      },
+      {
+        techStack: template.techStack,
+        isActive: template.isActive,
+      }
+    );
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("Error updating prompt template:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to update prompt template" },
+      { status: 500 }
+    );
+  }
+}
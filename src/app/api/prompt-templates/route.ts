@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import {
+  createPromptTemplateVersion,
+  PromptTemplateConflictError,
+  PromptTemplateError,
+} from "@/lib/prompts";
+import { z } from "zod";
+
+const createTemplateSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .max(100)
+    .regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  body: z.string().min(1).max(50000),
+  description: z.string().max(1000).optional(),
+  techStack: z.string().min(1).max(100).nullable().optional(),
+});
+
+const listTemplatesSchema = z.object({
+  name: z.string().optional(),
+  activeOnly: z.enum(["true", "false"]).default("false"),
+});
+
+/**
+ * GET /api/prompt-templates - List prompt templates (admins only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = listTemplatesSchema.parse({
+      name: searchParams.get("name") ?? undefined,
+      activeOnly: searchParams.get("activeOnly") ?? undefined,
+    });
+
+    const templates = await db.promptTemplate.findMany({
+      where: {
+        ...(params.name && { name: params.name }),
+        ...(params.activeOnly === "true" && { isActive: true }),
+      },
+      orderBy: [{ name: "asc" }, { version: "desc" }],
+    });
+
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("Error listing prompt templates:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to list prompt templates" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompt-templates - Publish a new version of a template
+ * (admins only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = createTemplateSchema.parse(body);
+
+    const template = await createPromptTemplateVersion({
+      ...data,
+      createdById: session.user.id,
+    });
+
+    await audit.create(session.user.id, "PromptTemplate", template.id, {
+      name: template.name,
+      version: template.version,
+      techStack: template.techStack,
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error creating prompt template:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PromptTemplateError) {
+      return NextResponse.json(
+        { error: "Invalid prompt template", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PromptTemplateConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: "Failed to create prompt template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import {
+  getBudgetStatus,
+  getMonthStart,
+  getUsageSummary,
+} from "@/lib/billing";
+import { z } from "zod";
+
+const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  userId: z.string().optional(),
+});
+
+/**
+ * GET /api/usage - Generation spend by model and by project
+ *
+ * Defaults to the current calendar month. Admins can pass `userId` to see
+ * another user's usage.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = usageQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const userId = query.userId ?? session.user.id;
+    if (userId !== session.user.id && session.user.role === "USER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const from = query.from ?? getMonthStart();
+    const to = query.to ?? new Date();
+
+    const [summary, budget] = await Promise.all([
+      getUsageSummary(userId, from, to),
+      getBudgetStatus(userId),
+    ]);
+
+    return NextResponse.json({ ...summary, budget });
+  } catch (error) {
+    console.error("Error getting usage:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to get usage" },
+      { status: 500 }
+    );
+  }
+}
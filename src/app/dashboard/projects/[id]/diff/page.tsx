@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { DiffViewer } from "@/components/dashboard/diff-viewer";
+import type { ProjectDiff } from "@/lib/versions/diff";
+import { ArrowLeft, GitCompare } from "lucide-react";
+
+interface VersionSummary {
+  version: number;
+  source: string;
+  createdAt: string;
+}
+
+export default function ProjectDiffPage() {
+  const { id } = useParams<{ id: string }>();
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("current");
+  const [diff, setDiff] = useState<ProjectDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch(`/api/projects/${id}/versions`)
+      .then((response) => response.json())
+      .then((data: { items?: VersionSummary[] }) => {
+        const items = data.items ?? [];
+        setVersions(items);
+        // Compare the previous snapshot with the current files by default
+        if (items.length > 1) {
+          setFrom(String(items[1].version));
+        } else if (items.length === 1) {
+          setFrom(String(items[0].version));
+        }
+      })
+      .catch(() => setError("Failed to load versions"));
+  }, [id]);
+
+  const compare = useCallback(async () => {
+    if (!from) {
+      return;
+    }
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ from, to });
+      const response = await fetch(`/api/projects/${id}/diff?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load diff");
+      }
+
+      setDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load diff");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, from, to]);
+
+  useEffect(() => {
+    compare();
+  }, [compare]);
+
+  const options = [
+    { value: "current", label: "Current files" },
+    ...versions.map((version) => ({
+      value: String(version.version),
+      label: `v${version.version} (${version.source})`,
+    })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Compare Versions</h1>
+          <p className="text-muted-foreground">
+            Review what changed between two snapshots of this project
+          </p>
+        </div>
+        <Button variant="ghost" asChild>
+          <Link href={`/dashboard/projects/${id}`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Project
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+        >
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <GitCompare className="h-4 w-4 text-muted-foreground" />
+        <select
+          className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+        >
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {isLoading && (
+          <span className="text-sm text-muted-foreground">Loading...</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {diff && <DiffViewer diff={diff} />}
+    </div>
+  );
+}
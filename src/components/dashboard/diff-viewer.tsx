@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type {
+  DiffHunk,
+  FileChangeStatus,
+  ProjectDiff,
+} from "@/lib/versions/diff";
+import {
+  ChevronDown,
+  ChevronRight,
+  FileDiff as FileDiffIcon,
+} from "lucide-react";
+
+interface DiffViewerProps {
+  diff: ProjectDiff;
+}
+
+const statusConfig: Record<
+  FileChangeStatus,
+  { label: string; variant: "default" | "destructive" | "success" }
+> = {
+  added: { label: "Added", variant: "success" },
+  removed: { label: "Removed", variant: "destructive" },
+  modified: { label: "Modified", variant: "default" },
+};
+
+const lineStyles = {
+  add: "bg-green-500/10 text-green-700 dark:text-green-400",
+  remove: "bg-red-500/10 text-red-700 dark:text-red-400",
+  context: "",
+} as const;
+
+const linePrefix = { add: "+", remove: "-", context: " " } as const;
+
+export function DiffViewer({ diff }: DiffViewerProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (path: string) => {
+    const next = new Set(collapsed);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setCollapsed(next);
+  };
+
+  if (diff.files.length === 0) {
+    return (
+      <Card className="text-center py-12">
+        <CardContent>
+          <FileDiffIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">
+            No differences between these revisions
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span>{diff.stats.filesChanged} files changed</span>
+        <span className="text-green-600">+{diff.stats.additions}</span>
+        <span className="text-red-600">-{diff.stats.deletions}</span>
+        <span>
+          {diff.stats.added} added, {diff.stats.modified} modified,{" "}
+          {diff.stats.removed} removed
+        </span>
+      </div>
+
+      {diff.files.map((file) => {
+        const status = statusConfig[file.status];
+        const isCollapsed = collapsed.has(file.path);
+
+        return (
+          <Card key={file.path}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+              <CardTitle className="flex items-center gap-2 text-sm font-mono">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggle(file.path)}
+                >
+                  {isCollapsed ? (
+                    <ChevronRight className="h-4 w-4" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4" />
+                  )}
+                </Button>
+                {file.path}
+              </CardTitle>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-green-600">+{file.additions}</span>
+                <span className="text-red-600">-{file.deletions}</span>
+                <Badge variant={status.variant}>{status.label}</Badge>
+              </div>
+            </CardHeader>
+
+            {!isCollapsed && (
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full border-collapse font-mono text-xs">
+                  <tbody>
+                    {file.hunks.map((hunk) => (
+                      <HunkRows
+                        key={`${hunk.oldStart}-${hunk.newStart}`}
+                        hunk={hunk}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+function HunkRows({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <>
+      <tr className="bg-muted text-muted-foreground">
+        <td colSpan={3} className="px-3 py-1">
+          @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+        </td>
+      </tr>
+      {hunk.lines.map((line, index) => (
+        <tr key={index} className={cn(lineStyles[line.type])}>
+          <td className="w-12 select-none px-2 text-right text-muted-foreground">
+            {line.oldLine ?? ""}
+          </td>
+          <td className="w-12 select-none px-2 text-right text-muted-foreground">
+            {line.newLine ?? ""}
+          </td>
+          <td className="whitespace-pre px-3">
+            {linePrefix[line.type]}
+            {line.content}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
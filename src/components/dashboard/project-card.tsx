@@ -6,7 +6,14 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/componen
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { formatRelativeTime } from "@/lib/utils";
-import { ExternalLink, GitBranch, Rocket, Clock, Layers } from "lucide-react";
+import {
+  ExternalLink,
+  GitBranch,
+  GitCompare,
+  Rocket,
+  Clock,
+  Layers,
+} from "lucide-react";
 
 interface ProjectCardProps {
   project: {
@@ -115,6 +122,14 @@ export function ProjectCard({ project }: ProjectCardProps) {
             </a>
           </Button>
         )}
+        {project.status !== "DRAFT" && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/dashboard/projects/${project.id}/diff`}>
+              <GitCompare className="h-4 w-4 mr-1" />
+              Compare
+            </Link>
+          </Button>
+        )}
         <Button variant="ghost" size="sm" asChild className="ml-auto">
           <Link href={`/dashboard/projects/${project.id}`}>
             View Details
@@ -0,0 +1,24 @@
+/**
+ * Start the background job worker in server instances started with
+ * JOB_WORKER=true. Run it as a separate long-running process, e.g.
+ * `JOB_WORKER=true npm start`, since serverless functions stop between
+ * requests.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.JOB_WORKER !== "true") {
+    return;
+  }
+
+  const { runWorker } = await import("@/lib/jobs");
+  const { jobHandlers } = await import("@/lib/jobs/handlers");
+
+  const controller = new AbortController();
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => controller.abort());
+  }
+
+  console.log("Job worker started");
+  runWorker(jobHandlers, { signal: controller.signal })
+    .then(() => console.log("Job worker stopped"))
+    .catch((error) => console.error("Job worker crashed:", error));
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '@/lib/db';
+import {
+  getCacheKey,
+  getCacheTtlSeconds,
+  getCachedResult,
+  setCachedResult,
+  DEFAULT_CACHE_TTL_SECONDS,
+} from '../cache';
+import { generateChat, resetProviders } from '../index';
+import { setMockResponses, resetMockResponses } from '../mock';
+import { GenerateResult } from '../types';
+
+const mockDb = vi.mocked(db, true);
+
+const messages = [{ role: 'user' as const, content: 'Build a todo app' }];
+
+const result: GenerateResult = {
+  content: 'cached answer',
+  model: 'mock-1',
+  provider: 'mock',
+  usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30 },
+  finishReason: 'stop',
+  durationMs: 1200,
+  costUsd: 0.05,
+  attempts: [{ provider: 'mock', model: 'mock-1', attempt: 1, success: true, durationMs: 1200 }],
+};
+
+function cacheEntry(expiresAt: Date) {
+  return {
+    key: 'key',
+    provider: 'mock',
+    model: 'mock-1',
+    result,
+    hits: 0,
+    createdAt: new Date(),
+    expiresAt,
+  };
+}
+
+describe('Response cache', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_CACHE_TTL_SECONDS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getCacheKey', () => {
+    it('should ignore surrounding whitespace and line endings', () => {
+      expect(getCacheKey('mock', 'mock-1', [{ role: 'user', content: '  a\r\nb\n' }])).toBe(
+        getCacheKey('mock', 'mock-1', [{ role: 'user', content: 'a\nb' }])
+      );
+    });
+
+    it('should change with the provider, model and options', () => {
+      const key = getCacheKey('mock', 'mock-1', messages, { temperature: 0.7 });
+
+      expect(getCacheKey('openai', 'mock-1', messages, { temperature: 0.7 })).not.toBe(key);
+      expect(getCacheKey('mock', 'mock-2', messages, { temperature: 0.7 })).not.toBe(key);
+      expect(getCacheKey('mock', 'mock-1', messages, { temperature: 0.2 })).not.toBe(key);
+    });
+
+    it('should ignore options that do not change the response', () => {
+      expect(getCacheKey('mock', 'mock-1', messages, { signal: new AbortController().signal })).toBe(
+        getCacheKey('mock', 'mock-1', messages)
+      );
+    });
+  });
+
+  describe('getCacheTtlSeconds', () => {
+    it('should default to one day', () => {
+      expect(getCacheTtlSeconds()).toBe(DEFAULT_CACHE_TTL_SECONDS);
+    });
+
+    it('should read the TTL from the environment', () => {
+      process.env.LLM_CACHE_TTL_SECONDS = '0';
+      expect(getCacheTtlSeconds()).toBe(0);
+    });
+  });
+
+  describe('getCachedResult', () => {
+    it('should return hits with zero usage and cost', async () => {
+      mockDb.generationCache.findUnique.mockResolvedValue(cacheEntry(new Date(Date.now() + 60000)) as never);
+
+      const cached = await getCachedResult('key');
+
+      expect(cached).toMatchObject({
+        content: 'cached answer',
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        costUsd: 0,
+        attempts: [],
+        cacheHit: true,
+      });
+      expect(mockDb.generationCache.update).toHaveBeenCalledWith({
+        where: { key: 'key' },
+        data: { hits: { increment: 1 } },
+      });
+    });
+
+    it('should treat expired entries as misses', async () => {
+      mockDb.generationCache.findUnique.mockResolvedValue(cacheEntry(new Date(Date.now() - 1000)) as never);
+
+      expect(await getCachedResult('key')).toBeNull();
+    });
+
+    it('should treat database errors as misses', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockDb.generationCache.findUnique.mockRejectedValue(new Error('Connection refused'));
+
+      expect(await getCachedResult('key')).toBeNull();
+    });
+  });
+
+  describe('setCachedResult', () => {
+    it('should store the result without its attempts', async () => {
+      await setCachedResult('key', result, 60);
+
+      const args = mockDb.generationCache.upsert.mock.calls[0][0];
+      expect(args.create).toMatchObject({ key: 'key', provider: 'mock', model: 'mock-1' });
+      expect(args.create.result).toMatchObject({ content: 'cached answer', attempts: undefined });
+    });
+
+    it('should not store responses containing credentials', async () => {
+      const content = `const key = "${'AKIA' + 'IOSFODNN7REALKEY'}";`;
+
+      await setCachedResult('key', { ...result, content }, 60);
+
+      expect(mockDb.generationCache.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateChat', () => {
+    beforeEach(() => {
+      process.env.DEFAULT_LLM_PROVIDER = 'mock';
+      process.env.LLM_FALLBACK_PROVIDERS = '';
+      resetProviders();
+      resetMockResponses();
+      setMockResponses(messages, { content: 'fresh answer' });
+    });
+
+    it('should serve a cached response without calling the provider', async () => {
+      mockDb.generationCache.findUnique.mockResolvedValue(cacheEntry(new Date(Date.now() + 60000)) as never);
+
+      const response = await generateChat(messages);
+
+      expect(response.content).toBe('cached answer');
+      expect(response.cacheHit).toBe(true);
+      expect(mockDb.generationCache.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should call the provider and cache the response on a miss', async () => {
+      mockDb.generationCache.findUnique.mockResolvedValue(null);
+
+      const response = await generateChat(messages);
+
+      expect(response.content).toBe('fresh answer');
+      expect(response.cacheHit).toBeUndefined();
+      expect(mockDb.generationCache.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { key: getCacheKey('mock', 'mock-1', messages) } })
+      );
+    });
+
+    it('should key responses by the configured OpenAI-compatible model', async () => {
+      mockDb.generationCache.findUnique.mockResolvedValue(cacheEntry(new Date(Date.now() + 60000)) as never);
+
+      process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+      await generateChat(messages, { provider: 'openai-compatible' });
+      process.env.OPENAI_COMPATIBLE_MODEL = 'llama3.1';
+      await generateChat(messages, { provider: 'openai-compatible' });
+
+      const [first, second] = mockDb.generationCache.findUnique.mock.calls.map(([args]) => args.where.key);
+      expect(first).not.toBe(second);
+    });
+
+    it('should skip the cache when asked to', async () => {
+      const response = await generateChat(messages, { cache: false });
+
+      expect(response.content).toBe('fresh answer');
+      expect(mockDb.generationCache.findUnique).not.toHaveBeenCalled();
+      expect(mockDb.generationCache.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
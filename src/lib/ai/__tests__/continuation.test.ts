@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isTruncated,
+  repairJson,
+  recoverTruncatedFiles,
+  stitchContinuation,
+} from '../continuation';
+
+describe('isTruncated', () => {
+  it('should detect token limit finish reasons for every provider', () => {
+    expect(isTruncated({ finishReason: 'max_tokens' })).toBe(true);
+    expect(isTruncated({ finishReason: 'length' })).toBe(true);
+    expect(isTruncated({ finishReason: 'MAX_TOKENS' })).toBe(true);
+  });
+
+  it('should not flag normal completions', () => {
+    expect(isTruncated({ finishReason: 'end_turn' })).toBe(false);
+    expect(isTruncated({ finishReason: 'stop' })).toBe(false);
+    expect(isTruncated({ finishReason: 'STOP' })).toBe(false);
+  });
+});
+
+describe('repairJson', () => {
+  it('should close an unterminated string and open containers', () => {
+    const repaired = repairJson('{"files": [{"path": "a.ts", "content": "const x');
+    expect(JSON.parse(repaired)).toEqual({
+      files: [{ path: 'a.ts', content: 'const x' }],
+    });
+  });
+
+  it('should drop a dangling key', () => {
+    expect(JSON.parse(repairJson('{"files": [{"path": "a.ts", "conte'))).toEqual({
+      files: [{ path: 'a.ts' }],
+    });
+    expect(JSON.parse(repairJson('{"files": [{"path": "a.ts", "content":'))).toEqual({
+      files: [{ path: 'a.ts' }],
+    });
+  });
+
+  it('should drop trailing commas', () => {
+    expect(JSON.parse(repairJson('{"files": [{"path": "a", "content": "b"},'))).toEqual({
+      files: [{ path: 'a', content: 'b' }],
+    });
+  });
+
+  it('should drop a dangling escape sequence', () => {
+    expect(JSON.parse(repairJson('{"a": "line\\'))).toEqual({ a: 'line' });
+    expect(JSON.parse(repairJson('{"a": "x\\u00'))).toEqual({ a: 'x' });
+  });
+
+  it('should keep complete literals and drop partial ones', () => {
+    expect(JSON.parse(repairJson('{"a": 12, "b": true'))).toEqual({ a: 12, b: true });
+    expect(JSON.parse(repairJson('{"a": 1, "b": tr'))).toEqual({ a: 1 });
+  });
+
+  it('should ignore text before the JSON', () => {
+    expect(JSON.parse(repairJson('Here you go: {"files": ['))).toEqual({ files: [] });
+  });
+
+  it('should return an empty string when there is no JSON', () => {
+    expect(repairJson('no json here')).toBe('');
+  });
+
+  it('should leave braces inside strings alone', () => {
+    expect(JSON.parse(repairJson('{"content": "function() { return ['))).toEqual({
+      content: 'function() { return [',
+    });
+  });
+});
+
+describe('stitchContinuation', () => {
+  it('should append the continuation', () => {
+    expect(stitchContinuation('{"a": "hel', 'lo"}')).toBe('{"a": "hello"}');
+  });
+
+  it('should remove a repeated overlap', () => {
+    const previous = '{"files": [{"path": "src/index.ts", "content": "con';
+    const next = '"path": "src/index.ts", "content": "const x = 1;"}]}';
+
+    expect(stitchContinuation(previous, next)).toBe(
+      '{"files": [{"path": "src/index.ts", "content": "const x = 1;"}]}'
+    );
+  });
+
+  it('should strip code fences around the continuation', () => {
+    expect(stitchContinuation('{"a": ', '```json\n1}\n```')).toBe('{"a": 1}');
+  });
+});
+
+describe('recoverTruncatedFiles', () => {
+  it('should keep complete files and list the cut-off file', () => {
+    const text =
+      '{"files": [{"path": "package.json", "content": "{}"}, {"path": "src/index.ts", "content": "const';
+
+    expect(recoverTruncatedFiles(text)).toEqual({
+      files: [{ path: 'package.json', content: '{}' }],
+      incompleteFiles: ['src/index.ts'],
+    });
+  });
+
+  it('should not trust the last file of an already closed truncated payload', () => {
+    const text = JSON.stringify({
+      files: [
+        { path: 'a.ts', content: 'a' },
+        { path: 'b.ts', content: 'partial' },
+      ],
+    });
+
+    expect(recoverTruncatedFiles(text)).toEqual({
+      files: [{ path: 'a.ts', content: 'a' }],
+      incompleteFiles: ['b.ts'],
+    });
+  });
+
+  it('should return nothing when the files array never started', () => {
+    expect(recoverTruncatedFiles('{"fi')).toEqual({ files: [], incompleteFiles: [] });
+  });
+});
@@ -45,8 +45,11 @@ import {
   getConfiguredProviders,
   createCodeGenerationPrompt,
   parseCodeGenerationResponse,
+  getGeneratedFiles,
+  generateProjectFiles,
   resetProviders,
 } from '../index';
+import { parseStructuredFiles, parseStructuredFilesJson } from '../schema';
 
 describe('LLM Provider Factory', () => {
   const originalEnv = process.env;
@@ -280,3 +283,191 @@ That's the output!`;
     expect(files[0].content).toBe(content);
   });
 });
+
+describe('structured output parsing', () => {
+  it('should parse a pure JSON response without the regex fallback', () => {
+    const response = JSON.stringify({
+      files: [{ path: 'src/a.ts', content: 'export const x = { a: "}" };' }],
+    });
+
+    expect(parseCodeGenerationResponse(response)).toEqual([
+      { path: 'src/a.ts', content: 'export const x = { a: "}" };' },
+    ]);
+  });
+
+  it('should reject files that fail schema validation', () => {
+    const response = JSON.stringify({ files: [{ path: '', content: 'x' }] });
+
+    expect(() => parseCodeGenerationResponse(response)).toThrow(
+      'Failed to parse generated code response'
+    );
+  });
+
+  it('should strip unknown file properties', () => {
+    expect(
+      parseStructuredFiles({ files: [{ path: 'a.js', content: 'x', extra: true }] })
+    ).toEqual([{ path: 'a.js', content: 'x' }]);
+  });
+
+  it('should return undefined for invalid structured payloads', () => {
+    expect(parseStructuredFiles({ files: 'nope' })).toBeUndefined();
+    expect(parseStructuredFilesJson('{"files": [')).toBeUndefined();
+  });
+
+  it('should prefer schema-validated files on the result', () => {
+    const files = getGeneratedFiles({
+      content: 'not json',
+      files: [{ path: 'a.js', content: 'x' }],
+      model: 'test',
+      provider: 'anthropic',
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      finishReason: 'tool_use',
+      durationMs: 0,
+    });
+
+    expect(files).toEqual([{ path: 'a.js', content: 'x' }]);
+  });
+
+  it('should fall back to parsing the content when no files are attached', () => {
+    const files = getGeneratedFiles({
+      content: 'Sure! {"files": [{"path": "a.js", "content": "x"}]}',
+      model: 'test',
+      provider: 'openai',
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      finishReason: 'stop',
+      durationMs: 0,
+    });
+
+    expect(files).toEqual([{ path: 'a.js', content: 'x' }]);
+  });
+});
+
+describe('generateProjectFiles', () => {
+  const chatResult = (content: string, finishReason: string) => ({
+    content,
+    model: 'claude-test',
+    provider: 'anthropic',
+    usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+    finishReason,
+    durationMs: 100,
+  });
+
+  beforeEach(() => {
+    resetProviders();
+    vi.clearAllMocks();
+    delete process.env.DEFAULT_LLM_PROVIDER;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.GOOGLE_AI_API_KEY;
+  });
+
+  it('should return files from a complete response without continuing', async () => {
+    mockGenerateChat.mockResolvedValueOnce(
+      chatResult('{"files": [{"path": "a.js", "content": "x"}]}', 'end_turn')
+    );
+
+    const outcome = await generateProjectFiles([{ role: 'user', content: 'Build it' }]);
+
+    expect(mockGenerateChat).toHaveBeenCalledTimes(1);
+    expect(outcome.files).toEqual([{ path: 'a.js', content: 'x' }]);
+    expect(outcome.incompleteFiles).toEqual([]);
+    expect(outcome.continuations).toBe(0);
+  });
+
+  it('should continue a truncated response and stitch the output', async () => {
+    mockGenerateChat
+      .mockResolvedValueOnce(
+        chatResult('{"files": [{"path": "a.js", "content": "con', 'max_tokens')
+      )
+      .mockResolvedValueOnce(chatResult('st x = 1;"}]}', 'end_turn'));
+
+    const outcome = await generateProjectFiles([{ role: 'user', content: 'Build it' }], {
+      structuredOutput: true,
+    });
+
+    expect(mockGenerateChat).toHaveBeenCalledTimes(2);
+    const [messages, options] = mockGenerateChat.mock.calls[1];
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: '{"files": [{"path": "a.js", "content": "con',
+    });
+    expect(messages[2].role).toBe('user');
+    expect(options.structuredOutput).toBe(false);
+
+    expect(outcome.files).toEqual([{ path: 'a.js', content: 'const x = 1;' }]);
+    expect(outcome.continuations).toBe(1);
+    expect(outcome.result.usage).toEqual({ inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+  });
+
+  it('should re-request the remaining files when the truncated tool input is already closed', async () => {
+    const truncated = {
+      ...chatResult(
+        '{"files":[{"path":"a.js","content":"x"},{"path":"b.js","content":"co"}]}',
+        'max_tokens'
+      ),
+      files: [
+        { path: 'a.js', content: 'x' },
+        { path: 'b.js', content: 'co' },
+      ],
+    };
+    mockGenerateChat
+      .mockResolvedValueOnce(truncated)
+      .mockResolvedValueOnce({
+        ...chatResult('{"files":[{"path":"b.js","content":"const b = 1;"}]}', 'tool_use'),
+        files: [{ path: 'b.js', content: 'const b = 1;' }],
+      });
+
+    const outcome = await generateProjectFiles([{ role: 'user', content: 'Build it' }], {
+      structuredOutput: true,
+    });
+
+    const [messages, options] = mockGenerateChat.mock.calls[1];
+    expect(messages[2].content).toContain('- a.js');
+    expect(messages[2].content).not.toContain('- b.js');
+    expect(options.structuredOutput).toBe(true);
+    expect(outcome.files).toEqual([
+      { path: 'a.js', content: 'x' },
+      { path: 'b.js', content: 'const b = 1;' },
+    ]);
+    expect(outcome.incompleteFiles).toEqual([]);
+  });
+
+  it('should report the last file of a closed truncated payload as incomplete', async () => {
+    mockGenerateChat.mockResolvedValueOnce(
+      chatResult(
+        '{"files":[{"path":"a.js","content":"x"},{"path":"b.js","content":"co"}]}',
+        'max_tokens'
+      )
+    );
+
+    const outcome = await generateProjectFiles([{ role: 'user', content: 'Build it' }], {
+      maxContinuations: 0,
+    });
+
+    expect(outcome.files).toEqual([{ path: 'a.js', content: 'x' }]);
+    expect(outcome.incompleteFiles).toEqual(['b.js']);
+  });
+
+  it('should save recoverable files when continuations run out', async () => {
+    mockGenerateChat
+      .mockResolvedValueOnce(
+        chatResult('{"files": [{"path": "a.js", "content": "x"}, {"path": "b.js", "content": "y', 'length')
+      )
+      .mockResolvedValueOnce(chatResult('yy', 'length'));
+
+    const outcome = await generateProjectFiles([{ role: 'user', content: 'Build it' }], {
+      maxContinuations: 1,
+    });
+
+    expect(outcome.files).toEqual([{ path: 'a.js', content: 'x' }]);
+    expect(outcome.incompleteFiles).toEqual(['b.js']);
+  });
+
+  it('should fail when nothing can be recovered', async () => {
+    mockGenerateChat.mockResolvedValueOnce(chatResult('{"files": [{"pa', 'max_tokens'));
+
+    await expect(
+      generateProjectFiles([{ role: 'user', content: 'Build it' }], { maxContinuations: 0 })
+    ).rejects.toThrow('Failed to parse generated code response');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  MockProvider,
+  MockProviderError,
+  hashMockPrompt,
+  setMockResponses,
+  resetMockResponses,
+} from '../mock';
+import { generateChat, resetProviders } from '../index';
+
+describe('MockProvider', () => {
+  const originalEnv = process.env;
+  const prompt = [{ role: 'user' as const, content: 'Build a todo app' }];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.MOCK_LLM_FIXTURES;
+    delete process.env.MOCK_LLM_LATENCY_MS;
+    delete process.env.MOCK_LLM_STRICT;
+    resetMockResponses();
+    resetProviders();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should hash prompts deterministically', () => {
+    expect(hashMockPrompt(prompt)).toBe(hashMockPrompt([{ role: 'user', content: 'Build a todo app' }]));
+    expect(hashMockPrompt(prompt)).not.toBe(hashMockPrompt(prompt, 'System'));
+  });
+
+  it('should return a sample project when no fixture matches', async () => {
+    const result = await new MockProvider().generateChat(prompt, { structuredOutput: true });
+
+    expect(result.provider).toBe('mock');
+    expect(result.finishReason).toBe('stop');
+    expect(result.files?.map((file) => file.path)).toEqual(['README.md', 'src/index.js']);
+  });
+
+  it('should fail prompts without a fixture in strict mode', async () => {
+    process.env.MOCK_LLM_STRICT = 'true';
+
+    await expect(new MockProvider().generateChat(prompt)).rejects.toThrow(
+      `No mock fixture for prompt ${hashMockPrompt(prompt)}`
+    );
+  });
+
+  it('should replay scripted responses in order and repeat the last one', async () => {
+    setMockResponses(prompt, [{ content: 'first' }, { content: 'second' }]);
+    const provider = new MockProvider();
+
+    const contents = [];
+    for (let i = 0; i < 3; i++) {
+      contents.push((await provider.generateChat(prompt)).content);
+    }
+
+    expect(contents).toEqual(['first', 'second', 'second']);
+  });
+
+  it('should load recorded fixtures from a file', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'mock-llm-')), 'fixtures.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        [hashMockPrompt(prompt)]: { content: 'recorded', usage: { inputTokens: 7, outputTokens: 3 } },
+      })
+    );
+    process.env.MOCK_LLM_FIXTURES = file;
+
+    const result = await new MockProvider().generate('Build a todo app');
+
+    expect(result.content).toBe('recorded');
+    expect(result.usage).toEqual({ inputTokens: 7, outputTokens: 3, totalTokens: 10 });
+  });
+
+  it('should simulate truncation', async () => {
+    setMockResponses(prompt, { content: 'abcdefghij', truncateAt: 4 });
+
+    const result = await new MockProvider().generateChat(prompt);
+
+    expect(result.content).toBe('abcd');
+    expect(result.finishReason).toBe('max_tokens');
+  });
+
+  it('should truncate at the requested max tokens', async () => {
+    setMockResponses(prompt, { content: 'x'.repeat(100) });
+
+    const result = await new MockProvider().generateChat(prompt, { maxTokens: 5 });
+
+    expect(result.content).toHaveLength(20);
+    expect(result.finishReason).toBe('max_tokens');
+  });
+
+  it('should simulate errors with an HTTP status', async () => {
+    setMockResponses(prompt, { error: { message: 'Overloaded', status: 529 } });
+
+    const error = await new MockProvider().generateChat(prompt).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MockProviderError);
+    expect(error.status).toBe(529);
+  });
+
+  it('should simulate latency and honour abort signals', async () => {
+    setMockResponses(prompt, { content: 'slow', latencyMs: 1000 });
+    const controller = new AbortController();
+
+    const pending = new MockProvider().generateChat(prompt, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Request was aborted');
+  });
+
+  it('should stream the content in chunks', async () => {
+    setMockResponses(prompt, { content: 'y'.repeat(70) });
+    const tokens: string[] = [];
+
+    const result = await new MockProvider().generateStream(prompt, {
+      onToken: (token) => tokens.push(token),
+    });
+
+    expect(tokens.map((token) => token.length)).toEqual([32, 32, 6]);
+    expect(result.content).toBe('y'.repeat(70));
+  });
+
+  it('should be selectable as the default provider and retried like any other', async () => {
+    process.env.DEFAULT_LLM_PROVIDER = 'mock';
+    process.env.LLM_FALLBACK_PROVIDERS = '';
+    process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+    setMockResponses(prompt, [{ error: { message: 'Rate limited', status: 429 } }, { content: 'ok' }]);
+
+    const result = await generateChat(prompt);
+
+    expect(result.content).toBe('ok');
+    expect(result.attempts?.map((attempt) => attempt.success)).toEqual([false, true]);
+  });
+});
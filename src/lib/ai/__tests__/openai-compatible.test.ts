@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../openai-compatible';
+import { getConfiguredProviders } from '../index';
+
+// Minimal stand-in for an OpenAI-compatible chat completions server
+let server: Server;
+let baseUrl: string;
+let requests: Array<{ url?: string; headers: IncomingMessage['headers']; body: Record<string, unknown> }>;
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+  let raw = '';
+  req.on('data', (chunk) => (raw += chunk));
+  req.on('end', () => {
+    const body = JSON.parse(raw || '{}');
+    requests.push({ url: req.url, headers: req.headers, body });
+
+    if (body.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const chunks = [
+        { choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { content: ' world' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } },
+      ];
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify({ id: 'c1', object: 'chat.completion.chunk', model: body.model, ...chunk })}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        id: 'c1',
+        object: 'chat.completion',
+        model: body.model,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: '{"files": [{"path": "a.js", "content": "x"}]}' },
+            finish_reason: 'length',
+          },
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+      })
+    );
+  });
+}
+
+describe('OpenAICompatibleProvider', () => {
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    process.env = { ...originalEnv, OPENAI_COMPATIBLE_BASE_URL: baseUrl };
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_MODEL;
+    delete process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should not be configured without a base URL', async () => {
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    const provider = new OpenAICompatibleProvider();
+
+    expect(provider.isConfigured()).toBe(false);
+    await expect(provider.generate('Hi')).rejects.toThrow(
+      'OpenAI-compatible base URL not configured'
+    );
+  });
+
+  it('should be listed as configured when a base URL is set', () => {
+    expect(getConfiguredProviders()).toContain('openai-compatible');
+  });
+
+  it('should send chat completions to the configured server', async () => {
+    process.env.OPENAI_COMPATIBLE_MODEL = 'qwen2.5-coder';
+    process.env.OPENAI_COMPATIBLE_API_KEY = 'local-key';
+    const provider = new OpenAICompatibleProvider();
+
+    const result = await provider.generateChat([{ role: 'user', content: 'Build it' }], {
+      systemPrompt: 'Be brief',
+    });
+
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer local-key');
+    expect(requests[0].body.model).toBe('qwen2.5-coder');
+    expect(requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Build it' },
+    ]);
+    expect(result.provider).toBe('openai-compatible');
+    expect(result.model).toBe('qwen2.5-coder');
+    expect(result.finishReason).toBe('length');
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 8, totalTokens: 20 });
+  });
+
+  it('should request a JSON schema for structured output by default', async () => {
+    const provider = new OpenAICompatibleProvider();
+
+    const result = await provider.generate('Build it', { structuredOutput: true });
+
+    expect(requests[0].body.response_format).toMatchObject({ type: 'json_schema' });
+    expect(result.files).toEqual([{ path: 'a.js', content: 'x' }]);
+  });
+
+  it('should honour a simpler response format', async () => {
+    process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT = 'json_object';
+    await new OpenAICompatibleProvider().generate('Build it', { structuredOutput: true });
+
+    process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT = 'none';
+    await new OpenAICompatibleProvider().generate('Build it', { structuredOutput: true });
+
+    expect(requests[0].body.response_format).toEqual({ type: 'json_object' });
+    expect(requests[1].body).not.toHaveProperty('response_format');
+  });
+
+  it('should stream tokens from the server', async () => {
+    const provider = new OpenAICompatibleProvider();
+    const tokens: string[] = [];
+
+    const result = await provider.generateStream(
+      [{ role: 'user', content: 'Say hello' }],
+      { onToken: (token) => tokens.push(token) }
+    );
+
+    expect(tokens).toEqual(['Hello', ' world']);
+    expect(result.content).toBe('Hello world');
+    expect(result.model).toBe('llama3.1');
+    expect(result.usage.totalTokens).toBe(6);
+  });
+});
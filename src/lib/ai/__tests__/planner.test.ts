@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGenerate = vi.fn();
+const mockGenerateChat = vi.fn();
+
+vi.mock('../anthropic', () => {
+  return {
+    AnthropicProvider: class MockAnthropicProvider {
+      name = 'anthropic' as const;
+      isConfigured() { return true; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+vi.mock('../openai', () => {
+  return {
+    OpenAIProvider: class MockOpenAIProvider {
+      name = 'openai' as const;
+      isConfigured() { return false; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+vi.mock('../gemini', () => {
+  return {
+    GeminiProvider: class MockGeminiProvider {
+      name = 'gemini' as const;
+      isConfigured() { return false; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+import { resetProviders } from '../index';
+import {
+  parseProjectPlan,
+  createBatches,
+  extractInterface,
+  createBatchPrompt,
+  runPlannedGeneration,
+  PlannedGenerationProgress,
+} from '../planner';
+
+const chatResult = (content: string) => ({
+  content,
+  model: 'claude-test',
+  provider: 'anthropic',
+  usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+  finishReason: 'end_turn',
+  durationMs: 100,
+});
+
+const filesResponse = (...paths: string[]) =>
+  JSON.stringify({
+    files: paths.map((path) => ({ path, content: `export const ${path.replace(/\W/g, '_')} = 1;` })),
+  });
+
+const input = { projectDescription: 'A todo app', techStack: ['TypeScript'] };
+
+describe('parseProjectPlan', () => {
+  it('should parse a plan wrapped in prose', () => {
+    const plan = parseProjectPlan(
+      'Here is the plan:\n{"files": [{"path": "src/index.ts", "purpose": "Entry point"}]}'
+    );
+
+    expect(plan.files).toEqual([{ path: 'src/index.ts', purpose: 'Entry point', dependsOn: [] }]);
+  });
+
+  it('should reject an empty plan', () => {
+    expect(() => parseProjectPlan('{"files": []}')).toThrow('Failed to parse project plan');
+  });
+});
+
+describe('createBatches', () => {
+  it('should place dependencies before the files that use them', () => {
+    const batches = createBatches(
+      {
+        files: [
+          { path: 'app.ts', purpose: '', dependsOn: ['db.ts', 'types.ts'] },
+          { path: 'db.ts', purpose: '', dependsOn: ['types.ts'] },
+          { path: 'types.ts', purpose: '', dependsOn: [] },
+        ],
+      },
+      2
+    );
+
+    expect(batches).toEqual([['types.ts', 'db.ts'], ['app.ts']]);
+  });
+
+  it('should ignore unknown dependencies and break cycles', () => {
+    const batches = createBatches({
+      files: [
+        { path: 'a.ts', purpose: '', dependsOn: ['b.ts', 'missing.ts'] },
+        { path: 'b.ts', purpose: '', dependsOn: ['a.ts'] },
+      ],
+    });
+
+    expect(batches).toEqual([['b.ts', 'a.ts']]);
+  });
+});
+
+describe('extractInterface', () => {
+  it('should keep only exported declarations of script files', () => {
+    const summary = extractInterface({
+      path: 'src/db.ts',
+      content: 'import x from "x";\nexport function connect() {\n  return x;\n}\nconst secret = 1;',
+    });
+
+    expect(summary).toBe('export function connect() {');
+  });
+
+  it('should return nothing for files without a known interface', () => {
+    expect(extractInterface({ path: 'README.md', content: '# Title' })).toBe('');
+  });
+});
+
+describe('createBatchPrompt', () => {
+  it('should include the manifest, earlier interfaces and the target files', () => {
+    const plan = {
+      files: [
+        { path: 'types.ts', purpose: 'Shared types', dependsOn: [] },
+        { path: 'app.ts', purpose: 'Application', dependsOn: ['types.ts'] },
+      ],
+    };
+
+    const prompt = createBatchPrompt(input, plan, ['app.ts'], [
+      { path: 'types.ts', content: 'export type Todo = { id: string };' },
+    ]);
+
+    expect(prompt).toContain('- app.ts: Application (depends on types.ts)');
+    expect(prompt).toContain('export type Todo = { id: string };');
+    expect(prompt).toContain('## Files To Generate Now\n- app.ts: Application');
+  });
+});
+
+describe('runPlannedGeneration', () => {
+  beforeEach(() => {
+    resetProviders();
+    vi.clearAllMocks();
+    delete process.env.DEFAULT_LLM_PROVIDER;
+    process.env.LLM_FALLBACK_PROVIDERS = '';
+  });
+
+  it('should plan and then generate each batch', async () => {
+    mockGenerateChat
+      .mockResolvedValueOnce(
+        chatResult(
+          JSON.stringify({
+            files: [
+              { path: 'a.ts', purpose: 'A', dependsOn: [] },
+              { path: 'b.ts', purpose: 'B', dependsOn: ['a.ts'] },
+            ],
+          })
+        )
+      )
+      .mockResolvedValueOnce(chatResult(filesResponse('a.ts')))
+      .mockResolvedValueOnce(chatResult(filesResponse('b.ts')));
+
+    const onProgress = vi.fn();
+    const outcome = await runPlannedGeneration(input, { batchSize: 1, onProgress });
+
+    expect(mockGenerateChat).toHaveBeenCalledTimes(3);
+    expect(mockGenerateChat.mock.calls[0][1].structuredOutput).toBe(false);
+    expect(mockGenerateChat.mock.calls[2][0][0].content).toContain('export const a_ts = 1;');
+
+    expect(outcome.files.map((file) => file.path)).toEqual(['a.ts', 'b.ts']);
+    expect(outcome.incompleteFiles).toEqual([]);
+    expect(outcome.progress.completedBatches).toBe(2);
+    expect(outcome.result.usage).toEqual({ inputTokens: 30, outputTokens: 15, totalTokens: 45 });
+
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress.mock.calls[0][0].completedBatches).toBe(0);
+  });
+
+  it('should report planned files that a batch did not return', async () => {
+    mockGenerateChat
+      .mockResolvedValueOnce(
+        chatResult(
+          JSON.stringify({
+            files: [
+              { path: 'a.ts', purpose: 'A' },
+              { path: 'b.ts', purpose: 'B' },
+            ],
+          })
+        )
+      )
+      .mockResolvedValueOnce(chatResult(filesResponse('a.ts')));
+
+    const outcome = await runPlannedGeneration(input);
+
+    expect(outcome.files.map((file) => file.path)).toEqual(['a.ts']);
+    expect(outcome.incompleteFiles).toEqual(['b.ts']);
+  });
+
+  it('should resume from saved progress without planning again', async () => {
+    const progress: PlannedGenerationProgress = {
+      plan: {
+        files: [
+          { path: 'a.ts', purpose: 'A', dependsOn: [] },
+          { path: 'b.ts', purpose: 'B', dependsOn: [] },
+        ],
+      },
+      batches: [['a.ts'], ['b.ts']],
+      completedBatches: 1,
+      files: [{ path: 'a.ts', content: 'export const a = 1;' }],
+      incompleteFiles: [],
+    };
+    mockGenerateChat.mockResolvedValueOnce(chatResult(filesResponse('b.ts')));
+
+    const outcome = await runPlannedGeneration(input, { progress });
+
+    expect(mockGenerateChat).toHaveBeenCalledTimes(1);
+    expect(mockGenerateChat.mock.calls[0][0][0].content).toContain('export const a = 1;');
+    expect(outcome.files.map((file) => file.path)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('should keep earlier batches in the saved progress when a batch fails', async () => {
+    mockGenerateChat
+      .mockResolvedValueOnce(
+        chatResult(
+          JSON.stringify({
+            files: [
+              { path: 'a.ts', purpose: 'A' },
+              { path: 'b.ts', purpose: 'B' },
+            ],
+          })
+        )
+      )
+      .mockResolvedValueOnce(chatResult(filesResponse('a.ts')))
+      .mockRejectedValueOnce(Object.assign(new Error('Bad request'), { status: 400 }));
+
+    const saved: PlannedGenerationProgress[] = [];
+    await expect(
+      runPlannedGeneration(input, {
+        batchSize: 1,
+        onProgress: (progress) => {
+          saved.push(progress);
+        },
+      })
+    ).rejects.toThrow('Bad request');
+
+    const last = saved[saved.length - 1];
+    expect(last.completedBatches).toBe(1);
+    expect(last.files.map((file) => file.path)).toEqual(['a.ts']);
+  });
+});
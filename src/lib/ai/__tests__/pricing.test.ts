@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCost, createUsageMeter, getModelPricing, withCost } from '../pricing';
+
+describe('getModelPricing', () => {
+  it('should match dated model names by prefix', () => {
+    expect(getModelPricing('anthropic', 'claude-sonnet-4-20250514')).toEqual({ input: 3, output: 15 });
+  });
+
+  it('should prefer the longest matching prefix', () => {
+    expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPricing('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it('should fall back to the default model price for unknown models', () => {
+    expect(getModelPricing('gemini', 'gemini-experimental')).toEqual(
+      getModelPricing('gemini', 'gemini-1.5-pro')
+    );
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price input and output tokens per million', () => {
+    expect(
+      calculateCost('anthropic', 'claude-sonnet-4-20250514', {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+      })
+    ).toBe(4.5);
+  });
+
+  it('should round to a millionth of a dollar', () => {
+    expect(
+      calculateCost('gemini', 'gemini-1.5-flash', { inputTokens: 1, outputTokens: 1 })
+    ).toBe(0);
+    expect(
+      calculateCost('openai', 'gpt-4o', { inputTokens: 1234, outputTokens: 567 })
+    ).toBe(0.008755);
+  });
+});
+
+describe('withCost', () => {
+  it('should attach the cost to a result', () => {
+    const result = withCost({
+      content: '',
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage: { inputTokens: 1000, outputTokens: 1000, totalTokens: 2000 },
+      finishReason: 'stop',
+      durationMs: 10,
+    });
+
+    expect(result.costUsd).toBe(0.0125);
+  });
+});
+
+describe('createUsageMeter', () => {
+  it('should add up the usage and cost of every recorded result', () => {
+    const meter = createUsageMeter();
+    const result = withCost({
+      content: '',
+      model: 'gpt-4o',
+      provider: 'openai',
+      usage: { inputTokens: 1000, outputTokens: 1000, totalTokens: 2000 },
+      finishReason: 'stop',
+      durationMs: 10,
+    });
+
+    meter.record(result);
+    meter.record(result);
+
+    expect(meter).toMatchObject({ inputTokens: 2000, outputTokens: 2000, costUsd: 0.025 });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGenerate = vi.fn();
+const mockGenerateChat = vi.fn();
+
+vi.mock('../anthropic', () => {
+  return {
+    AnthropicProvider: class MockAnthropicProvider {
+      name = 'anthropic' as const;
+      isConfigured() { return true; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+vi.mock('../openai', () => {
+  return {
+    OpenAIProvider: class MockOpenAIProvider {
+      name = 'openai' as const;
+      isConfigured() { return false; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+vi.mock('../gemini', () => {
+  return {
+    GeminiProvider: class MockGeminiProvider {
+      name = 'gemini' as const;
+      isConfigured() { return false; }
+      generate = mockGenerate;
+      generateChat = mockGenerateChat;
+    },
+  };
+});
+
+import { resetProviders } from '../index';
+import {
+  parseFilePatch,
+  applyFilePatch,
+  runRefinement,
+  PatchApplyError,
+  MAX_HISTORY_MESSAGES,
+} from '../refine';
+import { LLMMessage } from '../types';
+
+const chatResult = (content: string) => ({
+  content,
+  model: 'claude-test',
+  provider: 'anthropic',
+  usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+  finishReason: 'end_turn',
+  durationMs: 100,
+});
+
+const files = [
+  { path: 'src/index.ts', content: 'console.log("hi");' },
+  { path: 'README.md', content: '# App' },
+];
+
+describe('parseFilePatch', () => {
+  it('should parse a patch wrapped in prose', () => {
+    const patch = parseFilePatch(
+      'Sure:\n{"summary": "Remove readme", "operations": [{"action": "delete", "path": "README.md"}]}'
+    );
+
+    expect(patch).toEqual({
+      summary: 'Remove readme',
+      operations: [{ action: 'delete', path: 'README.md' }],
+    });
+  });
+
+  it('should reject unknown actions', () => {
+    expect(() =>
+      parseFilePatch('{"operations": [{"action": "rename", "path": "a.ts"}]}')
+    ).toThrow('Failed to parse refinement patch');
+  });
+});
+
+describe('applyFilePatch', () => {
+  it('should add, modify and delete files', () => {
+    const result = applyFilePatch(files, {
+      summary: '',
+      operations: [
+        { action: 'modify', path: 'src/index.ts', content: 'console.log("bye");' },
+        { action: 'delete', path: 'README.md' },
+        { action: 'add', path: 'src/util.ts', content: 'export {};' },
+      ],
+    });
+
+    expect(result).toEqual([
+      { path: 'src/index.ts', content: 'console.log("bye");' },
+      { path: 'src/util.ts', content: 'export {};' },
+    ]);
+  });
+
+  it('should keep the mode of changed files', () => {
+    const result = applyFilePatch([{ path: 'run.sh', content: 'echo hi', mode: 0o755 }], {
+      summary: '',
+      operations: [{ action: 'modify', path: 'run.sh', content: 'echo bye' }],
+    });
+
+    expect(result).toEqual([{ path: 'run.sh', content: 'echo bye', mode: 0o755 }]);
+  });
+
+  it('should fail when modifying a missing file', () => {
+    expect(() =>
+      applyFilePatch(files, {
+        summary: '',
+        operations: [{ action: 'modify', path: 'missing.ts', content: '' }],
+      })
+    ).toThrow(PatchApplyError);
+  });
+
+  it('should fail when deleting a missing file', () => {
+    expect(() =>
+      applyFilePatch(files, {
+        summary: '',
+        operations: [{ action: 'delete', path: 'missing.ts' }],
+      })
+    ).toThrow('Cannot delete missing file missing.ts');
+  });
+
+  it('should refuse paths outside the project', () => {
+    for (const path of ['../outside.ts', 'src/../../outside.ts', '/etc/cron.d/job', 'C:\\Windows\\evil.bat']) {
+      expect(() =>
+        applyFilePatch(files, {
+          summary: '',
+          operations: [{ action: 'add', path, content: 'pwned' }],
+        })
+      ).toThrow(PatchApplyError);
+    }
+    expect(() =>
+      applyFilePatch(files, {
+        summary: '',
+        operations: [{ action: 'modify', path: '../src/index.ts', content: '' }],
+      })
+    ).toThrow("Paths may not contain '..' segments: ../src/index.ts");
+  });
+});
+
+describe('runRefinement', () => {
+  beforeEach(() => {
+    resetProviders();
+    vi.clearAllMocks();
+    delete process.env.DEFAULT_LLM_PROVIDER;
+    process.env.LLM_FALLBACK_PROVIDERS = '';
+  });
+
+  it('should send the current files and history and apply the patch', async () => {
+    const history: LLMMessage[] = [
+      { role: 'user', content: 'Add a readme' },
+      { role: 'assistant', content: '{"summary":"","operations":[]}' },
+    ];
+    mockGenerateChat.mockResolvedValueOnce(
+      chatResult(
+        '{"summary": "Say bye", "operations": [{"action": "modify", "path": "src/index.ts", "content": "bye"}]}'
+      )
+    );
+
+    const outcome = await runRefinement({ files, history, request: 'Say bye instead' });
+
+    const [messages, options] = mockGenerateChat.mock.calls[0];
+    expect(messages).toEqual([...history, { role: 'user', content: 'Say bye instead' }]);
+    expect(options.systemPrompt).toContain('console.log("hi");');
+    expect(options.structuredOutput).toBe(false);
+
+    expect(outcome.files[0]).toEqual({ path: 'src/index.ts', content: 'bye' });
+    expect(outcome.history).toHaveLength(4);
+    expect(outcome.history[3].role).toBe('assistant');
+    expect(JSON.parse(outcome.history[3].content).summary).toBe('Say bye');
+  });
+
+  it('should only send recent history to the model', async () => {
+    const history: LLMMessage[] = Array.from({ length: MAX_HISTORY_MESSAGES + 4 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `message ${i}`,
+    }));
+    mockGenerateChat.mockResolvedValueOnce(chatResult('{"operations": []}'));
+
+    const outcome = await runRefinement({ files, history, request: 'Nothing' });
+
+    const [messages] = mockGenerateChat.mock.calls[0];
+    expect(messages).toHaveLength(MAX_HISTORY_MESSAGES + 1);
+    expect(messages[0].content).toBe('message 4');
+    expect(outcome.history).toHaveLength(MAX_HISTORY_MESSAGES + 6);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { validateGeneratedFiles } from '@/lib/analysis';
+import {
+  createRepairPrompt,
+  getMaxRepairRounds,
+  repairGeneratedFiles,
+  DEFAULT_MAX_REPAIR_ROUNDS,
+} from '../repair';
+import { setMockResponses, resetMockResponses } from '../mock';
+import { resetProviders } from '../index';
+
+const brokenFiles = [
+  { path: 'package.json', content: '{"name": "app", "dependencies": {}}' },
+  { path: 'src/index.js', content: "const express = require('express');\nconst x = ;" },
+  { path: 'README.md', content: '# App' },
+];
+
+function reply(files: { path: string; content: string }[]) {
+  return { content: JSON.stringify({ files }), usage: { inputTokens: 100, outputTokens: 20 } };
+}
+
+describe('Self-repair', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DEFAULT_LLM_PROVIDER: 'mock',
+      LLM_FALLBACK_PROVIDERS: '',
+      LLM_CACHE_TTL_SECONDS: '0',
+    };
+    delete process.env.LLM_REPAIR_MAX_ROUNDS;
+    resetProviders();
+    resetMockResponses();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should read the round limit from the environment', () => {
+    expect(getMaxRepairRounds()).toBe(DEFAULT_MAX_REPAIR_ROUNDS);
+
+    process.env.LLM_REPAIR_MAX_ROUNDS = '0';
+    expect(getMaxRepairRounds()).toBe(0);
+  });
+
+  it('should send only the failing files, plus package.json for missing dependencies', () => {
+    const prompt = createRepairPrompt(brokenFiles, validateGeneratedFiles(brokenFiles));
+
+    expect(prompt).toContain('src/index.js:2:11 - error syntax: Expression expected.');
+    expect(prompt).toContain("Package 'express' is imported but not declared in package.json");
+    expect(prompt).toContain('### package.json');
+    expect(prompt).toContain('### src/index.js');
+    expect(prompt).not.toContain('### README.md');
+    expect(prompt).toContain('- README.md');
+  });
+
+  it('should merge fixed files until validation passes', async () => {
+    setMockResponses('default', [
+      reply([{ path: 'src/index.js', content: "const express = require('express');\nconst x = 1;" }]),
+      reply([{ path: 'package.json', content: '{"name": "app", "dependencies": {"express": "^4.0.0"}}' }]),
+    ]);
+
+    const outcome = await repairGeneratedFiles(brokenFiles);
+
+    expect(outcome.validation.valid).toBe(true);
+    expect(outcome.rounds).toBe(2);
+    expect(outcome.repairedPaths).toEqual(['src/index.js', 'package.json']);
+    expect(outcome.usage).toEqual({ inputTokens: 200, outputTokens: 40, totalTokens: 240 });
+    expect(outcome.files.map((file) => file.path)).toEqual(['package.json', 'src/index.js', 'README.md']);
+  });
+
+  it('should keep the mode of repaired files', async () => {
+    setMockResponses('default', reply([{ path: 'bin/start.js', content: 'const x = 1;' }]));
+
+    const outcome = await repairGeneratedFiles([{ path: 'bin/start.js', content: 'const x = ;', mode: 0o755 }]);
+
+    expect(outcome.files).toEqual([{ path: 'bin/start.js', content: 'const x = 1;', mode: 0o755 }]);
+  });
+
+  it('should stop after the maximum number of rounds', async () => {
+    setMockResponses('default', reply([{ path: 'src/index.js', content: 'const x = ;' }]));
+
+    const outcome = await repairGeneratedFiles(brokenFiles, { maxRounds: 1 });
+
+    expect(outcome.rounds).toBe(1);
+    expect(outcome.validation.valid).toBe(false);
+  });
+
+  it('should not call the model for valid files', async () => {
+    setMockResponses('default', { error: { message: 'Should not be called', status: 400 } });
+
+    const outcome = await repairGeneratedFiles([{ path: 'index.js', content: 'export {};' }]);
+
+    expect(outcome.rounds).toBe(0);
+    expect(outcome.validation.valid).toBe(true);
+  });
+
+  it('should keep the current files when a repair request fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    setMockResponses('default', { error: { message: 'Bad request', status: 400 } });
+
+    const outcome = await repairGeneratedFiles(brokenFiles);
+
+    expect(outcome.rounds).toBe(0);
+    expect(outcome.files).toEqual(brokenFiles);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  runWithRetry,
+  isRetryableError,
+  getBackoffDelay,
+  getRetryPolicy,
+  ProviderChainError,
+  DEFAULT_RETRY_POLICY,
+} from '../retry';
+import type { GenerateResult, LLMProvider, LLMProviderInterface, RetryPolicy } from '../types';
+
+const policy: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  timeoutMs: 1000,
+};
+
+function apiError(status: number, message = `HTTP ${status}`) {
+  return Object.assign(new Error(message), { status });
+}
+
+function createProvider(name: LLMProvider) {
+  return {
+    name,
+    isConfigured: () => true,
+    generate: vi.fn<LLMProviderInterface['generate']>(),
+    generateChat: vi.fn(),
+    generateStream: vi.fn(),
+  };
+}
+
+function result(provider: LLMProvider): GenerateResult {
+  return {
+    content: 'ok',
+    model: `${provider}-model`,
+    provider,
+    usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+    finishReason: 'stop',
+    durationMs: 1,
+  };
+}
+
+describe('isRetryableError', () => {
+  it('should retry rate limits and server errors', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(500))).toBe(true);
+    expect(isRetryableError(apiError(529))).toBe(true);
+    expect(isRetryableError(apiError(408))).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(apiError(404))).toBe(false);
+  });
+
+  it('should retry connection failures without a status', () => {
+    expect(isRetryableError(new Error('read ECONNRESET'))).toBe(true);
+    const connectionError = new Error('Connection error.');
+    connectionError.name = 'APIConnectionError';
+    expect(isRetryableError(connectionError)).toBe(true);
+  });
+
+  it('should not retry unknown errors', () => {
+    expect(isRetryableError(new Error('Something else'))).toBe(false);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should stay within the exponential ceiling', () => {
+    const backoff: RetryPolicy = { ...policy, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    for (let i = 0; i < 20; i++) {
+      expect(getBackoffDelay(1, backoff)).toBeLessThan(100);
+      expect(getBackoffDelay(3, backoff)).toBeLessThan(400);
+      expect(getBackoffDelay(10, backoff)).toBeLessThan(1000);
+    }
+  });
+});
+
+describe('getRetryPolicy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use defaults when nothing is configured', () => {
+    delete process.env.LLM_MAX_RETRIES;
+    delete process.env.LLM_FALLBACK_PROVIDERS;
+    expect(getRetryPolicy()).toEqual({ ...DEFAULT_RETRY_POLICY, fallbackProviders: undefined });
+  });
+
+  it('should read environment configuration', () => {
+    process.env.LLM_MAX_RETRIES = '5';
+    process.env.LLM_TIMEOUT_MS = '1000';
+    process.env.LLM_FALLBACK_PROVIDERS = 'openai, gemini';
+
+    const result = getRetryPolicy();
+
+    expect(result.maxRetries).toBe(5);
+    expect(result.timeoutMs).toBe(1000);
+    expect(result.fallbackProviders).toEqual(['openai', 'gemini']);
+  });
+
+  it('should let overrides win over the environment', () => {
+    process.env.LLM_MAX_RETRIES = '5';
+    expect(getRetryPolicy({ maxRetries: 0 }).maxRetries).toBe(0);
+  });
+
+  it('should disable fallback when LLM_FALLBACK_PROVIDERS is empty', () => {
+    process.env.LLM_FALLBACK_PROVIDERS = '';
+    expect(getRetryPolicy().fallbackProviders).toEqual([]);
+  });
+});
+
+describe('runWithRetry', () => {
+  const call = (provider: LLMProviderInterface) => provider.generate('prompt');
+
+  it('should return the first successful result with one attempt', async () => {
+    const anthropic = createProvider('anthropic');
+    anthropic.generate.mockResolvedValue(result('anthropic'));
+
+    const res = await runWithRetry([{ provider: anthropic }], call, undefined, policy);
+
+    expect(res.provider).toBe('anthropic');
+    expect(res.attempts).toHaveLength(1);
+    expect(res.attempts?.[0]).toMatchObject({ provider: 'anthropic', attempt: 1, success: true });
+  });
+
+  it('should retry retryable errors on the same provider', async () => {
+    const anthropic = createProvider('anthropic');
+    anthropic.generate
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValueOnce(result('anthropic'));
+
+    const res = await runWithRetry([{ provider: anthropic }], call, undefined, policy);
+
+    expect(anthropic.generate).toHaveBeenCalledTimes(3);
+    expect(res.attempts?.map((a) => a.success)).toEqual([false, false, true]);
+    expect(res.attempts?.[0].status).toBe(429);
+  });
+
+  it('should fail over to the next provider after retries are exhausted', async () => {
+    const anthropic = createProvider('anthropic');
+    const openai = createProvider('openai');
+    anthropic.generate.mockRejectedValue(apiError(500));
+    openai.generate.mockResolvedValue(result('openai'));
+
+    const res = await runWithRetry(
+      [{ provider: anthropic }, { provider: openai }],
+      call,
+      undefined,
+      policy
+    );
+
+    expect(anthropic.generate).toHaveBeenCalledTimes(3);
+    expect(res.provider).toBe('openai');
+    expect(res.attempts).toHaveLength(4);
+  });
+
+  it('should fail over immediately on non-retryable errors', async () => {
+    const anthropic = createProvider('anthropic');
+    const openai = createProvider('openai');
+    anthropic.generate.mockRejectedValue(apiError(401));
+    openai.generate.mockResolvedValue(result('openai'));
+
+    const res = await runWithRetry(
+      [{ provider: anthropic }, { provider: openai }],
+      call,
+      undefined,
+      policy
+    );
+
+    expect(anthropic.generate).toHaveBeenCalledTimes(1);
+    expect(res.provider).toBe('openai');
+  });
+
+  it('should only pass the requested model to the primary provider', async () => {
+    const anthropic = createProvider('anthropic');
+    const openai = createProvider('openai');
+    anthropic.generate.mockRejectedValue(apiError(400));
+    openai.generate.mockResolvedValue(result('openai'));
+
+    await runWithRetry(
+      [{ provider: anthropic, model: 'claude-custom' }, { provider: openai }],
+      (provider, options) => provider.generate('prompt', options),
+      { model: 'claude-custom', maxTokens: 10 },
+      policy
+    );
+
+    expect(anthropic.generate.mock.calls[0][1]).toMatchObject({ model: 'claude-custom', maxTokens: 10 });
+    expect(openai.generate.mock.calls[0][1]).toMatchObject({ model: undefined, maxTokens: 10 });
+  });
+
+  it('should throw ProviderChainError with the attempt history when all fail', async () => {
+    const anthropic = createProvider('anthropic');
+    anthropic.generate.mockRejectedValue(apiError(503, 'Overloaded'));
+
+    const error = await runWithRetry([{ provider: anthropic }], call, undefined, policy).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(ProviderChainError);
+    expect(error.message).toBe('Overloaded');
+    expect(error.attempts).toHaveLength(3);
+  });
+
+  it('should time out slow attempts', async () => {
+    const anthropic = createProvider('anthropic');
+    anthropic.generate.mockImplementation(
+      (_prompt, options) =>
+        new Promise((_, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    const error = await runWithRetry(
+      [{ provider: anthropic }],
+      (provider, options) => provider.generate('prompt', options),
+      undefined,
+      { ...policy, maxRetries: 1, timeoutMs: 10 }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderChainError);
+    expect(error.message).toContain('timed out after 10ms');
+    expect(error.attempts).toHaveLength(2);
+  });
+
+  it('should stop when canRetry returns false', async () => {
+    const anthropic = createProvider('anthropic');
+    anthropic.generate.mockRejectedValue(apiError(429));
+
+    await expect(
+      runWithRetry([{ provider: anthropic }], call, undefined, policy, () => false)
+    ).rejects.toBeInstanceOf(ProviderChainError);
+    expect(anthropic.generate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { FileStreamParser } from '../stream-parser';
+
+/**
+ * Feed a response to the parser in fixed-size chunks and collect the files
+ */
+function feed(response: string, chunkSize: number) {
+  const parser = new FileStreamParser();
+  const files = [];
+  for (let i = 0; i < response.length; i += chunkSize) {
+    files.push(...parser.push(response.slice(i, i + chunkSize)));
+  }
+  return files;
+}
+
+describe('FileStreamParser', () => {
+  const response = `Here is your project:
+
+${JSON.stringify({
+  files: [
+    { path: 'package.json', content: '{"name": "test"}' },
+    { path: 'src/index.ts', content: 'const s = "}{"; // \\"braces\\"' },
+  ],
+})}
+
+Done!`;
+
+  it('should emit each file once it is complete', () => {
+    const parser = new FileStreamParser();
+    const firstFileEnd = response.indexOf('},') + 1;
+
+    expect(parser.push(response.slice(0, firstFileEnd - 1))).toEqual([]);
+    expect(parser.push(response.slice(firstFileEnd - 1, firstFileEnd))).toEqual([
+      { path: 'package.json', content: '{"name": "test"}' },
+    ]);
+  });
+
+  it('should handle braces and escaped quotes inside file content', () => {
+    const files = feed(response, 1);
+
+    expect(files).toHaveLength(2);
+    expect(files[1]).toEqual({
+      path: 'src/index.ts',
+      content: 'const s = "}{"; // \\"braces\\"',
+    });
+  });
+
+  it('should produce the same files regardless of chunk size', () => {
+    expect(feed(response, 3)).toEqual(feed(response, 64));
+  });
+
+  it('should ignore text before the files array', () => {
+    const parser = new FileStreamParser();
+
+    expect(parser.push('Thinking about { the "project" }...')).toEqual([]);
+    expect(parser.push('{"files": [{"path": "a.js", "content": "x"}]}')).toEqual([
+      { path: 'a.js', content: 'x' },
+    ]);
+  });
+
+  it('should skip objects without a path and content', () => {
+    const files = feed('{"files": [{"name": "a.js"}, {"path": "b.js", "content": ""}]}', 5);
+
+    expect(files).toEqual([{ path: 'b.js', content: '' }]);
+  });
+
+  it('should stop after the files array closes', () => {
+    const files = feed('{"files": []} {"files": [{"path": "a", "content": "b"}]}', 4);
+
+    expect(files).toEqual([]);
+  });
+});
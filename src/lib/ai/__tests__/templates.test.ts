@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  renderTemplate,
+  validateTemplate,
+  formatExistingFiles,
+} from '../templates';
+
+describe('renderTemplate', () => {
+  it('should replace variables', () => {
+    expect(
+      renderTemplate('Build {{description}} using {{techStack}}.', {
+        description: 'a blog',
+        techStack: 'Next.js, Prisma',
+      })
+    ).toBe('Build a blog using Next.js, Prisma.');
+  });
+
+  it('should keep sections only for variables with a value', () => {
+    const body = 'Start\n\n{{#instructions}}Notes: {{instructions}}{{/instructions}}\n\nEnd';
+
+    expect(renderTemplate(body, { description: '', techStack: '', instructions: 'Be brief' })).toBe(
+      'Start\n\nNotes: Be brief\n\nEnd'
+    );
+    expect(renderTemplate(body, { description: '', techStack: '' })).toBe('Start\n\nEnd');
+  });
+
+  it('should not expand placeholders inside variable values', () => {
+    expect(
+      renderTemplate('{{description}}', { description: 'Use {{techStack}}\n\n\n\nliterally', techStack: 'Go' })
+    ).toBe('Use {{techStack}}\n\n\n\nliterally');
+  });
+
+  it('should render the built-in template', () => {
+    const prompt = renderTemplate(DEFAULT_PROMPT_TEMPLATE, {
+      description: 'A todo app',
+      techStack: 'React',
+    });
+
+    expect(prompt).toContain('## Project Description\nA todo app');
+    expect(prompt).not.toContain('{{');
+    expect(prompt).toMatch(/Generate the project now:$/);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('should accept known variables and sections', () => {
+    expect(validateTemplate(DEFAULT_PROMPT_TEMPLATE)).toEqual([]);
+    expect(validateTemplate('{{#existingFiles}}{{existingFiles}}{{/existingFiles}}')).toEqual([]);
+  });
+
+  it('should report unknown variables and unclosed sections', () => {
+    expect(validateTemplate('{{projectName}} {{#instructions}}')).toEqual([
+      'Unknown variable: projectName',
+      'Every {{#section}} must be closed with {{/section}}',
+    ]);
+  });
+});
+
+describe('formatExistingFiles', () => {
+  it('should include file contents', () => {
+    expect(formatExistingFiles([{ path: 'a.ts', content: 'x' }])).toBe('### a.ts\n```\nx\n```');
+  });
+
+  it('should fall back to paths for large projects', () => {
+    const files = [
+      { path: 'big.ts', content: 'x'.repeat(30000) },
+      { path: 'small.ts', content: 'y' },
+    ];
+
+    expect(formatExistingFiles(files)).toBe('- big.ts\n- small.ts');
+  });
+});
@@ -4,9 +4,15 @@ import {
   LLMMessage,
   GenerateOptions,
   GenerateResult,
+  StreamCallbacks,
   DEFAULT_MODELS,
   DEFAULT_MAX_TOKENS,
 } from "./types";
+import {
+  CODE_GENERATION_JSON_SCHEMA,
+  EMIT_FILES_TOOL_NAME,
+  parseStructuredFiles,
+} from "./schema";
 
 export class AnthropicProvider implements LLMProviderInterface {
   name = "anthropic" as const;
@@ -16,6 +22,8 @@ export class AnthropicProvider implements LLMProviderInterface {
     if (process.env.ANTHROPIC_API_KEY) {
       this.client = new Anthropic({
         apiKey: process.env.ANTHROPIC_API_KEY,
+        // Retries are handled by the retry policy in ./retry
+        maxRetries: 0,
       });
     }
   }
@@ -31,23 +39,14 @@ export class AnthropicProvider implements LLMProviderInterface {
     return this.client;
   }
 
-  async generate(
-    prompt: string,
-    options?: GenerateOptions
-  ): Promise<GenerateResult> {
-    return this.generateChat(
-      [{ role: "user", content: prompt }],
-      options
-    );
-  }
-
-  async generateChat(
+  /**
+   * Build the Messages API request body shared by streaming and
+   * non-streaming calls
+   */
+  private buildParams(
     messages: LLMMessage[],
     options?: GenerateOptions
-  ): Promise<GenerateResult> {
-    const client = this.getClient();
-    const startTime = Date.now();
-
+  ): Anthropic.MessageCreateParamsNonStreaming {
     const model = options?.model || DEFAULT_MODELS.anthropic;
     const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS.anthropic;
 
@@ -63,20 +62,49 @@ export class AnthropicProvider implements LLMProviderInterface {
     // Add system prompt from options if not in messages
     const system = options?.systemPrompt || systemMessage;
 
-    const response = await client.messages.create({
+    return {
       model,
       max_tokens: maxTokens,
       temperature: options?.temperature ?? 0.7,
       system,
       messages: chatMessages,
       stop_sequences: options?.stopSequences,
-    });
+      // Structured output: force a single tool call whose input is the files
+      ...(options?.structuredOutput && {
+        tools: [
+          {
+            name: EMIT_FILES_TOOL_NAME,
+            description: "Emit every file of the generated project",
+            input_schema: CODE_GENERATION_JSON_SCHEMA,
+          },
+        ],
+        tool_choice: { type: "tool" as const, name: EMIT_FILES_TOOL_NAME },
+      }),
+    };
+  }
+
+  private toResult(
+    response: Anthropic.Message,
+    model: string,
+    startTime: number
+  ): GenerateResult {
+    const toolUse = response.content.find(
+      (block) =>
+        block.type === "tool_use" && block.name === EMIT_FILES_TOOL_NAME
+    );
 
-    const content =
-      response.content[0].type === "text" ? response.content[0].text : "";
+    let content = "";
+    let files;
+    if (toolUse?.type === "tool_use") {
+      content = JSON.stringify(toolUse.input);
+      files = parseStructuredFiles(toolUse.input);
+    } else if (response.content[0]?.type === "text") {
+      content = response.content[0].text;
+    }
 
     return {
       content,
+      files,
       model,
       provider: "anthropic",
       usage: {
@@ -88,4 +116,59 @@ export class AnthropicProvider implements LLMProviderInterface {
       durationMs: Date.now() - startTime,
     };
   }
+
+  async generate(
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    return this.generateChat(
+      [{ role: "user", content: prompt }],
+      options
+    );
+  }
+
+  async generateChat(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const client = this.getClient();
+    const startTime = Date.now();
+    const params = this.buildParams(messages, options);
+
+    const response = await client.messages.create(params, {
+      signal: options?.signal,
+    });
+
+    return this.toResult(response, params.model, startTime);
+  }
+
+  async generateStream(
+    messages: LLMMessage[],
+    callbacks: StreamCallbacks,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const client = this.getClient();
+    const startTime = Date.now();
+    const params = this.buildParams(messages, options);
+
+    try {
+      const stream = client.messages.stream(params, {
+        signal: options?.signal,
+      });
+      stream.on("text", (text) => callbacks.onToken?.(text));
+      // Tool input arrives as raw JSON deltas in structured output mode
+      stream.on("inputJson", (partialJson) => callbacks.onToken?.(partialJson));
+
+      const response = await stream.finalMessage();
+      const result = this.toResult(response, params.model, startTime);
+
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { db } from "@/lib/db";
+import { scanForSecrets } from "@/lib/analysis";
+import {
+  LLMProvider,
+  LLMMessage,
+  GenerateOptions,
+  GenerateResult,
+} from "./types";
+
+// Default time to live for cached responses (24 hours)
+export const DEFAULT_CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Get the cache TTL from LLM_CACHE_TTL_SECONDS; 0 disables the cache
+ */
+export function getCacheTtlSeconds(): number {
+  const value = Number(process.env.LLM_CACHE_TTL_SECONDS);
+  return process.env.LLM_CACHE_TTL_SECONDS && Number.isFinite(value)
+    ? Math.max(0, value)
+    : DEFAULT_CACHE_TTL_SECONDS;
+}
+
+/**
+ * Content address of a request: provider, model, the normalized messages and
+ * every option that changes the response
+ */
+export function getCacheKey(
+  provider: LLMProvider,
+  model: string,
+  messages: LLMMessage[],
+  options?: GenerateOptions
+): string {
+  const normalized = {
+    provider,
+    model,
+    messages: messages.map(({ role, content }) => ({
+      role,
+      content: content.trim().replace(/\r\n/g, "\n"),
+    })),
+    options: {
+      maxTokens: options?.maxTokens ?? null,
+      temperature: options?.temperature ?? null,
+      systemPrompt: options?.systemPrompt?.trim() ?? null,
+      stopSequences: options?.stopSequences ?? null,
+      structuredOutput: options?.structuredOutput ?? false,
+    },
+  };
+
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/**
+ * Look up a cached response. Hits are returned with zero usage and cost,
+ * since nothing was billed for them. Cache errors count as misses.
+ */
+export async function getCachedResult(
+  key: string
+): Promise<GenerateResult | null> {
+  try {
+    const entry = await db.generationCache.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt <= new Date()) {
+      return null;
+    }
+
+    await db.generationCache.update({
+      where: { key },
+      data: { hits: { increment: 1 } },
+    });
+
+    const cached = entry.result as unknown as GenerateResult;
+    return {
+      ...cached,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      costUsd: 0,
+      durationMs: 0,
+      attempts: [],
+      cacheHit: true,
+    };
+  } catch (error) {
+    console.error("Error reading generation cache:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a response under its cache key. Responses containing credentials are
+ * not stored, since the cache holds the output before secrets are redacted.
+ * Failures are logged and ignored.
+ */
+export async function setCachedResult(
+  key: string,
+  result: GenerateResult,
+  ttlSeconds: number
+): Promise<void> {
+  const raw = [{ path: "response", content: result.content }];
+  if (scanForSecrets(raw).length > 0) {
+    return;
+  }
+
+  // Attempts describe this call only and must not be replayed
+  const stored = { ...result, attempts: undefined, cacheHit: undefined };
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  try {
+    await db.generationCache.upsert({
+      where: { key },
+      create: {
+        key,
+        provider: result.provider,
+        model: result.model,
+        result: stored as object,
+        expiresAt,
+      },
+      update: { result: stored as object, expiresAt, hits: 0 },
+    });
+  } catch (error) {
+    console.error("Error writing generation cache:", error);
+  }
+}
+
+/**
+ * Delete expired cache entries
+ */
+export async function pruneExpiredCache(): Promise<number> {
+  const { count } = await db.generationCache.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  return count;
+}
@@ -0,0 +1,211 @@
+import { GenerateResult } from "./types";
+import { FileStreamParser } from "./stream-parser";
+import { GeneratedFileOutput } from "./schema";
+
+// Finish reasons reported when the output token limit cut a response short
+const TRUNCATION_FINISH_REASONS = new Set(["max_tokens", "length", "MAX_TOKENS"]);
+
+// Shortest repeated prefix treated as the model re-sending earlier output
+const MIN_OVERLAP = 16;
+const MAX_OVERLAP = 500;
+
+export const CONTINUATION_PROMPT = `Your previous response was cut off because it reached the output token limit. Continue exactly where it stopped.
+Do not repeat any earlier output, do not restart the JSON object, and do not add commentary or code fences.`;
+
+/**
+ * Build the follow-up prompt for structured output that was cut off. The
+ * partial tool input comes back already closed, so nothing can be appended
+ * to it; the model is asked for the files it has not finished instead.
+ */
+export function createRemainingFilesPrompt(receivedPaths: string[]): string {
+  const received = receivedPaths.length
+    ? `These files were received in full and must not be sent again:
+${receivedPaths.map((path) => `- ${path}`).join("\n")}`
+    : "No file was received in full.";
+
+  return `Your previous response was cut off because it reached the output token limit, and the last file in it is incomplete.
+${received}
+
+Emit the remaining files of the project, starting with the incomplete one written out in full.`;
+}
+
+/**
+ * Check whether a result was cut off by the output token limit
+ */
+export function isTruncated(result: Pick<GenerateResult, "finishReason">): boolean {
+  return TRUNCATION_FINISH_REASONS.has(result.finishReason);
+}
+
+/**
+ * Append a continuation to previously generated text, dropping code fences
+ * and any prefix the model repeated from the end of the earlier output
+ */
+export function stitchContinuation(previous: string, next: string): string {
+  const cleaned = next.replace(/^\s*```[a-z]*\n/i, "").replace(/\n```\s*$/, "");
+
+  const maxOverlap = Math.min(MAX_OVERLAP, previous.length, cleaned.length);
+  for (let length = maxOverlap; length >= MIN_OVERLAP; length--) {
+    if (previous.endsWith(cleaned.slice(0, length))) {
+      return previous + cleaned.slice(length);
+    }
+  }
+
+  return previous + cleaned;
+}
+
+/**
+ * Check whether text is a complete JSON document, ignoring anything before
+ * its first `{` or `[`
+ */
+export function isClosedJson(text: string): boolean {
+  const start = text.search(/[{[]/);
+  if (start < 0) {
+    return false;
+  }
+  try {
+    JSON.parse(text.slice(start));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Close a truncated JSON document so that it can be parsed.
+ *
+ * Unterminated strings are closed, dangling keys, partial literals and
+ * trailing commas are dropped, and open arrays/objects are closed in order.
+ * Text before the first `{` or `[` is ignored.
+ */
+export function repairJson(text: string): string {
+  const start = text.search(/[{[]/);
+  if (start < 0) {
+    return "";
+  }
+
+  let json = text.slice(start);
+  const stack: string[] = [];
+  let expect: "key" | "colon" | "value" | "comma" = "value";
+  let inString = false;
+  let escaped = false;
+  let stringRole: "key" | "value" = "value";
+  let stringStart = -1;
+  let keyStart = -1;
+  let literalStart = -1;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        expect = stringRole === "key" ? "colon" : "comma";
+      }
+      continue;
+    }
+
+    if (literalStart >= 0 && !/[\w.+-]/.test(char)) {
+      literalStart = -1;
+      expect = "comma";
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringRole = expect === "key" ? "key" : "value";
+      stringStart = i;
+      if (stringRole === "key") {
+        keyStart = i;
+      }
+    } else if (char === "{") {
+      stack.push("}");
+      expect = "key";
+    } else if (char === "[") {
+      stack.push("]");
+      expect = "value";
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      expect = "comma";
+    } else if (char === ":") {
+      expect = "value";
+    } else if (char === ",") {
+      expect = stack[stack.length - 1] === "}" ? "key" : "value";
+    } else if (/[\w.+-]/.test(char) && literalStart < 0) {
+      literalStart = i;
+    }
+  }
+
+  if (inString) {
+    if (stringRole === "key") {
+      json = json.slice(0, stringStart);
+    } else {
+      // Drop a dangling escape sequence before closing the string
+      json = json.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "") + '"';
+      expect = "comma";
+    }
+  } else if (literalStart >= 0) {
+    const literal = json.slice(literalStart);
+    if (/^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(literal)) {
+      expect = "comma";
+    } else {
+      json = json.slice(0, literalStart);
+    }
+  }
+
+  // A key without a value cannot be kept
+  if (
+    stack[stack.length - 1] === "}" &&
+    (expect === "colon" || expect === "value") &&
+    keyStart >= 0 &&
+    !inString
+  ) {
+    json = json.slice(0, keyStart);
+  }
+
+  json = json.replace(/[\s,]+$/, "");
+
+  return json + stack.reverse().join("");
+}
+
+/**
+ * Recover what can be saved from a truncated code generation response.
+ *
+ * Files whose objects were fully received are returned as-is; the file that
+ * was being written when the output was cut off is reported by path only.
+ */
+export function recoverTruncatedFiles(text: string): {
+  files: GeneratedFileOutput[];
+  incompleteFiles: string[];
+} {
+  const files = new FileStreamParser().push(text);
+
+  let repaired: unknown;
+  try {
+    repaired = JSON.parse(repairJson(text));
+  } catch {
+    return { files, incompleteFiles: [] };
+  }
+
+  const candidates = (repaired as { files?: unknown })?.files;
+  if (!Array.isArray(candidates)) {
+    return { files, incompleteFiles: [] };
+  }
+
+  // Structured output may hand back a truncated payload that is already
+  // closed; in that case the last file cannot be trusted either
+  const alreadyClosed = isClosedJson(text);
+  const complete = alreadyClosed ? files.slice(0, -1) : files;
+  const completePaths = new Set(complete.map((file) => file.path));
+
+  const incompleteFiles = candidates
+    .map((candidate) => (candidate as { path?: unknown })?.path)
+    .filter(
+      (path): path is string =>
+        typeof path === "string" && path.length > 0 && !completePaths.has(path)
+    );
+
+  return { files: complete, incompleteFiles };
+}
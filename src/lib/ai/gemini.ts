@@ -1,12 +1,39 @@
-import { GoogleGenerativeAI, Content } from "@google/generative-ai";
+import {
+  GoogleGenerativeAI,
+  Content,
+  ChatSession,
+  ResponseSchema,
+  SchemaType,
+} from "@google/generative-ai";
 import {
   LLMProviderInterface,
   LLMMessage,
   GenerateOptions,
   GenerateResult,
+  StreamCallbacks,
   DEFAULT_MODELS,
   DEFAULT_MAX_TOKENS,
 } from "./types";
+import { parseStructuredFilesJson } from "./schema";
+
+// Gemini takes an OpenAPI subset rather than JSON Schema
+const CODE_GENERATION_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    files: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          path: { type: SchemaType.STRING },
+          content: { type: SchemaType.STRING },
+        },
+        required: ["path", "content"],
+      },
+    },
+  },
+  required: ["files"],
+};
 
 export class GeminiProvider implements LLMProviderInterface {
   name = "gemini" as const;
@@ -29,22 +56,14 @@ export class GeminiProvider implements LLMProviderInterface {
     return this.client;
   }
 
-  async generate(
-    prompt: string,
-    options?: GenerateOptions
-  ): Promise<GenerateResult> {
-    return this.generateChat(
-      [{ role: "user", content: prompt }],
-      options
-    );
-  }
-
-  async generateChat(
+  /**
+   * Start a chat session seeded with all but the last user message
+   */
+  private startChat(
     messages: LLMMessage[],
     options?: GenerateOptions
-  ): Promise<GenerateResult> {
+  ): { chat: ChatSession; model: string; prompt: string } {
     const client = this.getClient();
-    const startTime = Date.now();
 
     const model = options?.model || DEFAULT_MODELS.gemini;
     const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS.gemini;
@@ -55,6 +74,10 @@ export class GeminiProvider implements LLMProviderInterface {
         maxOutputTokens: maxTokens,
         temperature: options?.temperature ?? 0.7,
         stopSequences: options?.stopSequences,
+        ...(options?.structuredOutput && {
+          responseMimeType: "application/json",
+          responseSchema: CODE_GENERATION_RESPONSE_SCHEMA,
+        }),
       },
     });
 
@@ -89,10 +112,17 @@ export class GeminiProvider implements LLMProviderInterface {
       systemInstruction,
     });
 
-    const result = await chat.sendMessage(lastUserMessage.content);
-    const response = result.response;
-    const content = response.text();
+    return { chat, model, prompt: lastUserMessage.content };
+  }
 
+  private toResult(
+    messages: LLMMessage[],
+    content: string,
+    model: string,
+    finishReason: string | undefined,
+    startTime: number,
+    options?: GenerateOptions
+  ): GenerateResult {
     // Gemini doesn't provide detailed token counts in all cases
     const inputTokens = messages.reduce(
       (acc, m) => acc + Math.ceil(m.content.length / 4),
@@ -102,6 +132,9 @@ export class GeminiProvider implements LLMProviderInterface {
 
     return {
       content,
+      files: options?.structuredOutput
+        ? parseStructuredFilesJson(content)
+        : undefined,
       model,
       provider: "gemini",
       usage: {
@@ -109,8 +142,82 @@ export class GeminiProvider implements LLMProviderInterface {
         outputTokens,
         totalTokens: inputTokens + outputTokens,
       },
-      finishReason: response.candidates?.[0]?.finishReason || "STOP",
+      finishReason: finishReason || "STOP",
       durationMs: Date.now() - startTime,
     };
   }
+
+  async generate(
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    return this.generateChat(
+      [{ role: "user", content: prompt }],
+      options
+    );
+  }
+
+  async generateChat(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const startTime = Date.now();
+    const { chat, model, prompt } = this.startChat(messages, options);
+
+    const result = await chat.sendMessage(prompt, {
+      signal: options?.signal,
+    });
+    const response = result.response;
+
+    return this.toResult(
+      messages,
+      response.text(),
+      model,
+      response.candidates?.[0]?.finishReason,
+      startTime,
+      options
+    );
+  }
+
+  async generateStream(
+    messages: LLMMessage[],
+    callbacks: StreamCallbacks,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const startTime = Date.now();
+
+    try {
+      const { chat, model, prompt } = this.startChat(messages, options);
+      const { stream, response } = await chat.sendMessageStream(prompt, {
+        signal: options?.signal,
+      });
+
+      let content = "";
+      for await (const chunk of stream) {
+        const token = chunk.text();
+        if (token) {
+          content += token;
+          callbacks.onToken?.(token);
+        }
+      }
+
+      const finalResponse = await response;
+      const result = this.toResult(
+        messages,
+        content,
+        model,
+        finalResponse.candidates?.[0]?.finishReason,
+        startTime,
+        options
+      );
+
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
 }
@@ -1,20 +1,91 @@
 import { AnthropicProvider } from "./anthropic";
 import { OpenAIProvider } from "./openai";
 import { GeminiProvider } from "./gemini";
+import {
+  OpenAICompatibleProvider,
+  getCompatibleModel,
+} from "./openai-compatible";
+import { MockProvider } from "./mock";
 import {
   LLMProvider,
   LLMProviderInterface,
-  GenerateOptions,
+  CodeGenerationOptions,
+  CodeGenerationOutcome,
+  GenerateRequestOptions,
   GenerateResult,
   LLMMessage,
+  RetryPolicy,
+  StreamCallbacks,
+  DEFAULT_MODELS,
 } from "./types";
+import { getRetryPolicy, runWithRetry, ProviderTarget } from "./retry";
+import { withCost } from "./pricing";
+import {
+  getCacheKey,
+  getCacheTtlSeconds,
+  getCachedResult,
+  setCachedResult,
+} from "./cache";
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplate } from "./templates";
+import {
+  codeGenerationSchema,
+  parseStructuredFilesJson,
+  GeneratedFileOutput,
+} from "./schema";
+import {
+  CONTINUATION_PROMPT,
+  createRemainingFilesPrompt,
+  isClosedJson,
+  isTruncated,
+  recoverTruncatedFiles,
+  stitchContinuation,
+} from "./continuation";
 
 export * from "./types";
+export { FileStreamParser } from "./stream-parser";
+export {
+  generatedFileSchema,
+  codeGenerationSchema,
+  type GeneratedFileOutput,
+} from "./schema";
+export {
+  ProviderChainError,
+  DEFAULT_RETRY_POLICY,
+  getRetryPolicy,
+  isRetryableError,
+} from "./retry";
+export { isTruncated, repairJson, recoverTruncatedFiles } from "./continuation";
+export {
+  calculateCost,
+  getModelPricing,
+  createUsageMeter,
+  type UsageMeter,
+} from "./pricing";
+export { getCacheKey, pruneExpiredCache } from "./cache";
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  TEMPLATE_VARIABLES,
+  renderTemplate,
+  validateTemplate,
+  formatExistingFiles,
+  type PromptTemplateVariables,
+} from "./templates";
+export {
+  MockProviderError,
+  hashMockPrompt,
+  setMockResponses,
+  resetMockResponses,
+  type MockFixture,
+} from "./mock";
+
+const DEFAULT_MAX_CONTINUATIONS = 3;
 
 // Provider instances (singletons)
 let anthropicProvider: AnthropicProvider | null = null;
 let openaiProvider: OpenAIProvider | null = null;
 let geminiProvider: GeminiProvider | null = null;
+let openaiCompatibleProvider: OpenAICompatibleProvider | null = null;
+let mockProvider: MockProvider | null = null;
 
 /**
  * Reset all provider instances (for testing)
@@ -23,6 +94,8 @@ export function resetProviders(): void {
   anthropicProvider = null;
   openaiProvider = null;
   geminiProvider = null;
+  openaiCompatibleProvider = null;
+  mockProvider = null;
 }
 
 /**
@@ -48,6 +121,18 @@ export function getLLMProvider(provider: LLMProvider): LLMProviderInterface {
       }
       return geminiProvider;
 
+    case "openai-compatible":
+      if (!openaiCompatibleProvider) {
+        openaiCompatibleProvider = new OpenAICompatibleProvider();
+      }
+      return openaiCompatibleProvider;
+
+    case "mock":
+      if (!mockProvider) {
+        mockProvider = new MockProvider();
+      }
+      return mockProvider;
+
     default:
       throw new Error(`Unknown LLM provider: ${provider}`);
   }
@@ -77,26 +162,115 @@ export function getConfiguredProviders(): LLMProvider[] {
   if (process.env.GOOGLE_AI_API_KEY) {
     providers.push("gemini");
   }
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    providers.push("openai-compatible");
+  }
+  // The mock provider is only offered when explicitly selected
+  if (process.env.DEFAULT_LLM_PROVIDER === "mock") {
+    providers.push("mock");
+  }
 
   return providers;
 }
 
 /**
- * Generate content using the specified or default provider
+ * Resolve the ordered list of providers to try: the requested (or default)
+ * provider first, then every other configured fallback provider
  */
-export async function generate(
-  prompt: string,
-  options?: GenerateOptions & { provider?: LLMProvider }
-): Promise<GenerateResult> {
-  const provider = options?.provider
+function resolveProviderChain(
+  policy: RetryPolicy,
+  options?: GenerateRequestOptions
+): ProviderTarget[] {
+  const primary = options?.provider
     ? getLLMProvider(options.provider)
     : getDefaultProvider();
 
-  if (!provider.isConfigured()) {
-    throw new Error(`Provider ${provider.name} is not configured`);
+  if (!primary.isConfigured()) {
+    throw new Error(`Provider ${primary.name} is not configured`);
+  }
+
+  const fallbacks = (policy.fallbackProviders ?? getConfiguredProviders())
+    .filter((name) => name !== primary.name)
+    .map((name) => getLLMProvider(name))
+    .filter((provider) => provider.isConfigured());
+
+  return [
+    { provider: primary, model: options?.model },
+    ...fallbacks.map((provider) => ({ provider })),
+  ];
+}
+
+// The model a provider runs when the request does not name one
+function getDefaultModel(provider: LLMProvider): string {
+  return provider === "openai-compatible"
+    ? getCompatibleModel()
+    : DEFAULT_MODELS[provider];
+}
+
+/**
+ * Serve a request from the response cache, or run it and cache the result.
+ * The cache key uses the requested (or default) provider and the model it
+ * will actually run.
+ */
+async function withCache(
+  messages: LLMMessage[],
+  options: GenerateRequestOptions | undefined,
+  run: () => Promise<GenerateResult>
+): Promise<GenerateResult> {
+  const ttlSeconds = getCacheTtlSeconds();
+  if (options?.cache === false || ttlSeconds === 0) {
+    return run();
+  }
+
+  const provider = options?.provider ?? getDefaultProvider().name;
+  const key = getCacheKey(
+    provider,
+    options?.model || getDefaultModel(provider),
+    messages,
+    options
+  );
+
+  const cached = await getCachedResult(key);
+  if (cached) {
+    return cached;
   }
 
-  return provider.generate(prompt, options);
+  const result = await run();
+  await setCachedResult(key, result, ttlSeconds);
+  return result;
+}
+
+/**
+ * Attach the cost to a result fresh from a provider and report it to the
+ * caller's `onUsage`
+ */
+function billed(
+  result: GenerateResult,
+  options?: GenerateRequestOptions
+): GenerateResult {
+  const costed = withCost(result);
+  options?.onUsage?.(costed);
+  return costed;
+}
+
+/**
+ * Generate content using the specified or default provider
+ */
+export async function generate(
+  prompt: string,
+  options?: GenerateRequestOptions
+): Promise<GenerateResult> {
+  const policy = getRetryPolicy(options?.retry);
+
+  return withCache([{ role: "user", content: prompt }], options, async () => {
+    const result = await runWithRetry(
+      resolveProviderChain(policy, options),
+      (provider, attemptOptions) => provider.generate(prompt, attemptOptions),
+      options,
+      policy
+    );
+    return billed(result, options);
+  });
 }
 
 /**
@@ -104,17 +278,70 @@ export async function generate(
  */
 export async function generateChat(
   messages: LLMMessage[],
-  options?: GenerateOptions & { provider?: LLMProvider }
+  options?: GenerateRequestOptions
 ): Promise<GenerateResult> {
-  const provider = options?.provider
-    ? getLLMProvider(options.provider)
-    : getDefaultProvider();
+  const policy = getRetryPolicy(options?.retry);
 
-  if (!provider.isConfigured()) {
-    throw new Error(`Provider ${provider.name} is not configured`);
-  }
+  return withCache(messages, options, async () => {
+    const result = await runWithRetry(
+      resolveProviderChain(policy, options),
+      (provider, attemptOptions) =>
+        provider.generateChat(messages, attemptOptions),
+      options,
+      policy
+    );
+    return billed(result, options);
+  });
+}
 
-  return provider.generateChat(messages, options);
+/**
+ * Stream a chat completion using the specified or default provider.
+ *
+ * Failed attempts are only retried (or failed over) while no tokens have
+ * been emitted, so callers never see output from two different attempts.
+ * A cached response is emitted as a single token.
+ */
+export async function generateStream(
+  messages: LLMMessage[],
+  callbacks: StreamCallbacks,
+  options?: GenerateRequestOptions
+): Promise<GenerateResult> {
+  const policy = getRetryPolicy(options?.retry);
+  let emitted = false;
+
+  try {
+    const result = await withCache(messages, options, () =>
+      runWithRetry(
+        resolveProviderChain(policy, options),
+        (provider, attemptOptions) =>
+          provider.generateStream(
+            messages,
+            {
+              onToken: (token) => {
+                emitted = true;
+                callbacks.onToken?.(token);
+              },
+            },
+            attemptOptions
+          ),
+        options,
+        policy,
+        () => !emitted
+      ).then((result) => billed(result, options))
+    );
+
+    if (result.cacheHit) {
+      callbacks.onToken?.(result.content);
+    }
+
+    callbacks.onComplete?.(result);
+    return result;
+  } catch (error) {
+    callbacks.onError?.(
+      error instanceof Error ? error : new Error(String(error))
+    );
+    throw error;
+  }
 }
 
 /**
@@ -125,38 +352,11 @@ export function createCodeGenerationPrompt(
   techStack: string[],
   additionalInstructions?: string
 ): string {
-  return `You are an expert software architect and developer. Generate a complete, production-ready project based on the following requirements.
-
-## Project Description
-${projectDescription}
-
-## Technology Stack
-${techStack.join(", ")}
-
-## Requirements
-1. Generate all necessary files with complete, working code
-2. Include proper error handling and input validation
-3. Follow best practices for the chosen technologies
-4. Include necessary configuration files (package.json, tsconfig.json, etc.)
-5. Add appropriate comments and documentation
-6. Ensure the code is secure and follows OWASP guidelines
-
-${additionalInstructions ? `## Additional Instructions\n${additionalInstructions}` : ""}
-
-## Output Format
-Respond with a JSON object containing a "files" array. Each file should have:
-- "path": The relative file path (e.g., "src/index.ts")
-- "content": The complete file content as a string
-
-Example:
-{
-  "files": [
-    { "path": "package.json", "content": "{...}" },
-    { "path": "src/index.ts", "content": "..." }
-  ]
-}
-
-Generate the project now:`;
+  return renderTemplate(DEFAULT_PROMPT_TEMPLATE, {
+    description: projectDescription,
+    techStack: techStack.join(", "),
+    instructions: additionalInstructions,
+  });
 }
 
 /**
@@ -164,25 +364,160 @@ Generate the project now:`;
  */
 export function parseCodeGenerationResponse(
   response: string
-): { path: string; content: string }[] {
+): GeneratedFileOutput[] {
+  // Structured output returns the payload as the whole response
+  const structured = parseStructuredFilesJson(response.trim());
+  if (structured) {
+    return structured;
+  }
+
+  // Last resort: scrape the JSON object out of free-form text
   try {
-    // Try to extract JSON from the response
     const jsonMatch = response.match(/\{[\s\S]*"files"[\s\S]*\}/);
     if (!jsonMatch) {
       throw new Error("No valid JSON found in response");
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (!Array.isArray(parsed.files)) {
-      throw new Error("Response does not contain files array");
-    }
-
-    return parsed.files.map((file: { path: string; content: string }) => ({
-      path: file.path,
-      content: file.content,
-    }));
+    return codeGenerationSchema.parse(JSON.parse(jsonMatch[0])).files;
   } catch (error) {
     console.error("Failed to parse code generation response:", error);
     throw new Error("Failed to parse generated code response");
   }
 }
+
+/**
+ * Get the files from a generation result, preferring the schema-validated
+ * structured output over parsing the raw text
+ */
+export function getGeneratedFiles(
+  result: GenerateResult
+): GeneratedFileOutput[] {
+  return result.files ?? parseCodeGenerationResponse(result.content);
+}
+
+/**
+ * Generate project files, continuing the response when it is cut off by the
+ * output token limit.
+ *
+ * Each continuation resends the conversation with the partial output as an
+ * assistant message. Text output is continued in place; structured output
+ * that the SDK has already closed cannot be, so the complete files are kept
+ * and the model is asked for the remaining ones. If the final output still
+ * cannot be parsed, every fully received file is kept and the cut-off ones
+ * are reported in `incompleteFiles`.
+ */
+export async function generateProjectFiles(
+  messages: LLMMessage[],
+  options?: CodeGenerationOptions
+): Promise<CodeGenerationOutcome> {
+  const maxContinuations =
+    options?.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+
+  const run = (chat: LLMMessage[], runOptions?: GenerateRequestOptions) =>
+    options?.onToken
+      ? generateStream(chat, { onToken: options.onToken }, runOptions)
+      : generateChat(chat, runOptions);
+
+  let result = await run(messages, options);
+  let content = result.content;
+  const usage = { ...result.usage };
+  let durationMs = result.durationMs;
+  let costUsd = result.costUsd ?? 0;
+  let cacheHit = result.cacheHit ?? false;
+  const attempts = [...(result.attempts ?? [])];
+  let continuations = 0;
+  // Files received in full before a structured response was re-requested
+  const received = new Map<string, GeneratedFileOutput>();
+  let stitched = false;
+
+  while (isTruncated(result) && continuations < maxContinuations) {
+    continuations++;
+
+    if (!stitched && isClosedJson(content)) {
+      for (const file of recoverTruncatedFiles(content).files) {
+        received.set(file.path, file);
+      }
+      result = await run(
+        [
+          ...messages,
+          { role: "assistant", content },
+          {
+            role: "user",
+            content: createRemainingFilesPrompt([...received.keys()]),
+          },
+        ],
+        options
+      );
+      content = result.content;
+    } else {
+      // Continuations are plain text appended to the partial JSON
+      result = await run(
+        [
+          ...messages,
+          { role: "assistant", content },
+          { role: "user", content: CONTINUATION_PROMPT },
+        ],
+        { ...options, structuredOutput: false }
+      );
+      content = stitchContinuation(content, result.content);
+      stitched = true;
+    }
+
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    usage.totalTokens += result.usage.totalTokens;
+    durationMs += result.durationMs;
+    costUsd += result.costUsd ?? 0;
+    cacheHit = cacheHit && (result.cacheHit ?? false);
+    attempts.push(...(result.attempts ?? []));
+  }
+
+  const combined: GenerateResult = {
+    ...result,
+    content,
+    files: stitched ? undefined : result.files,
+    usage,
+    durationMs,
+    costUsd,
+    attempts,
+    cacheHit,
+  };
+
+  const withReceived = (files: GeneratedFileOutput[]) => {
+    const merged = new Map(received);
+    for (const file of files) {
+      merged.set(file.path, file);
+    }
+    return [...merged.values()];
+  };
+
+  if (!isTruncated(combined)) {
+    try {
+      return {
+        files: withReceived(getGeneratedFiles(combined)),
+        incompleteFiles: [],
+        continuations,
+        result: combined,
+      };
+    } catch (error) {
+      if (continuations === 0) {
+        throw error;
+      }
+    }
+  }
+
+  const recovered = recoverTruncatedFiles(content);
+  const files = withReceived(recovered.files);
+  if (files.length === 0) {
+    throw new Error("Failed to parse generated code response");
+  }
+
+  return {
+    files,
+    incompleteFiles: recovered.incompleteFiles.filter(
+      (path) => !received.has(path)
+    ),
+    continuations,
+    result: combined,
+  };
+}
@@ -0,0 +1,328 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import {
+  LLMProvider,
+  LLMProviderInterface,
+  LLMMessage,
+  GenerateOptions,
+  GenerateResult,
+  StreamCallbacks,
+  DEFAULT_MODELS,
+} from "./types";
+import { parseStructuredFilesJson } from "./schema";
+
+/**
+ * A recorded or scripted response
+ */
+export interface MockFixture {
+  content?: string;
+  finishReason?: string;
+  // Simulated response time; defaults to MOCK_LLM_LATENCY_MS
+  latencyMs?: number;
+  // Cut the content after this many characters and report max_tokens
+  truncateAt?: number;
+  // Fail instead of answering; a status makes the error look like an HTTP one
+  error?: { message: string; status?: number };
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+// Fixtures keyed by prompt hash. A list is replayed in order, and the last
+// entry keeps answering once the list is used up.
+type FixtureSet = Record<string, MockFixture | MockFixture[]>;
+
+const DEFAULT_FIXTURE_KEY = "default";
+
+// Streaming splits the content into chunks of this many characters
+const STREAM_CHUNK_SIZE = 32;
+
+const scriptedFixtures = new Map<string, MockFixture[]>();
+const callCounts = new Map<string, number>();
+let fileFixtures: { path: string; fixtures: FixtureSet } | null = null;
+
+/**
+ * Error thrown by a fixture, shaped like a provider SDK error
+ */
+export class MockProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "MockProviderError";
+  }
+}
+
+/**
+ * Hash identifying a prompt: the system prompt and every message, in order
+ */
+export function hashMockPrompt(
+  messages: LLMMessage[],
+  systemPrompt?: string
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        system: systemPrompt ?? null,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Script responses for a prompt (or its hash), or for every prompt without
+ * a fixture by using the key "default"
+ */
+export function setMockResponses(
+  prompt: string | LLMMessage[],
+  fixtures: MockFixture | MockFixture[]
+): void {
+  const key = typeof prompt === "string" ? prompt : hashMockPrompt(prompt);
+  scriptedFixtures.set(key, Array.isArray(fixtures) ? fixtures : [fixtures]);
+  callCounts.delete(key);
+}
+
+/**
+ * Clear scripted responses and replay positions (for testing)
+ */
+export function resetMockResponses(): void {
+  scriptedFixtures.clear();
+  callCounts.clear();
+  fileFixtures = null;
+}
+
+/**
+ * Load recorded fixtures from the JSON file named by MOCK_LLM_FIXTURES
+ */
+function loadFileFixtures(): FixtureSet {
+  const path = process.env.MOCK_LLM_FIXTURES;
+  if (!path) {
+    return {};
+  }
+  if (fileFixtures?.path !== path) {
+    fileFixtures = {
+      path,
+      fixtures: JSON.parse(readFileSync(path, "utf8")) as FixtureSet,
+    };
+  }
+  return fileFixtures.fixtures;
+}
+
+/**
+ * Response used when no fixture matches: a small, valid project that also
+ * satisfies the planning format
+ */
+function defaultFixture(): MockFixture {
+  return {
+    content: JSON.stringify({
+      files: [
+        {
+          path: "README.md",
+          purpose: "Project overview",
+          content: "# Mock Project\n\nGenerated by the mock LLM provider.\n",
+        },
+        {
+          path: "src/index.js",
+          purpose: "Application entry point",
+          content: 'console.log("Hello from the mock provider");\n',
+        },
+      ],
+    }),
+  };
+}
+
+/**
+ * Pick the next fixture for a prompt: scripted responses first, then the
+ * fixtures file, then the default response
+ */
+function resolveFixture(hash: string): MockFixture {
+  const fromFile = loadFileFixtures();
+
+  for (const key of [hash, DEFAULT_FIXTURE_KEY]) {
+    const entry = scriptedFixtures.get(key) ?? fromFile[key];
+    if (!entry) {
+      continue;
+    }
+
+    const list = Array.isArray(entry) ? entry : [entry];
+    const count = callCounts.get(key) ?? 0;
+    callCounts.set(key, count + 1);
+    return list[Math.min(count, list.length - 1)];
+  }
+
+  if (process.env.MOCK_LLM_STRICT === "true") {
+    throw new MockProviderError(`No mock fixture for prompt ${hash}`, 400);
+  }
+  return defaultFixture();
+}
+
+/**
+ * Wait for the simulated latency, stopping early if the request is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Request was aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Request was aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Rough token estimate used for usage reporting and max token truncation
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic provider that replays recorded fixtures or scripted
+ * responses keyed by prompt hash. Selected with DEFAULT_LLM_PROVIDER=mock;
+ * needs no API key.
+ */
+export class MockProvider implements LLMProviderInterface {
+  name: LLMProvider = "mock";
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Resolve the fixture for a request and apply latency and truncation
+   */
+  private async respond(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<{ fixture: MockFixture; content: string; finishReason: string }> {
+    const fixture = resolveFixture(
+      hashMockPrompt(messages, options?.systemPrompt)
+    );
+
+    const latencyMs =
+      fixture.latencyMs ?? Number(process.env.MOCK_LLM_LATENCY_MS || 0);
+    if (latencyMs > 0) {
+      await sleep(latencyMs, options?.signal);
+    }
+
+    if (fixture.error) {
+      throw new MockProviderError(fixture.error.message, fixture.error.status);
+    }
+
+    let content = fixture.content ?? "";
+    let finishReason = fixture.finishReason ?? "stop";
+
+    const maxChars =
+      fixture.truncateAt ??
+      (options?.maxTokens ? options.maxTokens * 4 : undefined);
+    if (maxChars !== undefined && content.length > maxChars) {
+      content = content.slice(0, maxChars);
+      finishReason = "max_tokens";
+    }
+
+    return { fixture, content, finishReason };
+  }
+
+  private toResult(
+    messages: LLMMessage[],
+    fixture: MockFixture,
+    content: string,
+    finishReason: string,
+    startTime: number,
+    options?: GenerateOptions
+  ): GenerateResult {
+    const inputTokens =
+      fixture.usage?.inputTokens ??
+      estimateTokens(
+        (options?.systemPrompt ?? "") + messages.map((m) => m.content).join("")
+      );
+    const outputTokens = fixture.usage?.outputTokens ?? estimateTokens(content);
+
+    return {
+      content,
+      files:
+        options?.structuredOutput && finishReason === "stop"
+          ? parseStructuredFilesJson(content)
+          : undefined,
+      model: options?.model || DEFAULT_MODELS.mock,
+      provider: "mock",
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      finishReason,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  async generate(
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    return this.generateChat([{ role: "user", content: prompt }], options);
+  }
+
+  async generateChat(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const startTime = Date.now();
+    const { fixture, content, finishReason } = await this.respond(
+      messages,
+      options
+    );
+    return this.toResult(
+      messages,
+      fixture,
+      content,
+      finishReason,
+      startTime,
+      options
+    );
+  }
+
+  async generateStream(
+    messages: LLMMessage[],
+    callbacks: StreamCallbacks,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const startTime = Date.now();
+
+    try {
+      const { fixture, content, finishReason } = await this.respond(
+        messages,
+        options
+      );
+
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        if (options?.signal?.aborted) {
+          throw new Error("Request was aborted");
+        }
+        callbacks.onToken?.(content.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+
+      const result = this.toResult(
+        messages,
+        fixture,
+        content,
+        finishReason,
+        startTime,
+        options
+      );
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import OpenAI from "openai";
+import { OpenAIProvider } from "./openai";
+import { LLMProvider, DEFAULT_MODELS } from "./types";
+
+// How structured output is requested from the server
+type CompatibleResponseFormat = "json_schema" | "json_object" | "none";
+
+/**
+ * The model used when a request does not name one
+ */
+export function getCompatibleModel(): string {
+  return (
+    process.env.OPENAI_COMPATIBLE_MODEL || DEFAULT_MODELS["openai-compatible"]
+  );
+}
+
+/**
+ * Provider for self-hosted models behind an OpenAI-compatible API
+ * (Ollama, vLLM, LM Studio, ...).
+ *
+ * Configured with OPENAI_COMPATIBLE_BASE_URL (e.g. http://localhost:11434/v1),
+ * an optional OPENAI_COMPATIBLE_API_KEY and OPENAI_COMPATIBLE_MODEL.
+ * Servers without JSON schema support can set
+ * OPENAI_COMPATIBLE_RESPONSE_FORMAT to "json_object" or "none".
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  name: LLMProvider = "openai-compatible";
+  protected notConfiguredMessage = "OpenAI-compatible base URL not configured";
+
+  constructor() {
+    const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+    super(
+      baseURL
+        ? new OpenAI({
+            baseURL,
+            // Local servers usually ignore the key, but the SDK requires one
+            apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+            // Retries are handled by the retry policy in ./retry
+            maxRetries: 0,
+          })
+        : null
+    );
+  }
+
+  protected getDefaultModel(): string {
+    return getCompatibleModel();
+  }
+
+  protected getResponseFormat() {
+    const format = (process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT ||
+      "json_schema") as CompatibleResponseFormat;
+
+    if (format === "none") {
+      return undefined;
+    }
+    if (format === "json_object") {
+      return { type: "json_object" as const };
+    }
+    return super.getResponseFormat();
+  }
+}
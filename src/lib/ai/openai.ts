@@ -1,21 +1,35 @@
 import OpenAI from "openai";
 import {
+  LLMProvider,
   LLMProviderInterface,
   LLMMessage,
   GenerateOptions,
   GenerateResult,
+  StreamCallbacks,
   DEFAULT_MODELS,
   DEFAULT_MAX_TOKENS,
 } from "./types";
+import {
+  CODE_GENERATION_JSON_SCHEMA,
+  parseStructuredFilesJson,
+} from "./schema";
 
 export class OpenAIProvider implements LLMProviderInterface {
-  name = "openai" as const;
-  private client: OpenAI | null = null;
+  name: LLMProvider = "openai";
+  protected client: OpenAI | null = null;
+  protected notConfiguredMessage = "OpenAI API key not configured";
 
-  constructor() {
-    if (process.env.OPENAI_API_KEY) {
+  /**
+   * Subclasses targeting other OpenAI-compatible APIs pass their own client
+   */
+  constructor(client?: OpenAI | null) {
+    if (client !== undefined) {
+      this.client = client;
+    } else if (process.env.OPENAI_API_KEY) {
       this.client = new OpenAI({
         apiKey: process.env.OPENAI_API_KEY,
+        // Retries are handled by the retry policy in ./retry
+        maxRetries: 0,
       });
     }
   }
@@ -26,30 +40,41 @@ export class OpenAIProvider implements LLMProviderInterface {
 
   private getClient(): OpenAI {
     if (!this.client) {
-      throw new Error("OpenAI API key not configured");
+      throw new Error(this.notConfiguredMessage);
     }
     return this.client;
   }
 
-  async generate(
-    prompt: string,
-    options?: GenerateOptions
-  ): Promise<GenerateResult> {
-    return this.generateChat(
-      [{ role: "user", content: prompt }],
-      options
-    );
+  protected getDefaultModel(): string {
+    return DEFAULT_MODELS.openai;
   }
 
-  async generateChat(
+  /**
+   * Response format used when structured output is requested
+   */
+  protected getResponseFormat():
+    | OpenAI.Chat.ChatCompletionCreateParams["response_format"]
+    | undefined {
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: "code_generation",
+        schema: CODE_GENERATION_JSON_SCHEMA,
+        strict: true,
+      },
+    };
+  }
+
+  /**
+   * Build the chat completion request body shared by streaming and
+   * non-streaming calls
+   */
+  private buildParams(
     messages: LLMMessage[],
     options?: GenerateOptions
-  ): Promise<GenerateResult> {
-    const client = this.getClient();
-    const startTime = Date.now();
-
-    const model = options?.model || DEFAULT_MODELS.openai;
-    const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS.openai;
+  ): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    const model = options?.model || this.getDefaultModel();
+    const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS[this.name];
 
     // Convert messages to OpenAI format
     const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
@@ -70,12 +95,38 @@ export class OpenAIProvider implements LLMProviderInterface {
       });
     }
 
-    const response = await client.chat.completions.create({
+    return {
       model,
       messages: openaiMessages,
       max_tokens: maxTokens,
       temperature: options?.temperature ?? 0.7,
       stop: options?.stopSequences,
+      ...(options?.structuredOutput && {
+        response_format: this.getResponseFormat(),
+      }),
+    };
+  }
+
+  async generate(
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    return this.generateChat(
+      [{ role: "user", content: prompt }],
+      options
+    );
+  }
+
+  async generateChat(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const client = this.getClient();
+    const startTime = Date.now();
+    const params = this.buildParams(messages, options);
+
+    const response = await client.chat.completions.create(params, {
+      signal: options?.signal,
     });
 
     const choice = response.choices[0];
@@ -83,8 +134,11 @@ export class OpenAIProvider implements LLMProviderInterface {
 
     return {
       content,
-      model,
-      provider: "openai",
+      files: options?.structuredOutput
+        ? parseStructuredFilesJson(content)
+        : undefined,
+      model: params.model,
+      provider: this.name,
       usage: {
         inputTokens: response.usage?.prompt_tokens || 0,
         outputTokens: response.usage?.completion_tokens || 0,
@@ -94,4 +148,69 @@ export class OpenAIProvider implements LLMProviderInterface {
       durationMs: Date.now() - startTime,
     };
   }
+
+  async generateStream(
+    messages: LLMMessage[],
+    callbacks: StreamCallbacks,
+    options?: GenerateOptions
+  ): Promise<GenerateResult> {
+    const client = this.getClient();
+    const startTime = Date.now();
+    const params = this.buildParams(messages, options);
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          ...params,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options?.signal }
+      );
+
+      let content = "";
+      let finishReason = "stop";
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        const token = choice?.delta?.content;
+        if (token) {
+          content += token;
+          callbacks.onToken?.(token);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        // Usage arrives on the final chunk, which has no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      const result: GenerateResult = {
+        content,
+        files: options?.structuredOutput
+          ? parseStructuredFilesJson(content)
+          : undefined,
+        model: params.model,
+        provider: this.name,
+        usage: {
+          inputTokens: usage?.prompt_tokens || 0,
+          outputTokens: usage?.completion_tokens || 0,
+          totalTokens: usage?.total_tokens || 0,
+        },
+        finishReason,
+        durationMs: Date.now() - startTime,
+      };
+
+      callbacks.onComplete?.(result);
+      return result;
+    } catch (error) {
+      callbacks.onError?.(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
 }
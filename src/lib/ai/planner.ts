@@ -0,0 +1,323 @@
+import { z } from "zod";
+import { generateChat, generateProjectFiles } from "./index";
+import { CodeGenerationOptions, GenerateResult } from "./types";
+import { GeneratedFileOutput } from "./schema";
+
+/**
+ * Schema for the file manifest produced by the planning phase
+ */
+export const projectPlanSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        purpose: z.string(),
+        dependsOn: z.array(z.string()).default([]),
+      })
+    )
+    .min(1),
+});
+
+export type ProjectPlan = z.infer<typeof projectPlanSchema>;
+export type PlannedFile = ProjectPlan["files"][number];
+
+/**
+ * Saved state of a planned generation, used to resume after a failure
+ */
+export interface PlannedGenerationProgress {
+  plan: ProjectPlan;
+  batches: string[][];
+  completedBatches: number;
+  files: GeneratedFileOutput[];
+  incompleteFiles: string[];
+}
+
+export interface PlannedGenerationInput {
+  projectDescription: string;
+  techStack: string[];
+  additionalInstructions?: string;
+}
+
+export interface PlannedGenerationOptions extends CodeGenerationOptions {
+  batchSize?: number;
+  // Resume from a previously saved state instead of planning again
+  progress?: PlannedGenerationProgress;
+  // Called after the plan and after every finished batch
+  onProgress?: (progress: PlannedGenerationProgress) => Promise<void> | void;
+}
+
+export interface PlannedGenerationOutcome {
+  files: GeneratedFileOutput[];
+  incompleteFiles: string[];
+  progress: PlannedGenerationProgress;
+  // Combined usage across the planning and batch requests of this run
+  result: GenerateResult;
+}
+
+const DEFAULT_BATCH_SIZE = 5;
+
+// Longest interface summary passed along for a single file
+const MAX_INTERFACE_LENGTH = 1500;
+
+/**
+ * Planning prompt: ask for a manifest of files instead of their contents
+ */
+export function createPlanningPrompt(input: PlannedGenerationInput): string {
+  return `You are an expert software architect. Plan the file structure of a complete, production-ready project based on the following requirements. Do not write any file contents yet.
+
+## Project Description
+${input.projectDescription}
+
+## Technology Stack
+${input.techStack.join(", ")}
+
+${input.additionalInstructions ? `## Additional Instructions\n${input.additionalInstructions}\n` : ""}
+## Output Format
+Respond with only a JSON object containing a "files" array. Each entry should have:
+- "path": The relative file path (e.g., "src/index.ts")
+- "purpose": One or two sentences describing what the file contains
+- "dependsOn": Paths of other planned files this file imports or relies on
+
+Include configuration files (package.json, tsconfig.json, etc.).`;
+}
+
+/**
+ * Parse and validate the planning response
+ */
+export function parseProjectPlan(response: string): ProjectPlan {
+  try {
+    const start = response.indexOf("{");
+    const end = response.lastIndexOf("}");
+    if (start < 0 || end < start) {
+      throw new Error("No valid JSON found in response");
+    }
+
+    return projectPlanSchema.parse(JSON.parse(response.slice(start, end + 1)));
+  } catch (error) {
+    console.error("Failed to parse project plan:", error);
+    throw new Error("Failed to parse project plan");
+  }
+}
+
+/**
+ * Order planned files so dependencies come first, then split into batches.
+ * Unknown dependencies are ignored and cycles are broken in manifest order.
+ */
+export function createBatches(
+  plan: ProjectPlan,
+  batchSize = DEFAULT_BATCH_SIZE
+): string[][] {
+  const byPath = new Map(plan.files.map((file) => [file.path, file]));
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (path: string, ancestors: Set<string>) => {
+    if (visited.has(path) || ancestors.has(path)) {
+      return;
+    }
+    ancestors.add(path);
+    for (const dependency of byPath.get(path)?.dependsOn ?? []) {
+      if (byPath.has(dependency)) {
+        visit(dependency, ancestors);
+      }
+    }
+    ancestors.delete(path);
+    visited.add(path);
+    ordered.push(path);
+  };
+
+  for (const file of plan.files) {
+    visit(file.path, new Set());
+  }
+
+  const batches: string[][] = [];
+  for (let i = 0; i < ordered.length; i += batchSize) {
+    batches.push(ordered.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Summarize the public interface of a generated file so later batches can
+ * use it without receiving the full content
+ */
+export function extractInterface(file: GeneratedFileOutput): string {
+  const lines = file.content.split("\n");
+
+  let summary: string[];
+  if (/\.(ts|tsx|js|jsx|mjs|cjs)$/.test(file.path)) {
+    summary = lines.filter((line) => /^export\s/.test(line));
+  } else if (file.path.endsWith(".py")) {
+    summary = lines.filter((line) => /^(def|class|async def)\s/.test(line));
+  } else if (/\.(json|ya?ml|toml)$/.test(file.path)) {
+    summary = lines;
+  } else {
+    summary = [];
+  }
+
+  const text = summary.join("\n");
+  return text.length > MAX_INTERFACE_LENGTH
+    ? `${text.slice(0, MAX_INTERFACE_LENGTH)}\n...`
+    : text;
+}
+
+/**
+ * Prompt for one batch: the full manifest, the interfaces of files that
+ * already exist, and the files to write now
+ */
+export function createBatchPrompt(
+  input: PlannedGenerationInput,
+  plan: ProjectPlan,
+  batch: string[],
+  generatedFiles: GeneratedFileOutput[]
+): string {
+  const manifest = plan.files
+    .map(
+      (file) =>
+        `- ${file.path}: ${file.purpose}${
+          file.dependsOn.length > 0
+            ? ` (depends on ${file.dependsOn.join(", ")})`
+            : ""
+        }`
+    )
+    .join("\n");
+
+  const interfaces = generatedFiles
+    .map((file) => ({ path: file.path, summary: extractInterface(file) }))
+    .filter((file) => file.summary)
+    .map((file) => `### ${file.path}\n\`\`\`\n${file.summary}\n\`\`\``)
+    .join("\n\n");
+
+  const targets = batch
+    .map((path) => {
+      const planned = plan.files.find((file) => file.path === path);
+      return `- ${path}${planned ? `: ${planned.purpose}` : ""}`;
+    })
+    .join("\n");
+
+  return `You are an expert software architect and developer. You are generating a complete, production-ready project one batch of files at a time.
+
+## Project Description
+${input.projectDescription}
+
+## Technology Stack
+${input.techStack.join(", ")}
+
+${input.additionalInstructions ? `## Additional Instructions\n${input.additionalInstructions}\n` : ""}
+## File Manifest
+${manifest}
+
+${interfaces ? `## Already Generated Files (public interfaces)\n${interfaces}\n` : ""}
+## Files To Generate Now
+${targets}
+
+## Requirements
+1. Generate only the files listed above, with complete, working code
+2. Import from already generated files using exactly the interfaces shown
+3. Include proper error handling and input validation
+4. Ensure the code is secure and follows OWASP guidelines
+
+## Output Format
+Respond with a JSON object containing a "files" array. Each file should have:
+- "path": The relative file path
+- "content": The complete file content as a string`;
+}
+
+/**
+ * Run a planned generation: produce a file manifest first, then generate
+ * files in dependency-ordered batches.
+ *
+ * Progress is reported after each phase so a failed run can be resumed from
+ * the last finished batch by passing the saved progress back in.
+ */
+export async function runPlannedGeneration(
+  input: PlannedGenerationInput,
+  options?: PlannedGenerationOptions
+): Promise<PlannedGenerationOutcome> {
+  const { progress: savedProgress, onProgress, batchSize, ...generateOptions } =
+    options ?? {};
+
+  const results: GenerateResult[] = [];
+  let progress: PlannedGenerationProgress;
+
+  if (savedProgress) {
+    progress = savedProgress;
+  } else {
+    const planResult = await generateChat(
+      [{ role: "user", content: createPlanningPrompt(input) }],
+      { ...generateOptions, structuredOutput: false, temperature: 0.2 }
+    );
+    results.push(planResult);
+
+    const plan = parseProjectPlan(planResult.content);
+    progress = {
+      plan,
+      batches: createBatches(plan, batchSize),
+      completedBatches: 0,
+      files: [],
+      incompleteFiles: [],
+    };
+    await onProgress?.(progress);
+  }
+
+  while (progress.completedBatches < progress.batches.length) {
+    const batch = progress.batches[progress.completedBatches];
+
+    const outcome = await generateProjectFiles(
+      [
+        {
+          role: "user",
+          content: createBatchPrompt(input, progress.plan, batch, progress.files),
+        },
+      ],
+      generateOptions
+    );
+    results.push(outcome.result);
+
+    // Later batches may legitimately rewrite an earlier file
+    const received = new Set(outcome.files.map((file) => file.path));
+    const missing = new Set<string>(
+      progress.incompleteFiles.filter((path) => !received.has(path))
+    );
+    for (const path of batch) {
+      if (!received.has(path)) {
+        missing.add(path);
+      }
+    }
+
+    progress = {
+      ...progress,
+      completedBatches: progress.completedBatches + 1,
+      files: [
+        ...progress.files.filter((file) => !received.has(file.path)),
+        ...outcome.files,
+      ],
+      incompleteFiles: [...missing],
+    };
+    await onProgress?.(progress);
+  }
+
+  const last = results[results.length - 1];
+  const result: GenerateResult = {
+    content: "",
+    model: last?.model ?? generateOptions.model ?? "",
+    provider: last?.provider ?? generateOptions.provider ?? "anthropic",
+    usage: {
+      inputTokens: results.reduce((sum, r) => sum + r.usage.inputTokens, 0),
+      outputTokens: results.reduce((sum, r) => sum + r.usage.outputTokens, 0),
+      totalTokens: results.reduce((sum, r) => sum + r.usage.totalTokens, 0),
+    },
+    finishReason: last?.finishReason ?? "stop",
+    durationMs: results.reduce((sum, r) => sum + r.durationMs, 0),
+    costUsd: results.reduce((sum, r) => sum + (r.costUsd ?? 0), 0),
+    attempts: results.flatMap((r) => r.attempts ?? []),
+    cacheHit: results.length > 0 && results.every((r) => r.cacheHit),
+  };
+
+  return {
+    files: progress.files,
+    incompleteFiles: progress.incompleteFiles,
+    progress,
+    result,
+  };
+}
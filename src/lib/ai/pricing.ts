@@ -0,0 +1,87 @@
+import {
+  LLMProvider,
+  GenerateResult,
+  ModelPricing,
+  DEFAULT_MODELS,
+  MODEL_PRICING,
+} from "./types";
+
+/**
+ * Find the longest pricing entry the model name starts with
+ */
+function findPricing(
+  provider: LLMProvider,
+  model: string
+): ModelPricing | undefined {
+  const prices = MODEL_PRICING[provider] ?? {};
+  const match = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Get the price of a model, falling back to the provider's default model
+ */
+export function getModelPricing(
+  provider: LLMProvider,
+  model: string
+): ModelPricing {
+  return (
+    findPricing(provider, model) ??
+    findPricing(provider, DEFAULT_MODELS[provider]) ?? { input: 0, output: 0 }
+  );
+}
+
+/**
+ * Calculate the cost in USD of a request, rounded to a millionth of a dollar
+ */
+export function calculateCost(
+  provider: LLMProvider,
+  model: string,
+  usage: Pick<GenerateResult["usage"], "inputTokens" | "outputTokens">
+): number {
+  const pricing = getModelPricing(provider, model);
+  const cost =
+    (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) /
+    1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Attach the computed cost to a provider result
+ */
+export function withCost(result: GenerateResult): GenerateResult {
+  return {
+    ...result,
+    costUsd: calculateCost(result.provider, result.model, result.usage),
+  };
+}
+
+export interface UsageMeter {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Pass as `onUsage` to count every billed response
+  record(result: GenerateResult): void;
+}
+
+/**
+ * Add up the usage and cost of every billed response of a run, so spend can
+ * be recorded when the run fails after the provider was paid
+ */
+export function createUsageMeter(): UsageMeter {
+  const meter: UsageMeter = {
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    record(result) {
+      meter.inputTokens += result.usage.inputTokens;
+      meter.outputTokens += result.usage.outputTokens;
+      meter.costUsd =
+        Math.round((meter.costUsd + (result.costUsd ?? 0)) * 1_000_000) /
+        1_000_000;
+    },
+  };
+  return meter;
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { getUnsafePathReason } from "@/lib/analysis";
+import { generateChat } from "./index";
+import { GenerateRequestOptions, GenerateResult, LLMMessage } from "./types";
+import { GeneratedFileOutput } from "./schema";
+
+/**
+ * Schema for a single change to the project files
+ */
+export const fileOperationSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("add"),
+    path: z.string().min(1),
+    content: z.string(),
+  }),
+  z.object({
+    action: z.literal("modify"),
+    path: z.string().min(1),
+    content: z.string(),
+  }),
+  z.object({
+    action: z.literal("delete"),
+    path: z.string().min(1),
+  }),
+]);
+
+/**
+ * Schema for the patch returned by a refinement turn
+ */
+export const filePatchSchema = z.object({
+  summary: z.string().default(""),
+  operations: z.array(fileOperationSchema),
+});
+
+export type FileOperation = z.infer<typeof fileOperationSchema>;
+export type FilePatch = z.infer<typeof filePatchSchema>;
+
+/**
+ * Thrown when a patch does not fit the files it is applied to
+ */
+export class PatchApplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatchApplyError";
+  }
+}
+
+export interface RefinementInput {
+  files: GeneratedFileOutput[];
+  // Earlier user requests and assistant patches, oldest first
+  history: LLMMessage[];
+  request: string;
+}
+
+export interface RefinementOutcome {
+  patch: FilePatch;
+  files: GeneratedFileOutput[];
+  // History including this turn with the patch as the model sent it
+  history: LLMMessage[];
+  result: GenerateResult;
+}
+
+// Earlier turns sent along with a new request (one turn is two messages)
+export const MAX_HISTORY_MESSAGES = 20;
+
+/**
+ * System prompt for a refinement session, carrying the current files
+ */
+export function createRefinementSystemPrompt(
+  files: GeneratedFileOutput[]
+): string {
+  const listing = files
+    .map((file) => `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\``)
+    .join("\n\n");
+
+  return `You are an expert software developer editing an existing generated project. Apply the user's requested changes with the smallest set of file changes that fully implements them.
+
+## Current Files
+${listing || "(no files)"}
+
+## Requirements
+1. Only touch files that need to change
+2. Keep the existing code style and structure
+3. Include proper error handling and input validation
+4. Ensure the code is secure and follows OWASP guidelines
+
+## Output Format
+Respond with only a JSON object containing:
+- "summary": A short description of the changes
+- "operations": An array of changes, each one of
+  - {"action": "add", "path": "...", "content": "..."} for a new file
+  - {"action": "modify", "path": "...", "content": "..."} with the complete new content of an existing file
+  - {"action": "delete", "path": "..."} to remove an existing file`;
+}
+
+/**
+ * Parse and validate a refinement response
+ */
+export function parseFilePatch(response: string): FilePatch {
+  try {
+    const start = response.indexOf("{");
+    const end = response.lastIndexOf("}");
+    if (start < 0 || end < start) {
+      throw new Error("No valid JSON found in response");
+    }
+
+    return filePatchSchema.parse(JSON.parse(response.slice(start, end + 1)));
+  } catch (error) {
+    console.error("Failed to parse refinement patch:", error);
+    throw new Error("Failed to parse refinement patch");
+  }
+}
+
+/**
+ * Apply a patch to a set of files and return the new set.
+ * Adding an existing file is treated as a modification; modifying or
+ * deleting a file that does not exist, or any path outside the project,
+ * fails the whole patch. Changed files keep their mode.
+ */
+export function applyFilePatch(
+  files: GeneratedFileOutput[],
+  patch: FilePatch
+): GeneratedFileOutput[] {
+  const result = new Map(files.map((file) => [file.path, file]));
+
+  for (const operation of patch.operations) {
+    const unsafe = getUnsafePathReason(operation.path);
+    if (unsafe) {
+      throw new PatchApplyError(`${unsafe}: ${operation.path}`);
+    }
+
+    if (operation.action === "delete") {
+      if (!result.delete(operation.path)) {
+        throw new PatchApplyError(
+          `Cannot delete missing file ${operation.path}`
+        );
+      }
+    } else {
+      if (operation.action === "modify" && !result.has(operation.path)) {
+        throw new PatchApplyError(
+          `Cannot modify missing file ${operation.path}`
+        );
+      }
+      const mode = result.get(operation.path)?.mode;
+      result.set(operation.path, {
+        path: operation.path,
+        content: operation.content,
+        ...(mode !== undefined && { mode }),
+      });
+    }
+  }
+
+  return [...result.values()];
+}
+
+/**
+ * Append a refinement turn to the conversation: the user's request and the
+ * patch the assistant answered with
+ */
+export function appendRefinementTurn(
+  history: LLMMessage[],
+  request: string,
+  patch: FilePatch
+): LLMMessage[] {
+  return [
+    ...history,
+    { role: "user", content: request },
+    { role: "assistant", content: JSON.stringify(patch) },
+  ];
+}
+
+/**
+ * Run one refinement turn: send the request with the current files and
+ * recent history, then apply the returned patch
+ */
+export async function runRefinement(
+  input: RefinementInput,
+  options?: GenerateRequestOptions
+): Promise<RefinementOutcome> {
+  const history = input.history.slice(-MAX_HISTORY_MESSAGES);
+  const userMessage: LLMMessage = { role: "user", content: input.request };
+
+  const result = await generateChat([...history, userMessage], {
+    ...options,
+    systemPrompt: createRefinementSystemPrompt(input.files),
+    structuredOutput: false,
+  });
+
+  const patch = parseFilePatch(result.content);
+
+  return {
+    patch,
+    files: applyFilePatch(input.files, patch),
+    history: appendRefinementTurn(input.history, input.request, patch),
+    result,
+  };
+}
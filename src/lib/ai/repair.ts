@@ -0,0 +1,180 @@
+import {
+  validateGeneratedFiles,
+  formatDiagnostics,
+  ValidationReport,
+} from "@/lib/analysis";
+import { generateChat, getGeneratedFiles } from "./index";
+import { CodeGenerationOptions, GenerateResult } from "./types";
+import { GeneratedFileOutput } from "./schema";
+
+export const DEFAULT_MAX_REPAIR_ROUNDS = 2;
+
+export interface RepairOptions extends CodeGenerationOptions {
+  // Defaults to LLM_REPAIR_MAX_ROUNDS
+  maxRounds?: number;
+}
+
+export interface RepairOutcome {
+  files: GeneratedFileOutput[];
+  // Validation of the final files
+  validation: ValidationReport;
+  rounds: number;
+  // Paths changed or added by the repair rounds
+  repairedPaths: string[];
+  // Combined usage of the repair requests
+  usage: GenerateResult["usage"];
+  costUsd: number;
+}
+
+/**
+ * Get the maximum number of repair rounds from LLM_REPAIR_MAX_ROUNDS;
+ * 0 disables repair
+ */
+export function getMaxRepairRounds(): number {
+  const value = Number(process.env.LLM_REPAIR_MAX_ROUNDS);
+  return process.env.LLM_REPAIR_MAX_ROUNDS && Number.isInteger(value)
+    ? Math.max(0, value)
+    : DEFAULT_MAX_REPAIR_ROUNDS;
+}
+
+/**
+ * Repair prompt: the diagnostics, the failing files and the paths of the
+ * rest of the project. package.json is included whenever a dependency is
+ * missing from it.
+ */
+export function createRepairPrompt(
+  files: GeneratedFileOutput[],
+  validation: ValidationReport
+): string {
+  const errors = validation.diagnostics.filter(
+    (diagnostic) =>
+      diagnostic.severity === "error" && diagnostic.code !== "unsafe-path"
+  );
+  const failing = new Set(errors.map((diagnostic) => diagnostic.path));
+  if (errors.some((diagnostic) => diagnostic.code === "undeclared-dependency")) {
+    failing.add("package.json");
+  }
+
+  const listing = files
+    .filter((file) => failing.has(file.path))
+    .map((file) => `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\``)
+    .join("\n\n");
+  const otherPaths = files
+    .filter((file) => !failing.has(file.path))
+    .map((file) => `- ${file.path}`)
+    .join("\n");
+
+  return `The generated project below failed static validation. Fix the problems reported by the compiler and validator.
+
+## Diagnostics
+${formatDiagnostics(errors)}
+
+## Failing Files
+${listing}
+
+## Other Files In The Project
+${otherPaths || "(none)"}
+
+## Requirements
+1. Return only the files you change, each with its complete new content
+2. Do not change files that have no diagnostics unless a fix requires it
+3. A missing module may be fixed by correcting the import or by adding the file
+4. A missing dependency may be fixed by adding it to package.json
+
+## Output Format
+Respond with a JSON object containing a "files" array. Each file should have:
+- "path": The relative file path
+- "content": The complete file content as a string`;
+}
+
+/**
+ * Replace files by path and append new ones. A replaced file keeps its mode.
+ */
+function mergeFiles(
+  files: GeneratedFileOutput[],
+  changes: GeneratedFileOutput[]
+): GeneratedFileOutput[] {
+  const merged = new Map(files.map((file) => [file.path, file]));
+  for (const change of changes) {
+    const mode = change.mode ?? merged.get(change.path)?.mode;
+    merged.set(change.path, {
+      path: change.path,
+      content: change.content,
+      ...(mode !== undefined && { mode }),
+    });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Validate generated files and, while errors remain, send the diagnostics
+ * back to the model and ask it to fix the failing files. Stops after the
+ * configured number of rounds, or earlier if a round fails or changes
+ * nothing.
+ */
+export async function repairGeneratedFiles(
+  files: GeneratedFileOutput[],
+  options?: RepairOptions
+): Promise<RepairOutcome> {
+  const { maxRounds = getMaxRepairRounds(), ...generateOptions } =
+    options ?? {};
+
+  let current = files;
+  let validation = validateGeneratedFiles(current);
+  const repairedPaths = new Set<string>();
+  const results: GenerateResult[] = [];
+
+  while (!validation.valid && results.length < maxRounds) {
+    // Unsafe paths are dropped rather than repaired
+    if (
+      validation.diagnostics.every(
+        (diagnostic) =>
+          diagnostic.severity !== "error" || diagnostic.code === "unsafe-path"
+      )
+    ) {
+      break;
+    }
+
+    let changes: GeneratedFileOutput[];
+    try {
+      const result = await generateChat(
+        [{ role: "user", content: createRepairPrompt(current, validation) }],
+        {
+          ...generateOptions,
+          structuredOutput: true,
+        }
+      );
+      results.push(result);
+      changes = getGeneratedFiles(result);
+    } catch (error) {
+      console.error("Repair round failed:", error);
+      break;
+    }
+
+    if (changes.length === 0) {
+      break;
+    }
+
+    changes.forEach((change) => repairedPaths.add(change.path));
+    current = mergeFiles(current, changes);
+    validation = validateGeneratedFiles(current);
+  }
+
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  let costUsd = 0;
+  for (const result of results) {
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    usage.totalTokens += result.usage.totalTokens;
+    costUsd += result.costUsd ?? 0;
+  }
+
+  return {
+    files: current,
+    validation,
+    rounds: results.length,
+    repairedPaths: [...repairedPaths],
+    usage,
+    costUsd,
+  };
+}
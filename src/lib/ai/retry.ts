@@ -0,0 +1,216 @@
+import {
+  LLMProvider,
+  LLMProviderInterface,
+  GenerateOptions,
+  GenerateResult,
+  GenerationAttempt,
+  RetryPolicy,
+  DEFAULT_MODELS,
+} from "./types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 120000,
+};
+
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits, overload
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+/**
+ * Thrown when every attempt across the provider chain has failed
+ */
+export class ProviderChainError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: GenerationAttempt[]
+  ) {
+    super(message);
+    this.name = "ProviderChainError";
+  }
+}
+
+/**
+ * Build the effective retry policy from environment defaults and overrides
+ */
+export function getRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : fallback;
+  };
+
+  const fallbackEnv = process.env.LLM_FALLBACK_PROVIDERS;
+
+  return {
+    maxRetries: fromEnv("LLM_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: fromEnv(
+      "LLM_RETRY_BASE_DELAY_MS",
+      DEFAULT_RETRY_POLICY.baseDelayMs
+    ),
+    maxDelayMs: fromEnv(
+      "LLM_RETRY_MAX_DELAY_MS",
+      DEFAULT_RETRY_POLICY.maxDelayMs
+    ),
+    timeoutMs: fromEnv("LLM_TIMEOUT_MS", DEFAULT_RETRY_POLICY.timeoutMs),
+    fallbackProviders:
+      fallbackEnv !== undefined
+        ? (fallbackEnv
+            .split(",")
+            .map((p) => p.trim())
+            .filter(Boolean) as LLMProvider[])
+        : undefined,
+    ...overrides,
+  };
+}
+
+/**
+ * Get the HTTP status of a provider SDK error, if it has one
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Check whether an error is transient and the call should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+
+  // Connection failures and timeouts have no status
+  const name = (error as Error)?.name || "";
+  const message = (error as Error)?.message || "";
+  return (
+    name.includes("Connection") ||
+    name.includes("Timeout") ||
+    /ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up|fetch failed/i.test(
+      message
+    )
+  );
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry number (1-based)
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (retry - 1)
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+export interface ProviderTarget {
+  provider: LLMProviderInterface;
+  // Model override; only the primary provider receives the requested model
+  model?: string;
+}
+
+class AttemptTimeoutError extends Error {
+  constructor(provider: LLMProvider, timeoutMs: number) {
+    super(`Provider ${provider} timed out after ${timeoutMs}ms`);
+    this.name = "AttemptTimeoutError";
+  }
+}
+
+/**
+ * Run a provider call with retries and fail over along the provider chain.
+ *
+ * Retryable errors are retried on the same provider with backoff until
+ * `maxRetries` is used up; any other error moves straight to the next
+ * provider. `canRetry` lets callers veto further attempts, e.g. once a
+ * stream has already emitted tokens.
+ */
+export async function runWithRetry(
+  targets: ProviderTarget[],
+  call: (
+    provider: LLMProviderInterface,
+    options: GenerateOptions
+  ) => Promise<GenerateResult>,
+  options: GenerateOptions | undefined,
+  policy: RetryPolicy,
+  canRetry: () => boolean = () => true
+): Promise<GenerateResult> {
+  const attempts: GenerationAttempt[] = [];
+  let lastError: unknown;
+
+  for (const target of targets) {
+    const model = target.model;
+
+    for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      options?.signal?.addEventListener("abort", onAbort);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+
+      const startTime = Date.now();
+
+      try {
+        const result = await call(target.provider, {
+          ...options,
+          model,
+          signal: controller.signal,
+        });
+
+        attempts.push({
+          provider: target.provider.name,
+          model: result.model,
+          attempt,
+          success: true,
+          durationMs: Date.now() - startTime,
+        });
+
+        return { ...result, attempts };
+      } catch (error) {
+        lastError = timedOut
+          ? new AttemptTimeoutError(target.provider.name, policy.timeoutMs)
+          : error;
+
+        attempts.push({
+          provider: target.provider.name,
+          model: model || DEFAULT_MODELS[target.provider.name],
+          attempt,
+          success: false,
+          error: lastError instanceof Error ? lastError.message : String(lastError),
+          status: getErrorStatus(lastError),
+          durationMs: Date.now() - startTime,
+        });
+
+        // Caller cancelled, or further attempts are not allowed
+        if (options?.signal?.aborted || !canRetry()) {
+          throw new ProviderChainError(
+            lastError instanceof Error ? lastError.message : "Generation failed",
+            attempts
+          );
+        }
+
+        if (!timedOut && !isRetryableError(lastError)) {
+          break;
+        }
+
+        if (attempt <= policy.maxRetries) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, getBackoffDelay(attempt, policy))
+          );
+        }
+      } finally {
+        clearTimeout(timer);
+        options?.signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+
+  throw new ProviderChainError(
+    lastError instanceof Error ? lastError.message : "Generation failed",
+    attempts
+  );
+}
@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/**
+ * Schema for a single generated file
+ */
+export const generatedFileSchema = z.object({
+  path: z.string().min(1),
+  content: z.string(),
+  // Unix permission bits, e.g. 0o755 for executable scripts
+  mode: z.number().int().min(0).max(0o777).optional(),
+});
+
+/**
+ * Schema for a complete code generation response
+ */
+export const codeGenerationSchema = z.object({
+  files: z.array(generatedFileSchema),
+});
+
+export type GeneratedFileOutput = z.infer<typeof generatedFileSchema>;
+
+// Name of the Anthropic tool the model is forced to call with the files
+export const EMIT_FILES_TOOL_NAME = "emit_files";
+
+/**
+ * JSON Schema for the files payload, shared by Anthropic tool use and
+ * OpenAI structured outputs (strict mode requires every property to be
+ * required and additional properties to be disallowed)
+ */
+export const CODE_GENERATION_JSON_SCHEMA: {
+  type: "object";
+  properties: Record<string, unknown>;
+  required: string[];
+  additionalProperties: boolean;
+} = {
+  type: "object",
+  properties: {
+    files: {
+      type: "array",
+      description: "Every file in the generated project",
+      items: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: 'Relative file path, e.g. "src/index.ts"',
+          },
+          content: {
+            type: "string",
+            description: "Complete file content",
+          },
+        },
+        required: ["path", "content"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["files"],
+  additionalProperties: false,
+};
+
+/**
+ * Validate a structured output payload against the files schema.
+ * Returns undefined when the payload does not match.
+ */
+export function parseStructuredFiles(
+  value: unknown
+): GeneratedFileOutput[] | undefined {
+  const result = codeGenerationSchema.safeParse(value);
+  return result.success ? result.data.files : undefined;
+}
+
+/**
+ * Parse a JSON string produced by structured output and validate it.
+ * Returns undefined when the string is not valid JSON or does not match.
+ */
+export function parseStructuredFilesJson(
+  json: string
+): GeneratedFileOutput[] | undefined {
+  try {
+    return parseStructuredFiles(JSON.parse(json));
+  } catch {
+    return undefined;
+  }
+}
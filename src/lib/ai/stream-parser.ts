@@ -0,0 +1,92 @@
+/**
+ * Incremental parser that pulls complete file objects out of a streamed
+ * code generation response as soon as each one has been fully received.
+ *
+ * It expects the same `{ "files": [{ "path": ..., "content": ... }] }` shape
+ * as parseCodeGenerationResponse and keeps its scan state between chunks, so
+ * every character is only inspected once.
+ */
+export class FileStreamParser {
+  private buffer = "";
+  private position = -1;
+  private objectStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private done = false;
+
+  /**
+   * Append a chunk of streamed text and return any files completed by it
+   */
+  push(chunk: string): { path: string; content: string }[] {
+    this.buffer += chunk;
+
+    if (this.done) {
+      return [];
+    }
+
+    // Wait until the start of the files array has arrived
+    if (this.position < 0) {
+      const match = this.buffer.match(/"files"\s*:\s*\[/);
+      if (!match || match.index === undefined) {
+        return [];
+      }
+      this.position = match.index + match[0].length;
+    }
+
+    const files: { path: string; content: string }[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{") {
+        if (this.depth === 0) {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === "}") {
+        this.depth--;
+        if (this.depth === 0) {
+          const file = this.parseObject(
+            this.buffer.slice(this.objectStart, this.position + 1)
+          );
+          if (file) {
+            files.push(file);
+          }
+        }
+      } else if (char === "]" && this.depth === 0) {
+        this.done = true;
+        break;
+      }
+    }
+
+    return files;
+  }
+
+  private parseObject(
+    json: string
+  ): { path: string; content: string } | null {
+    try {
+      const parsed = JSON.parse(json);
+      if (typeof parsed.path !== "string" || typeof parsed.content !== "string") {
+        return null;
+      }
+      return { path: parsed.path, content: parsed.content };
+    } catch {
+      return null;
+    }
+  }
+}
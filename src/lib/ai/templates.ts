@@ -0,0 +1,122 @@
+import { GeneratedFileOutput } from "./schema";
+
+/**
+ * Variables available to prompt templates
+ */
+export interface PromptTemplateVariables {
+  description: string;
+  techStack: string;
+  instructions?: string;
+  existingFiles?: string;
+}
+
+export const TEMPLATE_VARIABLES: (keyof PromptTemplateVariables)[] = [
+  "description",
+  "techStack",
+  "instructions",
+  "existingFiles",
+];
+
+// Longest existing file listing passed to a template before contents are
+// replaced by paths only
+const MAX_EXISTING_FILES_LENGTH = 20000;
+
+/**
+ * Built-in code generation template, used when no stored template applies.
+ * Stored templates may also use `{{existingFiles}}`, the project's current
+ * files when it is regenerated.
+ *
+ * `{{name}}` inserts a variable; `{{#name}}...{{/name}}` keeps a section only
+ * when the variable is not empty.
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `You are an expert software architect and developer. Generate a complete, production-ready project based on the following requirements.
+
+## Project Description
+{{description}}
+
+## Technology Stack
+{{techStack}}
+
+## Requirements
+1. Generate all necessary files with complete, working code
+2. Include proper error handling and input validation
+3. Follow best practices for the chosen technologies
+4. Include necessary configuration files (package.json, tsconfig.json, etc.)
+5. Add appropriate comments and documentation
+6. Ensure the code is secure and follows OWASP guidelines
+
+{{#instructions}}## Additional Instructions
+{{instructions}}{{/instructions}}
+
+## Output Format
+Respond with a JSON object containing a "files" array. Each file should have:
+- "path": The relative file path (e.g., "src/index.ts")
+- "content": The complete file content as a string
+
+Example:
+{
+  "files": [
+    { "path": "package.json", "content": "{...}" },
+    { "path": "src/index.ts", "content": "..." }
+  ]
+}
+
+Generate the project now:`;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Render a template with the given variables. Runs of blank lines left by
+ * empty sections are collapsed.
+ */
+export function renderTemplate(
+  body: string,
+  variables: PromptTemplateVariables
+): string {
+  const values = variables as unknown as Record<string, string | undefined>;
+
+  return body
+    .replace(SECTION_PATTERN, (_, name: string, section: string) =>
+      values[name] ? section : ""
+    )
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+/**
+ * List problems with a template body: unknown variables and unclosed sections
+ */
+export function validateTemplate(body: string): string[] {
+  const errors: string[] = [];
+  const known = new Set<string>(TEMPLATE_VARIABLES);
+
+  for (const match of body.matchAll(/\{\{([#/]?)(\w+)\}\}/g)) {
+    if (!known.has(match[2])) {
+      errors.push(`Unknown variable: ${match[2]}`);
+    }
+  }
+
+  const opened = [...body.matchAll(/\{\{#(\w+)\}\}/g)].length;
+  const closed = [...body.matchAll(/\{\{\/(\w+)\}\}/g)].length;
+  if (opened !== closed) {
+    errors.push("Every {{#section}} must be closed with {{/section}}");
+  }
+
+  return [...new Set(errors)];
+}
+
+/**
+ * Format existing files for the `existingFiles` variable. Contents are
+ * dropped in favour of a path listing when they would be too long.
+ */
+export function formatExistingFiles(files: GeneratedFileOutput[]): string {
+  const full = files
+    .map((file) => `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\``)
+    .join("\n\n");
+
+  if (full.length <= MAX_EXISTING_FILES_LENGTH) {
+    return full;
+  }
+  return files.map((file) => `- ${file.path}`).join("\n");
+}
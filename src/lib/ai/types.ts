@@ -1,4 +1,11 @@
-export type LLMProvider = "anthropic" | "openai" | "gemini";
+import type { GeneratedFileOutput } from "./schema";
+
+export type LLMProvider =
+  | "anthropic"
+  | "openai"
+  | "gemini"
+  | "openai-compatible"
+  | "mock";
 
 export interface LLMMessage {
   role: "user" | "assistant" | "system";
@@ -11,6 +18,56 @@ export interface GenerateOptions {
   temperature?: number;
   systemPrompt?: string;
   stopSequences?: string[];
+  signal?: AbortSignal;
+  // Ask for the files payload through the provider's native structured output
+  structuredOutput?: boolean;
+}
+
+export interface RetryPolicy {
+  // Retries per provider after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Providers to fail over to, in order. Defaults to getConfiguredProviders()
+  fallbackProviders?: LLMProvider[];
+}
+
+export interface GenerateRequestOptions extends GenerateOptions {
+  provider?: LLMProvider;
+  retry?: Partial<RetryPolicy>;
+  // Set to false to skip the response cache for this request
+  cache?: boolean;
+  // Called with every response the provider billed, including responses
+  // whose output is later discarded
+  onUsage?: (result: GenerateResult) => void;
+}
+
+export interface CodeGenerationOptions extends GenerateRequestOptions {
+  // Follow-up requests allowed when the output hits the token limit
+  maxContinuations?: number;
+  // Stream tokens as they arrive instead of waiting for each response
+  onToken?: (token: string) => void;
+}
+
+export interface CodeGenerationOutcome {
+  files: GeneratedFileOutput[];
+  // Paths of files that were cut off and could not be recovered
+  incompleteFiles: string[];
+  continuations: number;
+  // Combined result across the initial request and all continuations
+  result: GenerateResult;
+}
+
+export interface GenerationAttempt {
+  provider: LLMProvider;
+  model: string;
+  attempt: number;
+  success: boolean;
+  error?: string;
+  status?: number;
+  durationMs: number;
 }
 
 export interface GenerateResult {
@@ -24,6 +81,14 @@ export interface GenerateResult {
   };
   finishReason: string;
   durationMs: number;
+  // Estimated cost in USD, from MODEL_PRICING
+  costUsd?: number;
+  // Schema-validated files, when structured output was requested and matched
+  files?: GeneratedFileOutput[];
+  // Every provider call made to produce this result, including failures
+  attempts?: GenerationAttempt[];
+  // Served from the response cache without calling the provider
+  cacheHit?: boolean;
 }
 
 export interface LLMProviderInterface {
@@ -33,6 +98,11 @@ export interface LLMProviderInterface {
     messages: LLMMessage[],
     options?: GenerateOptions
   ): Promise<GenerateResult>;
+  generateStream(
+    messages: LLMMessage[],
+    callbacks: StreamCallbacks,
+    options?: GenerateOptions
+  ): Promise<GenerateResult>;
   isConfigured(): boolean;
 }
 
@@ -45,8 +115,45 @@ export interface StreamCallbacks {
 // Default models for each provider
 export const DEFAULT_MODELS: Record<LLMProvider, string> = {
   anthropic: "claude-sonnet-4-20250514",
-  openai: "gpt-4-turbo-preview",
-  gemini: "gemini-pro",
+  openai: "gpt-4o",
+  gemini: "gemini-1.5-pro",
+  // Overridden by OPENAI_COMPATIBLE_MODEL
+  "openai-compatible": "llama3.1",
+  mock: "mock-1",
+};
+
+// Price in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Known model prices. Dated or suffixed model names use the longest matching
+// prefix; unknown models are billed at their provider's default model price.
+export const MODEL_PRICING: Record<LLMProvider, Record<string, ModelPricing>> = {
+  anthropic: {
+    "claude-opus-4": { input: 15, output: 75 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+    "claude-3-5-sonnet": { input: 3, output: 15 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-3-haiku": { input: 0.25, output: 1.25 },
+  },
+  openai: {
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4-turbo": { input: 10, output: 30 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  },
+  gemini: {
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  },
+  // Self-hosted models have no per-token price
+  "openai-compatible": {},
+  mock: {},
 };
 
 // Max tokens defaults
@@ -54,4 +161,6 @@ export const DEFAULT_MAX_TOKENS: Record<LLMProvider, number> = {
   anthropic: 4096,
   openai: 4096,
   gemini: 2048,
+  "openai-compatible": 4096,
+  mock: 4096,
 };
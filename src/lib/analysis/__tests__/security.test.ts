@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  lintSecurity,
+  createSecurityReport,
+  findingsAtOrAbove,
+  getDeployBlockSeverity,
+} from '../security';
+
+function rules(path: string, content: string) {
+  return lintSecurity([{ path, content }]).map((finding) => `${finding.line}:${finding.rule}`);
+}
+
+describe('Security lint', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.DEPLOY_BLOCK_SEVERITY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should flag SQL built by concatenation or interpolation', () => {
+    expect(
+      rules(
+        'src/users.ts',
+        [
+          'db.query("SELECT * FROM users WHERE id = " + id);',
+          'db.query(`DELETE FROM users WHERE id = ${id}`);',
+          'db.query("SELECT * FROM users WHERE id = $1", [id]);',
+        ].join('\n')
+      )
+    ).toEqual(['1:sql-concatenation', '2:sql-concatenation']);
+  });
+
+  it('should flag eval but not methods named eval or comments', () => {
+    expect(rules('src/a.js', 'eval(input);\npage.evaluate(fn);\nredis.eval(script);\n// eval(x)')).toEqual(['1:eval']);
+  });
+
+  it('should flag disabled TLS verification in code and env files', () => {
+    expect(rules('src/http.ts', 'new https.Agent({ rejectUnauthorized: false });')).toEqual([
+      '1:tls-verification-disabled',
+    ]);
+    expect(rules('.env', 'NODE_TLS_REJECT_UNAUTHORIZED=0')).toEqual(['1:tls-verification-disabled']);
+  });
+
+  it('should flag wildcard CORS', () => {
+    expect(rules('src/server.js', "app.use(cors());\nres.setHeader('Access-Control-Allow-Origin', '*');")).toEqual([
+      '1:wildcard-cors',
+      '2:wildcard-cors',
+    ]);
+  });
+
+  it('should flag hardcoded JWT secrets and fallbacks', () => {
+    expect(
+      rules(
+        'src/auth.ts',
+        [
+          "jwt.sign(payload, 'super-secret');",
+          "const secret = process.env.JWT_SECRET || 'dev-secret';",
+          'jwt.sign(payload, process.env.JWT_SECRET);',
+        ].join('\n')
+      )
+    ).toEqual(['1:hardcoded-jwt-secret', '2:hardcoded-jwt-secret']);
+  });
+
+  it('should flag route handlers that read the body without validation', () => {
+    const handler = 'export async function POST(request: Request) {\n  const body = await request.json();\n}';
+
+    expect(rules('app/api/items/route.ts', handler)).toEqual(['2:missing-input-validation']);
+    expect(rules('app/api/items/route.ts', `${handler}\nconst data = schema.parse(body);`)).toEqual([]);
+    expect(rules('src/routes.js', "router.post('/items', (req, res) => save(req.body));")).toEqual([
+      '1:missing-input-validation',
+    ]);
+  });
+
+  it('should ignore files that are not source code', () => {
+    expect(rules('README.md', 'Never call eval(input) or use cors()')).toEqual([]);
+  });
+
+  it('should sort findings by severity and count them', () => {
+    const report = createSecurityReport([
+      { path: 'a.js', content: "app.use(cors());\njwt.sign(user, 'secret');" },
+    ]);
+
+    expect(report.findings.map((finding) => finding.severity)).toEqual(['critical', 'medium']);
+    expect(report.counts).toEqual({ low: 0, medium: 1, high: 0, critical: 1 });
+  });
+
+  it('should select findings at or above a severity', () => {
+    const findings = lintSecurity([{ path: 'a.js', content: "app.use(cors());\neval(code);" }]);
+
+    expect(findingsAtOrAbove(findings, 'high').map((finding) => finding.rule)).toEqual(['eval']);
+    expect(findingsAtOrAbove(findings, 'medium')).toHaveLength(2);
+  });
+
+  it('should read the deploy block severity from the environment', () => {
+    expect(getDeployBlockSeverity()).toBeNull();
+
+    process.env.DEPLOY_BLOCK_SEVERITY = 'critical';
+    expect(getDeployBlockSeverity()).toBe('critical');
+
+    process.env.DEPLOY_BLOCK_SEVERITY = 'none';
+    expect(getDeployBlockSeverity()).toBeNull();
+  });
+
+  it('should only let a requested block severity make the gate stricter', () => {
+    expect(getDeployBlockSeverity('high')).toBe('high');
+
+    process.env.DEPLOY_BLOCK_SEVERITY = 'medium';
+    expect(getDeployBlockSeverity('critical')).toBe('medium');
+    expect(getDeployBlockSeverity('low')).toBe('low');
+  });
+});
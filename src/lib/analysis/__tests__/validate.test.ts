@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateGeneratedFiles,
+  getUnsafePathReason,
+  formatDiagnostics,
+} from '../validate';
+
+const packageJson = {
+  path: 'package.json',
+  content: JSON.stringify({ name: 'app', dependencies: { express: '^4.0.0' } }),
+};
+
+function codes(files: { path: string; content: string }[]) {
+  return validateGeneratedFiles(files).diagnostics.map((d) => `${d.path}:${d.code}`);
+}
+
+describe('Generated file validation', () => {
+  describe('getUnsafePathReason', () => {
+    it('should accept relative paths inside the project', () => {
+      expect(getUnsafePathReason('src/index.ts')).toBeNull();
+      expect(getUnsafePathReason('.github/workflows/ci.yml')).toBeNull();
+    });
+
+    it('should reject absolute paths and parent segments', () => {
+      expect(getUnsafePathReason('/etc/passwd')).toMatch(/Absolute/);
+      expect(getUnsafePathReason('C:\\Windows\\x.txt')).toMatch(/Absolute/);
+      expect(getUnsafePathReason('src/../../secret')).toMatch(/'\.\.'/);
+    });
+  });
+
+  it('should pass a valid project', () => {
+    const report = validateGeneratedFiles([
+      packageJson,
+      { path: 'tsconfig.json', content: '{\n  // comment\n  "compilerOptions": { "strict": true, },\n}' },
+      { path: 'src/index.ts', content: "import express from 'express';\nimport { port } from './config.js';\nexpress().listen(port);" },
+      { path: 'src/config.ts', content: "import fs from 'node:fs';\nimport path from 'path';\nexport const port = 3000;" },
+      { path: 'docker-compose.yml', content: 'services:\n  app:\n    build: .\n' },
+    ]);
+
+    expect(report).toEqual({ valid: true, errorCount: 0, warningCount: 0, diagnostics: [] });
+  });
+
+  it('should report invalid JSON and package.json fields with a location', () => {
+    const report = validateGeneratedFiles([
+      { path: 'package.json', content: '{"name": "app", "dependencies": ["express"]}' },
+      { path: 'config/app.json', content: '{\n  "port": 3000,\n}' },
+    ]);
+
+    expect(report.diagnostics[0]).toMatchObject({ code: 'invalid-package-json', message: '"dependencies" must map names to strings' });
+    expect(report.diagnostics[1]).toMatchObject({ path: 'config/app.json', code: 'invalid-json', line: 3 });
+  });
+
+  it('should report YAML errors', () => {
+    const report = validateGeneratedFiles([{ path: 'ci.yaml', content: 'jobs:\n  build: [unclosed\n' }]);
+
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics[0].code).toBe('invalid-yaml');
+  });
+
+  it('should report syntax errors in TypeScript and JavaScript', () => {
+    const report = validateGeneratedFiles([
+      { path: 'src/a.ts', content: 'const x: number = ;\n' },
+      { path: 'src/b.jsx', content: 'export const App = () => <div>ok</div>;\n' },
+    ]);
+
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ path: 'src/a.ts', code: 'syntax', line: 1, column: 19 }),
+    ]);
+  });
+
+  it('should report imports that do not resolve', () => {
+    expect(
+      codes([
+        packageJson,
+        { path: 'src/index.ts', content: "import { db } from './db';\nimport lodash from 'lodash';\nimport type { Request } from 'express';" },
+      ])
+    ).toEqual(['src/index.ts:unresolved-import', 'src/index.ts:undeclared-dependency']);
+  });
+
+  it('should resolve index files, tsconfig paths and @types packages', () => {
+    expect(
+      codes([
+        { path: 'package.json', content: JSON.stringify({ devDependencies: { '@types/node-fetch': '^2.0.0' } }) },
+        { path: 'tsconfig.json', content: JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } }) },
+        { path: 'src/lib/index.ts', content: 'export const x = 1;' },
+        { path: 'src/app.tsx', content: "import { x } from '@/lib';\nimport './lib';\nimport fetch from 'node-fetch';" },
+      ])
+    ).toEqual([]);
+  });
+
+  it('should skip dependency checks without a package.json', () => {
+    expect(codes([{ path: 'main.js', content: "const lodash = require('lodash');" }])).toEqual([]);
+  });
+
+  it('should flag unsafe and duplicate paths', () => {
+    expect(
+      codes([
+        { path: '../outside.js', content: '' },
+        { path: 'a.md', content: '' },
+        { path: './a.md', content: '' },
+      ])
+    ).toEqual(['../outside.js:unsafe-path', './a.md:duplicate-path']);
+  });
+
+  it('should format diagnostics one per line', () => {
+    const { diagnostics } = validateGeneratedFiles([{ path: 'src/a.ts', content: 'const x = ;' }]);
+
+    expect(formatDiagnostics(diagnostics)).toBe('src/a.ts:1:11 - error syntax: Expression expected.');
+  });
+});
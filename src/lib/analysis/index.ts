@@ -0,0 +1,3 @@
+export * from "./validate";
+export * from "./secrets";
+export * from "./security";
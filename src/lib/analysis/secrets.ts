@@ -0,0 +1,319 @@
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+/**
+ * What happens to files with findings: `redact` replaces each secret with a
+ * placeholder, `block` refuses to save or deploy them, `off` skips the scan
+ */
+export type SecretScanMode = "redact" | "block" | "off";
+
+export interface SecretFinding {
+  path: string;
+  rule: string;
+  description: string;
+  line: number;
+  column: number;
+  // Offsets of the secret in the file content
+  start: number;
+  end: number;
+}
+
+export interface SecretScanOptions {
+  // Values of the project's environment variables, which must never appear
+  // in source
+  envValues?: string[];
+}
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  // Capture group holding the secret; the whole match when omitted
+  group?: number;
+  // Minimum Shannon entropy (bits per character) of the secret
+  minEntropy?: number;
+}
+
+/**
+ * Thrown when files with secrets are saved or deployed in block mode
+ */
+export class SecretLeakError extends Error {
+  constructor(public readonly findings: SecretFinding[]) {
+    super(
+      `Generated files contain ${findings.length} possible secret${findings.length === 1 ? "" : "s"}`
+    );
+    this.name = "SecretLeakError";
+  }
+}
+
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: "private-key",
+    description: "Private key",
+    pattern:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: "aws-access-key",
+    description: "AWS access key ID",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    id: "anthropic-api-key",
+    description: "Anthropic API key",
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: "openai-api-key",
+    description: "OpenAI API key",
+    pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+    minEntropy: 3.5,
+  },
+  {
+    id: "stripe-secret-key",
+    description: "Stripe secret key",
+    pattern: /\b[rs]k_live_[0-9a-zA-Z]{20,}\b/g,
+  },
+  {
+    id: "slack-token",
+    description: "Slack token",
+    pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}/g,
+  },
+  {
+    id: "google-api-key",
+    description: "Google API key",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    id: "jwt",
+    description: "JSON Web Token",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: "connection-string-password",
+    description: "Password in a connection string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"`]+:([^\s@/'"`]+)@/g,
+    group: 1,
+  },
+  {
+    id: "hardcoded-secret",
+    description: "High-entropy value assigned to a secret-like name",
+    pattern:
+      /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|private[_-]?key|access[_-]?key)[\w-]*["']?\s*[:=]\s*["'`]([^"'`\s]{16,})["'`]/gi,
+    group: 1,
+    minEntropy: 3.5,
+  },
+];
+
+// Values that are clearly placeholders rather than real credentials
+const PLACEHOLDER_PATTERN =
+  /^(\$\{|\$\(|<|\{\{|%)|process\.env|change[_-]?me|example|your[_-]|placeholder|dummy|redacted|x{4,}|\*{3,}|\.{3}/i;
+
+// Shorter environment values are too common to match reliably
+const MIN_ENV_VALUE_LENGTH = 8;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Get the scan mode from SECRET_SCAN_MODE (default `redact`)
+ */
+export function getSecretScanMode(): SecretScanMode {
+  const mode = process.env.SECRET_SCAN_MODE;
+  return mode === "block" || mode === "off" ? mode : "redact";
+}
+
+function toFinding(
+  file: GeneratedFileOutput,
+  rule: string,
+  description: string,
+  start: number,
+  secret: string
+): SecretFinding {
+  const before = file.content.slice(0, start);
+  return {
+    path: file.path,
+    rule,
+    description,
+    line: before.split("\n").length,
+    column: start - before.lastIndexOf("\n"),
+    start,
+    end: start + secret.length,
+  };
+}
+
+function scanFile(
+  file: GeneratedFileOutput,
+  envValues: string[]
+): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const rule of SECRET_RULES) {
+    for (const match of file.content.matchAll(rule.pattern)) {
+      const secret = match[rule.group ?? 0];
+      if (!secret || PLACEHOLDER_PATTERN.test(secret)) {
+        continue;
+      }
+      if (rule.minEntropy && shannonEntropy(secret) < rule.minEntropy) {
+        continue;
+      }
+
+      const offset = rule.group ? match[0].indexOf(secret) : 0;
+      findings.push(
+        toFinding(
+          file,
+          rule.id,
+          rule.description,
+          (match.index ?? 0) + offset,
+          secret
+        )
+      );
+    }
+  }
+
+  for (const value of envValues) {
+    let start = file.content.indexOf(value);
+    while (start >= 0) {
+      findings.push(
+        toFinding(
+          file,
+          "env-value",
+          "Value of a project environment variable",
+          start,
+          value
+        )
+      );
+      start = file.content.indexOf(value, start + value.length);
+    }
+  }
+
+  // A secret matched by several rules is reported once, by the first rule
+  return findings
+    .sort((a, b) => a.start - b.start)
+    .filter(
+      (finding, index, sorted) =>
+        index === 0 || finding.start >= sorted[index - 1].end
+    );
+}
+
+/**
+ * Scan file contents for credentials: known key formats, high-entropy
+ * values assigned to secret-like names, and the project's own environment
+ * variable values
+ */
+export function scanForSecrets(
+  files: GeneratedFileOutput[],
+  options?: SecretScanOptions
+): SecretFinding[] {
+  const envValues = [...new Set(options?.envValues ?? [])].filter(
+    (value) => value.length >= MIN_ENV_VALUE_LENGTH
+  );
+
+  return files.flatMap((file) => scanFile(file, envValues));
+}
+
+/**
+ * Replace every finding with a `[REDACTED:<rule>]` placeholder
+ */
+export function redactSecrets(
+  files: GeneratedFileOutput[],
+  findings: SecretFinding[]
+): GeneratedFileOutput[] {
+  return files.map((file) => {
+    const inFile = findings
+      .filter((finding) => finding.path === file.path)
+      .sort((a, b) => b.start - a.start);
+    if (inFile.length === 0) {
+      return file;
+    }
+
+    let content = file.content;
+    for (const finding of inFile) {
+      content =
+        content.slice(0, finding.start) +
+        `[REDACTED:${finding.rule}]` +
+        content.slice(finding.end);
+    }
+    return { ...file, content };
+  });
+}
+
+export interface SecretProtection {
+  // Redacted files, or the original files when blocked or scanning is off
+  files: GeneratedFileOutput[];
+  findings: SecretFinding[];
+  mode: SecretScanMode;
+  // True in block mode when anything was found; the files must not be used
+  blocked: boolean;
+}
+
+/**
+ * Scan files and apply the configured mode. Callers audit the findings and
+ * throw a SecretLeakError when the result is blocked.
+ */
+export function protectSecrets(
+  files: GeneratedFileOutput[],
+  options?: SecretScanOptions & { mode?: SecretScanMode }
+): SecretProtection {
+  const mode = options?.mode ?? getSecretScanMode();
+  if (mode === "off") {
+    return { files, findings: [], mode, blocked: false };
+  }
+
+  const findings = scanForSecrets(files, options);
+  const blocked = mode === "block" && findings.length > 0;
+
+  return {
+    files: blocked ? files : redactSecrets(files, findings),
+    findings,
+    mode,
+    blocked,
+  };
+}
+
+/**
+ * Redact partial output that is sent or saved before the generation has
+ * finished. Block mode redacts too; the final scan decides whether the
+ * generation is refused.
+ */
+export function redactPartialFiles(
+  files: GeneratedFileOutput[],
+  options?: SecretScanOptions & { mode?: SecretScanMode }
+): GeneratedFileOutput[] {
+  if ((options?.mode ?? getSecretScanMode()) === "off") {
+    return files;
+  }
+  return redactSecrets(files, scanForSecrets(files, options));
+}
+
+/**
+ * Findings without offsets, for audit logs and API responses
+ */
+export function summarizeFindings(
+  findings: SecretFinding[]
+): Pick<SecretFinding, "path" | "rule" | "line" | "column">[] {
+  return findings.map(({ path, rule, line, column }) => ({
+    path,
+    rule,
+    line,
+    column,
+  }));
+}
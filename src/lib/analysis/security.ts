@@ -0,0 +1,241 @@
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+export type SecuritySeverity = "low" | "medium" | "high" | "critical";
+
+export const SECURITY_SEVERITIES: SecuritySeverity[] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+export interface SecurityFinding {
+  path: string;
+  rule: string;
+  severity: SecuritySeverity;
+  // OWASP Top 10 (2021) category
+  owasp: string;
+  message: string;
+  line: number;
+}
+
+export interface SecurityRule {
+  id: string;
+  severity: SecuritySeverity;
+  owasp: string;
+  message: string;
+  // Files the rule applies to; source files when omitted
+  files?: RegExp;
+  // Matched against each line that is not a comment
+  pattern?: RegExp;
+  // Whole-file check returning the 1-based lines to report
+  check?: (content: string) => number[];
+}
+
+export interface SecurityReport {
+  findings: SecurityFinding[];
+  counts: Record<SecuritySeverity, number>;
+}
+
+const SOURCE_FILES = /\.(m?[jt]sx?|c[jt]s|py|rb|php|go|java|kt|cs)$/;
+
+// Request bodies read by route handlers
+const BODY_ACCESS = /\b(?:req|request)\.(?:json\(\)|body\b|formData\(\))/;
+
+// Validation libraries and idioms that count as checking a request body
+const BODY_VALIDATION =
+  /\.(?:safe)?[pP]arse(?:Async)?\(|\bvalidate(?:Sync)?\(|\bcelebrate\(|\bcheck(?:Schema)?\(|\bvalidationResult\(|\bplainToInstance\(|\bajv\b|\bjoi\b|\byup\b/i;
+
+/**
+ * Route handlers that read a request body without validating it: Next.js
+ * route files exporting POST/PUT/PATCH, and Express-style `.post()` routes
+ */
+function findUnvalidatedBodies(content: string): number[] {
+  const isHandler =
+    /export\s+(?:async\s+)?(?:function|const)\s+(?:POST|PUT|PATCH)\b/.test(
+      content
+    ) || /\.(?:post|put|patch)\(\s*["'`]/.test(content);
+
+  if (!isHandler || BODY_VALIDATION.test(content)) {
+    return [];
+  }
+
+  const line = content.split("\n").findIndex((text) => BODY_ACCESS.test(text));
+  return line >= 0 ? [line + 1] : [];
+}
+
+export const SECURITY_RULES: SecurityRule[] = [
+  {
+    id: "sql-concatenation",
+    severity: "high",
+    owasp: "A03:2021 Injection",
+    message:
+      "SQL built by string concatenation or interpolation; use parameterized queries",
+    pattern:
+      /(["'`])\s*(?:SELECT\b[^"'`]*\bFROM|INSERT\s+INTO|UPDATE\b[^"'`]*\bSET|DELETE\s+FROM)\b[^"'`]*(?:\1\s*\+|\$\{)|\$(?:query|execute)RawUnsafe\(/i,
+  },
+  {
+    id: "eval",
+    severity: "high",
+    owasp: "A03:2021 Injection",
+    message: "Dynamic code execution with eval or the Function constructor",
+    pattern: /(?:^|[^\w.])eval\s*\(|\bnew\s+Function\s*\(/,
+  },
+  {
+    id: "command-injection",
+    severity: "high",
+    owasp: "A03:2021 Injection",
+    message: "Shell command built from interpolated values; use execFile with arguments",
+    pattern: /\bexec(?:Sync)?\s*\(\s*`[^`]*\$\{|\bos\.system\s*\(\s*f["']/,
+  },
+  {
+    id: "tls-verification-disabled",
+    severity: "high",
+    owasp: "A02:2021 Cryptographic Failures",
+    message: "TLS certificate verification is disabled",
+    files: /(\.(m?[jt]sx?|c[jt]s|py|rb|php|go|java|kt|cs|ya?ml)|(^|\/)(\.env[^/]*|Dockerfile))$/,
+    pattern:
+      /rejectUnauthorized["']?\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED["']?\s*[:=]\s*["']?0|\bverify\s*=\s*False\b|InsecureSkipVerify:\s*true|strictSSL["']?\s*:\s*false/,
+  },
+  {
+    id: "wildcard-cors",
+    severity: "medium",
+    owasp: "A05:2021 Security Misconfiguration",
+    message: "CORS allows every origin",
+    pattern:
+      /Access-Control-Allow-Origin["']?\s*[,:]\s*["']\*["']|\borigin\s*:\s*["']\*["']|\bcors\(\s*\)|allow_origins\s*=\s*\[\s*["']\*["']\s*\]/,
+  },
+  {
+    id: "hardcoded-jwt-secret",
+    severity: "critical",
+    owasp: "A07:2021 Identification and Authentication Failures",
+    message: "JWT secret is hardcoded instead of read from the environment",
+    pattern:
+      /\bjwt\.(?:sign|verify)\s*\([^,]+,\s*["'`][^"'`]+["'`]|\b(?:jwt_?secret|secretOrKey)\b["']?\s*[:=]\s*["'`][^"'`]+["'`]|process\.env\.\w*(?:JWT|SECRET)\w*\s*(?:\|\||\?\?)\s*["'`]/i,
+  },
+  {
+    id: "unsafe-html",
+    severity: "medium",
+    owasp: "A03:2021 Injection",
+    message: "HTML inserted without escaping; sanitize it or render text instead",
+    pattern: /dangerouslySetInnerHTML|\.innerHTML\s*=(?!=)|\bv-html\b/,
+  },
+  {
+    id: "weak-password-hash",
+    severity: "medium",
+    owasp: "A02:2021 Cryptographic Failures",
+    message: "MD5 or SHA-1 used near a password; use bcrypt, scrypt or argon2",
+    pattern: /createHash\(\s*["'](?:md5|sha1)["']\s*\)[^\n]*passw|passw[^\n]*createHash\(\s*["'](?:md5|sha1)["']\s*\)/i,
+  },
+  {
+    id: "missing-input-validation",
+    severity: "medium",
+    owasp: "A04:2021 Insecure Design",
+    message: "Route handler reads the request body without validating it",
+    files: /\.(m?[jt]sx?|c[jt]s)$/,
+    check: findUnvalidatedBodies,
+  },
+];
+
+function isComment(line: string): boolean {
+  return /^\s*(\/\/|\/?\*|#(?!!))/.test(line);
+}
+
+/**
+ * Run the security rules over generated files
+ */
+export function lintSecurity(
+  files: GeneratedFileOutput[],
+  rules: SecurityRule[] = SECURITY_RULES
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+
+  for (const file of files) {
+    const lines = file.content.split("\n");
+
+    for (const rule of rules) {
+      if (!(rule.files ?? SOURCE_FILES).test(file.path)) {
+        continue;
+      }
+
+      const matched = rule.check
+        ? rule.check(file.content)
+        : lines.flatMap((line, index) =>
+            rule.pattern && !isComment(line) && rule.pattern.test(line)
+              ? [index + 1]
+              : []
+          );
+
+      for (const line of matched) {
+        findings.push({
+          path: file.path,
+          rule: rule.id,
+          severity: rule.severity,
+          owasp: rule.owasp,
+          message: rule.message,
+          line,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+export function compareSeverity(
+  a: SecuritySeverity,
+  b: SecuritySeverity
+): number {
+  return SECURITY_SEVERITIES.indexOf(a) - SECURITY_SEVERITIES.indexOf(b);
+}
+
+/**
+ * Findings at or above a severity
+ */
+export function findingsAtOrAbove(
+  findings: SecurityFinding[],
+  severity: SecuritySeverity
+): SecurityFinding[] {
+  return findings.filter(
+    (finding) => compareSeverity(finding.severity, severity) >= 0
+  );
+}
+
+/**
+ * Lint files and count the findings per severity, most severe first
+ */
+export function createSecurityReport(
+  files: GeneratedFileOutput[]
+): SecurityReport {
+  const findings = lintSecurity(files).sort(
+    (a, b) => compareSeverity(b.severity, a.severity)
+  );
+
+  const counts = { low: 0, medium: 0, high: 0, critical: 0 };
+  for (const finding of findings) {
+    counts[finding.severity] += 1;
+  }
+
+  return { findings, counts };
+}
+
+/**
+ * Lowest severity that blocks a deployment, from DEPLOY_BLOCK_SEVERITY
+ * (default `none`: findings are reported but never block). A requested
+ * severity can only make the gate stricter.
+ */
+export function getDeployBlockSeverity(
+  requested?: SecuritySeverity | null
+): SecuritySeverity | null {
+  const value = process.env.DEPLOY_BLOCK_SEVERITY?.trim().toLowerCase();
+  const configured = SECURITY_SEVERITIES.includes(value as SecuritySeverity)
+    ? (value as SecuritySeverity)
+    : null;
+
+  if (!requested) {
+    return configured;
+  }
+  return configured && compareSeverity(configured, requested) < 0
+    ? configured
+    : requested;
+}
@@ -0,0 +1,527 @@
+import { builtinModules } from "module";
+import { posix } from "path";
+import * as ts from "typescript";
+import { parseAllDocuments } from "yaml";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "unsafe-path"
+  | "duplicate-path"
+  | "invalid-json"
+  | "invalid-yaml"
+  | "invalid-package-json"
+  | "syntax"
+  | "unresolved-import"
+  | "undeclared-dependency";
+
+/**
+ * A problem found in a generated file. Lines and columns are 1-based.
+ */
+export interface FileDiagnostic {
+  path: string;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ValidationReport {
+  // True when no diagnostic is an error
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: FileDiagnostic[];
+}
+
+const SCRIPT_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+// Extensions tried, in order, when an import leaves the extension out
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, ".d.ts", ".json"];
+
+const DEPENDENCY_FIELDS = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Why a generated file path is unsafe to write, or null when it is safe.
+ * Paths must be relative and stay inside the project directory.
+ */
+export function getUnsafePathReason(path: string): string | null {
+  if (path.includes("\0")) {
+    return "Path contains a null byte";
+  }
+  if (/^([a-zA-Z]:)?[/\\]/.test(path) || path.startsWith("~")) {
+    return "Absolute paths are not allowed";
+  }
+  if (path.split(/[/\\]/).includes("..")) {
+    return "Paths may not contain '..' segments";
+  }
+  return null;
+}
+
+export function isSafePath(path: string): boolean {
+  return getUnsafePathReason(path) === null;
+}
+
+function isScriptFile(path: string): boolean {
+  return SCRIPT_EXTENSIONS.some((extension) => path.endsWith(extension));
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+function getLocation(
+  content: string,
+  position: number
+): { line: number; column: number } {
+  const before = content.slice(0, position);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: position - lineStart + 1,
+  };
+}
+
+function flattenMessage(message: string | ts.DiagnosticMessageChain): string {
+  return ts.flattenDiagnosticMessageText(message, "\n");
+}
+
+/**
+ * Check that every path is relative, inside the project and unique
+ */
+function checkPaths(files: GeneratedFileOutput[]): FileDiagnostic[] {
+  const diagnostics: FileDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const reason = getUnsafePathReason(file.path);
+    if (reason) {
+      diagnostics.push({
+        path: file.path,
+        severity: "error",
+        code: "unsafe-path",
+        message: `${reason}; the file was not saved`,
+      });
+    }
+
+    const normalized = posix.normalize(file.path);
+    if (seen.has(normalized)) {
+      diagnostics.push({
+        path: file.path,
+        severity: "warning",
+        code: "duplicate-path",
+        message: "File was generated more than once",
+      });
+    }
+    seen.add(normalized);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse a JSON file. tsconfig and jsconfig files may contain comments and
+ * trailing commas, so they are read with the TypeScript config parser.
+ */
+function checkJson(file: GeneratedFileOutput): FileDiagnostic[] {
+  const name = posix.basename(file.path);
+
+  if (/^(tsconfig|jsconfig)(\..+)?\.json$/.test(name)) {
+    const { error } = ts.parseConfigFileTextToJson(file.path, file.content);
+    if (!error) {
+      return [];
+    }
+    return [
+      {
+        path: file.path,
+        severity: "error",
+        code: "invalid-json",
+        message: flattenMessage(error.messageText),
+        ...(error.start !== undefined && getLocation(file.content, error.start)),
+      },
+    ];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(file.content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/position (\d+)/);
+    return [
+      {
+        path: file.path,
+        severity: "error",
+        code: "invalid-json",
+        message,
+        ...(position && getLocation(file.content, Number(position[1]))),
+      },
+    ];
+  }
+
+  return name === "package.json" ? checkPackageJson(file.path, parsed) : [];
+}
+
+/**
+ * Check the fields of package.json that installs depend on
+ */
+function checkPackageJson(path: string, manifest: unknown): FileDiagnostic[] {
+  const invalid = (message: string): FileDiagnostic => ({
+    path,
+    severity: "error",
+    code: "invalid-package-json",
+    message,
+  });
+
+  if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+    return [invalid("package.json must contain an object")];
+  }
+
+  const fields = manifest as Record<string, unknown>;
+  const diagnostics: FileDiagnostic[] = [];
+
+  if (fields.name !== undefined && typeof fields.name !== "string") {
+    diagnostics.push(invalid('"name" must be a string'));
+  }
+
+  for (const field of [...DEPENDENCY_FIELDS, "scripts"]) {
+    const value = fields[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      !value ||
+      typeof value !== "object" ||
+      Array.isArray(value) ||
+      Object.values(value).some((entry) => typeof entry !== "string")
+    ) {
+      diagnostics.push(invalid(`"${field}" must map names to strings`));
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkYaml(file: GeneratedFileOutput): FileDiagnostic[] {
+  const diagnostics: FileDiagnostic[] = [];
+
+  for (const document of parseAllDocuments(file.content)) {
+    for (const error of document.errors) {
+      const position = error.linePos?.[0];
+      diagnostics.push({
+        path: file.path,
+        severity: "error",
+        code: "invalid-yaml",
+        message: error.message.split("\n")[0],
+        ...(position && { line: position.line, column: position.col }),
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Syntax-check a TypeScript or JavaScript file with the compiler
+ */
+function checkSyntax(file: GeneratedFileOutput): FileDiagnostic[] {
+  const output = ts.transpileModule(file.content, {
+    fileName: file.path,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.Preserve,
+    },
+  });
+
+  return (output.diagnostics ?? [])
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map((diagnostic) => ({
+      path: file.path,
+      severity: "error" as const,
+      code: "syntax" as const,
+      message: flattenMessage(diagnostic.messageText),
+      ...(diagnostic.start !== undefined &&
+        getLocation(file.content, diagnostic.start)),
+    }));
+}
+
+interface PathAliases {
+  // Directory that alias targets and non-relative imports resolve from
+  baseDir: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Read `baseUrl` and `paths` from the generated tsconfig/jsconfig files
+ */
+function getPathAliases(files: GeneratedFileOutput[]): PathAliases[] {
+  const aliases: PathAliases[] = [];
+
+  for (const file of files) {
+    if (!/(^|\/)(tsconfig|jsconfig)\.json$/.test(file.path)) {
+      continue;
+    }
+
+    const { config } = ts.parseConfigFileTextToJson(file.path, file.content);
+    const options = config?.compilerOptions;
+    if (!options || (!options.baseUrl && !options.paths)) {
+      continue;
+    }
+
+    aliases.push({
+      baseDir: posix.join(posix.dirname(file.path), options.baseUrl ?? "."),
+      paths: options.paths ?? {},
+    });
+  }
+
+  return aliases;
+}
+
+/**
+ * Names of every package declared in the generated package.json files.
+ * Returns null when the project has no package.json to check against.
+ */
+function getDeclaredPackages(files: GeneratedFileOutput[]): Set<string> | null {
+  const manifests = files.filter(
+    (file) => posix.basename(file.path) === "package.json"
+  );
+  if (manifests.length === 0) {
+    return null;
+  }
+
+  const packages = new Set<string>();
+  for (const manifest of manifests) {
+    try {
+      const fields = JSON.parse(manifest.content) as Record<string, unknown>;
+      if (typeof fields.name === "string") {
+        packages.add(fields.name);
+      }
+      for (const field of DEPENDENCY_FIELDS) {
+        const dependencies = fields[field];
+        if (dependencies && typeof dependencies === "object") {
+          Object.keys(dependencies).forEach((name) => packages.add(name));
+        }
+      }
+    } catch {
+      // Reported by checkJson
+    }
+  }
+  return packages;
+}
+
+/**
+ * Whether a project-relative module path matches a generated file, trying
+ * the usual extensions and index files. ESM-style `.js` imports of
+ * TypeScript sources are accepted too.
+ */
+function resolvesToFile(target: string, paths: Set<string>): boolean {
+  const base = posix.normalize(target).replace(/\/$/, "");
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((extension) => base + extension),
+    ...RESOLVE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ];
+
+  const withoutJs = base.replace(/\.(m|c)?jsx?$/, "");
+  if (withoutJs !== base) {
+    candidates.push(
+      ...[".ts", ".tsx", ".mts", ".cts"].map((extension) => withoutJs + extension)
+    );
+  }
+
+  return candidates.some((candidate) => paths.has(candidate));
+}
+
+/**
+ * Try to resolve a non-relative import through tsconfig `paths` or `baseUrl`
+ */
+function resolvesThroughAliases(
+  specifier: string,
+  aliases: PathAliases[],
+  paths: Set<string>
+): boolean {
+  for (const { baseDir, paths: patterns } of aliases) {
+    for (const [pattern, targets] of Object.entries(patterns)) {
+      const [prefix, suffix = ""] = pattern.split("*");
+      const wildcard = pattern.includes("*");
+      const matches = wildcard
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix)
+        : specifier === pattern;
+      if (!matches) {
+        continue;
+      }
+
+      const captured = wildcard
+        ? specifier.slice(prefix.length, specifier.length - suffix.length)
+        : "";
+      if (
+        targets.some((target) =>
+          resolvesToFile(
+            posix.join(baseDir, target.replace("*", captured)),
+            paths
+          )
+        )
+      ) {
+        return true;
+      }
+    }
+
+    if (resolvesToFile(posix.join(baseDir, specifier), paths)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Package name of a bare import: `lodash/fp` → `lodash`,
+ * `@scope/pkg/sub` → `@scope/pkg`
+ */
+function getPackageName(specifier: string): string {
+  const segments = specifier.split("/");
+  return specifier.startsWith("@")
+    ? segments.slice(0, 2).join("/")
+    : segments[0];
+}
+
+function isDeclared(name: string, packages: Set<string>): boolean {
+  const typesName = name.startsWith("@")
+    ? `@types/${name.slice(1).replace("/", "__")}`
+    : `@types/${name}`;
+  return packages.has(name) || packages.has(typesName);
+}
+
+/**
+ * Check that the imports of a script resolve to generated files or to
+ * packages declared in package.json
+ */
+function checkImports(
+  file: GeneratedFileOutput,
+  paths: Set<string>,
+  aliases: PathAliases[],
+  packages: Set<string> | null
+): FileDiagnostic[] {
+  const diagnostics: FileDiagnostic[] = [];
+  const { importedFiles } = ts.preProcessFile(file.content, true, true);
+
+  for (const { fileName, pos } of importedFiles) {
+    // Bundler queries and hashes (`./icon.svg?react`) are not part of the path
+    const specifier = fileName.replace(/[?#].*$/, "");
+    const location = getLocation(file.content, pos);
+
+    if (specifier.startsWith(".")) {
+      const target = posix.join(posix.dirname(file.path), specifier);
+      if (!resolvesToFile(target, paths)) {
+        diagnostics.push({
+          path: file.path,
+          severity: "error",
+          code: "unresolved-import",
+          message: `Cannot find module '${fileName}' among the generated files`,
+          ...location,
+        });
+      }
+      continue;
+    }
+
+    // URLs, `node:` and other schemes, and absolute paths are left alone
+    if (
+      !specifier ||
+      specifier.startsWith("/") ||
+      /^[a-z][\w+.-]*:/i.test(specifier)
+    ) {
+      continue;
+    }
+
+    if (resolvesThroughAliases(specifier, aliases, paths)) {
+      continue;
+    }
+
+    const name = getPackageName(specifier);
+    if (BUILTIN_MODULES.has(name) || BUILTIN_MODULES.has(specifier)) {
+      continue;
+    }
+
+    if (packages && !isDeclared(name, packages)) {
+      diagnostics.push({
+        path: file.path,
+        severity: "error",
+        code: "undeclared-dependency",
+        message: `Package '${name}' is imported but not declared in package.json`,
+        ...location,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Statically validate generated files: safe paths, parseable JSON and YAML,
+ * TypeScript/JavaScript syntax, and imports that resolve to generated files
+ * or declared dependencies. Nothing is executed.
+ */
+export function validateGeneratedFiles(
+  files: GeneratedFileOutput[]
+): ValidationReport {
+  const safeFiles = files.filter((file) => isSafePath(file.path));
+  const paths = new Set(safeFiles.map((file) => posix.normalize(file.path)));
+  const aliases = getPathAliases(safeFiles);
+  const packages = getDeclaredPackages(safeFiles);
+
+  const diagnostics = checkPaths(files);
+
+  for (const file of safeFiles) {
+    if (file.path.endsWith(".json")) {
+      diagnostics.push(...checkJson(file));
+    } else if (/\.ya?ml$/.test(file.path)) {
+      diagnostics.push(...checkYaml(file));
+    } else if (isScriptFile(file.path)) {
+      diagnostics.push(...checkSyntax(file));
+      diagnostics.push(...checkImports(file, paths, aliases, packages));
+    }
+  }
+
+  const errorCount = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  ).length;
+
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
+
+/**
+ * Format diagnostics as `path:line:column - message` lines
+ */
+export function formatDiagnostics(diagnostics: FileDiagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) => {
+      const location = diagnostic.line
+        ? `:${diagnostic.line}:${diagnostic.column ?? 1}`
+        : "";
+      return `${diagnostic.path}${location} - ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+    })
+    .join("\n");
+}
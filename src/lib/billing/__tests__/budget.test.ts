@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getRoleBudget, getMonthStart, getBudgetStatus } from '../budget';
+import { db } from '@/lib/db';
+
+const mockDb = vi.mocked(db, true);
+
+describe('Generation budgets', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.MONTHLY_BUDGET_USD_USER;
+    delete process.env.MONTHLY_BUDGET_USD_ADMIN;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getRoleBudget', () => {
+    it('should use the defaults when no environment value is set', () => {
+      expect(getRoleBudget('USER')).toBe(50);
+      expect(getRoleBudget('ADMIN')).toBeNull();
+    });
+
+    it('should read budgets from the environment', () => {
+      process.env.MONTHLY_BUDGET_USD_USER = '10';
+      process.env.MONTHLY_BUDGET_USD_ADMIN = '200';
+
+      expect(getRoleBudget('USER')).toBe(10);
+      expect(getRoleBudget('ADMIN')).toBe(200);
+    });
+
+    it('should remove the limit for an empty environment value', () => {
+      process.env.MONTHLY_BUDGET_USD_USER = '';
+
+      expect(getRoleBudget('USER')).toBeNull();
+    });
+  });
+
+  describe('getMonthStart', () => {
+    it('should return the first day of the month in UTC', () => {
+      expect(getMonthStart(new Date('2025-03-17T12:30:00Z')).toISOString()).toBe(
+        '2025-03-01T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('getBudgetStatus', () => {
+    it('should compare this month\'s spend with the role budget', async () => {
+      mockDb.user.findUnique.mockResolvedValue({ role: 'USER', monthlyBudgetUsd: null } as never);
+      mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: 12.5 } } as never);
+
+      const status = await getBudgetStatus('user-1');
+
+      expect(status).toEqual({
+        budgetUsd: 50,
+        spentUsd: 12.5,
+        remainingUsd: 37.5,
+        exceeded: false,
+      });
+      expect(mockDb.codeGeneration.aggregate).toHaveBeenCalledWith({
+        where: {
+          project: { ownerId: 'user-1' },
+          createdAt: { gte: getMonthStart() },
+        },
+        _sum: { costUsd: true },
+      });
+    });
+
+    it('should prefer the per-user override', async () => {
+      mockDb.user.findUnique.mockResolvedValue({ role: 'USER', monthlyBudgetUsd: 5 } as never);
+      mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: 5 } } as never);
+
+      const status = await getBudgetStatus('user-1');
+
+      expect(status.exceeded).toBe(true);
+      expect(status.remainingUsd).toBe(0);
+    });
+
+    it('should never be exceeded without a limit', async () => {
+      mockDb.user.findUnique.mockResolvedValue({ role: 'ADMIN', monthlyBudgetUsd: null } as never);
+      mockDb.codeGeneration.aggregate.mockResolvedValue({ _sum: { costUsd: null } } as never);
+
+      const status = await getBudgetStatus('admin-1');
+
+      expect(status).toEqual({
+        budgetUsd: null,
+        spentUsd: 0,
+        remainingUsd: null,
+        exceeded: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getUsageSummary } from '../usage';
+import { db } from '@/lib/db';
+
+const mockDb = vi.mocked(db, true);
+
+describe('getUsageSummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should total spend by model and by project', async () => {
+    mockDb.codeGeneration.findMany.mockResolvedValue([
+      {
+        projectId: 'proj-1',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        costUsd: 0.5,
+        tokenUsage: { inputTokens: 100, outputTokens: 50 },
+        project: { name: 'Shop' },
+      },
+      {
+        projectId: 'proj-2',
+        provider: 'openai',
+        model: 'gpt-4o',
+        costUsd: 2,
+        tokenUsage: { inputTokens: 300, outputTokens: 200 },
+        project: { name: 'Blog' },
+      },
+      {
+        projectId: 'proj-1',
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-20250514',
+        costUsd: null,
+        tokenUsage: null,
+        project: { name: 'Shop' },
+      },
+    ] as never);
+
+    const from = new Date('2025-03-01T00:00:00Z');
+    const to = new Date('2025-04-01T00:00:00Z');
+    const summary = await getUsageSummary('user-1', from, to);
+
+    expect(mockDb.codeGeneration.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { project: { ownerId: 'user-1' }, createdAt: { gte: from, lt: to } },
+      })
+    );
+    expect(summary.totals).toEqual({
+      costUsd: 2.5,
+      inputTokens: 400,
+      outputTokens: 250,
+      generations: 3,
+    });
+    expect(summary.byModel.map((m) => [m.model, m.costUsd, m.generations])).toEqual([
+      ['gpt-4o', 2, 1],
+      ['claude-sonnet-4-20250514', 0.5, 2],
+    ]);
+    expect(summary.byProject.map((p) => [p.projectName, p.costUsd])).toEqual([
+      ['Blog', 2],
+      ['Shop', 0.5],
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { db } from "@/lib/db";
+import { Role } from "@prisma/client";
+
+// Monthly generation budgets in USD per role; null means unlimited
+export const DEFAULT_MONTHLY_BUDGETS: Record<Role, number | null> = {
+  USER: 50,
+  ADMIN: null,
+  ENTERPRISE_ADMIN: null,
+};
+
+const BUDGET_ENV_VARS: Record<Role, string> = {
+  USER: "MONTHLY_BUDGET_USD_USER",
+  ADMIN: "MONTHLY_BUDGET_USD_ADMIN",
+  ENTERPRISE_ADMIN: "MONTHLY_BUDGET_USD_ENTERPRISE_ADMIN",
+};
+
+export interface BudgetStatus {
+  budgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+/**
+ * Get the monthly budget for a role from the environment or the defaults.
+ * An empty environment value removes the limit.
+ */
+export function getRoleBudget(role: Role): number | null {
+  const value = process.env[BUDGET_ENV_VARS[role]];
+  if (value === undefined) {
+    return DEFAULT_MONTHLY_BUDGETS[role];
+  }
+  if (value.trim() === "") {
+    return null;
+  }
+
+  const budget = Number(value);
+  return Number.isFinite(budget) ? budget : DEFAULT_MONTHLY_BUDGETS[role];
+}
+
+/**
+ * Start of the calendar month (UTC) containing the given date
+ */
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Total generation cost across a user's projects since the given date
+ */
+export async function getSpendSince(userId: string, since: Date): Promise<number> {
+  const result = await db.codeGeneration.aggregate({
+    where: {
+      project: { ownerId: userId },
+      createdAt: { gte: since },
+    },
+    _sum: { costUsd: true },
+  });
+
+  return result._sum.costUsd ?? 0;
+}
+
+/**
+ * Check a user's spend this month against their budget.
+ * A per-user override takes precedence over the role budget.
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true, monthlyBudgetUsd: true },
+  });
+
+  const budgetUsd =
+    user?.monthlyBudgetUsd ?? getRoleBudget(user?.role ?? "USER");
+  const spentUsd = await getSpendSince(userId, getMonthStart());
+
+  return {
+    budgetUsd,
+    spentUsd,
+    remainingUsd: budgetUsd === null ? null : Math.max(0, budgetUsd - spentUsd),
+    exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+  };
+}
@@ -0,0 +1,102 @@
+import { db } from "@/lib/db";
+
+export interface UsageTotals {
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  generations: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  provider: string;
+  model: string;
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectId: string;
+  projectName: string;
+}
+
+export interface UsageSummary {
+  from: Date;
+  to: Date;
+  totals: UsageTotals;
+  byModel: ModelUsage[];
+  byProject: ProjectUsage[];
+}
+
+type TokenCounts = { inputTokens?: number; outputTokens?: number };
+
+function emptyTotals(): UsageTotals {
+  return { costUsd: 0, inputTokens: 0, outputTokens: 0, generations: 0 };
+}
+
+/**
+ * Total generation spend and tokens for a user's projects in a period,
+ * broken down by model and by project (most expensive first)
+ */
+export async function getUsageSummary(
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<UsageSummary> {
+  const generations = await db.codeGeneration.findMany({
+    where: {
+      project: { ownerId: userId },
+      createdAt: { gte: from, lt: to },
+    },
+    select: {
+      projectId: true,
+      provider: true,
+      model: true,
+      costUsd: true,
+      tokenUsage: true,
+      repairTokenUsage: true,
+      project: { select: { name: true } },
+    },
+  });
+
+  const totals = emptyTotals();
+  const byModel = new Map<string, ModelUsage>();
+  const byProject = new Map<string, ProjectUsage>();
+
+  for (const generation of generations) {
+    const usage = generation.tokenUsage as TokenCounts | null;
+    const repairUsage = generation.repairTokenUsage as TokenCounts | null;
+    const provider = generation.provider ?? "unknown";
+
+    const modelKey = `${provider}:${generation.model}`;
+    const modelUsage = byModel.get(modelKey) ?? {
+      provider,
+      model: generation.model,
+      ...emptyTotals(),
+    };
+    byModel.set(modelKey, modelUsage);
+
+    const projectUsage = byProject.get(generation.projectId) ?? {
+      projectId: generation.projectId,
+      projectName: generation.project.name,
+      ...emptyTotals(),
+    };
+    byProject.set(generation.projectId, projectUsage);
+
+    for (const entry of [totals, modelUsage, projectUsage]) {
+      entry.costUsd += generation.costUsd ?? 0;
+      entry.inputTokens +=
+        (usage?.inputTokens ?? 0) + (repairUsage?.inputTokens ?? 0);
+      entry.outputTokens +=
+        (usage?.outputTokens ?? 0) + (repairUsage?.outputTokens ?? 0);
+      entry.generations += 1;
+    }
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+  return {
+    from,
+    to,
+    totals,
+    byModel: [...byModel.values()].sort(byCost),
+    byProject: [...byProject.values()].sort(byCost),
+  };
+}
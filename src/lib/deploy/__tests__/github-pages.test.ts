@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { deployToGitHubPages } from '../github-pages';
+
+const octokit = vi.hoisted(() => ({
+  users: { getAuthenticated: vi.fn() },
+  repos: {
+    getPages: vi.fn(),
+    createPagesSite: vi.fn(),
+    updateInformationAboutPagesSite: vi.fn(),
+    getLatestPagesBuild: vi.fn(),
+  },
+}));
+
+const git = vi.hoisted(() => ({
+  init: vi.fn(),
+  checkoutLocalBranch: vi.fn(),
+  addConfig: vi.fn(),
+  add: vi.fn(),
+  commit: vi.fn(),
+  addRemote: vi.fn(),
+  push: vi.fn(),
+  log: vi.fn(),
+}));
+
+vi.mock('@octokit/rest', () => ({
+  Octokit: class {
+    users = octokit.users;
+    repos = octokit.repos;
+  },
+}));
+vi.mock('simple-git', () => ({ default: () => git }));
+
+const notFound = Object.assign(new Error('Not Found'), { status: 404 });
+const pagesSite = { html_url: 'https://acme.github.io/todo/', url: 'https://api.github.com/repos/acme/todo/pages', status: 'built', source: { branch: 'gh-pages', path: '/' } };
+
+function build(status: string, commit: string, message: string | null = null) {
+  return { data: { status, commit, error: { message } } };
+}
+
+describe('GitHub Pages deployment', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, GITHUB_TOKEN: 'token' };
+    octokit.users.getAuthenticated.mockResolvedValue({ data: { login: 'acme' } });
+    git.log.mockResolvedValue({ latest: { hash: 'abc123' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should push the output to gh-pages, enable Pages and wait for the build', async () => {
+    octokit.repos.getPages.mockRejectedValueOnce(notFound).mockResolvedValue({ data: pagesSite });
+    octokit.repos.getLatestPagesBuild
+      .mockRejectedValueOnce(notFound)
+      .mockResolvedValueOnce(build('built', 'old-commit'))
+      .mockResolvedValueOnce(build('building', 'abc123'))
+      .mockResolvedValue(build('built', 'abc123'));
+
+    const result = await deployToGitHubPages(
+      {
+        provider: 'github-pages',
+        projectName: 'todo',
+        outputDirectory: 'dist',
+        files: [
+          { path: 'src/main.ts', content: 'x' },
+          { path: 'dist/index.html', content: '<h1>Todo</h1>' },
+        ],
+      },
+      { pollInterval: 1 }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      url: 'https://acme.github.io/todo/',
+      deploymentId: 'abc123',
+      logs: ['Pushed 2 files to gh-pages'],
+    });
+    expect(git.checkoutLocalBranch).toHaveBeenCalledWith('gh-pages');
+    expect(git.push).toHaveBeenCalledWith('origin', 'gh-pages', ['--set-upstream']);
+    expect(octokit.repos.createPagesSite).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'todo',
+      build_type: 'legacy',
+      source: { branch: 'gh-pages', path: '/' },
+    });
+    expect(octokit.repos.getLatestPagesBuild).toHaveBeenCalledTimes(4);
+  });
+
+  it('should repoint an existing Pages site at gh-pages', async () => {
+    octokit.repos.getPages
+      .mockResolvedValueOnce({ data: { ...pagesSite, source: { branch: 'main', path: '/' } } })
+      .mockResolvedValue({ data: pagesSite });
+    octokit.repos.getLatestPagesBuild.mockResolvedValue(build('built', 'abc123'));
+
+    const result = await deployToGitHubPages(
+      { provider: 'github-pages', projectName: 'todo', files: [{ path: 'index.html', content: 'hi' }] },
+      { pollInterval: 1 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(octokit.repos.createPagesSite).not.toHaveBeenCalled();
+    expect(octokit.repos.updateInformationAboutPagesSite).toHaveBeenCalledWith(
+      expect.objectContaining({ source: { branch: 'gh-pages', path: '/' } })
+    );
+  });
+
+  it('should explain when Pages cannot be enabled for a private repository', async () => {
+    octokit.repos.getPages.mockRejectedValue(notFound);
+    octokit.repos.createPagesSite.mockRejectedValue(
+      Object.assign(new Error('Your current plan does not support GitHub Pages for this repository.'), { status: 422 })
+    );
+
+    const result = await deployToGitHubPages(
+      { provider: 'github-pages', projectName: 'todo', files: [{ path: 'index.html', content: 'hi' }] },
+      { pollInterval: 1 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/private repositories need a paid GitHub plan/);
+  });
+
+  it('should report failed Pages builds', async () => {
+    octokit.repos.getPages.mockResolvedValue({ data: pagesSite });
+    octokit.repos.getLatestPagesBuild.mockResolvedValue(build('errored', 'abc123', 'Page build failed.'));
+
+    const result = await deployToGitHubPages(
+      { provider: 'github-pages', projectName: 'todo', files: [{ path: 'index.html', content: 'hi' }] },
+      { pollInterval: 1 }
+    );
+
+    expect(result).toEqual({ success: false, error: 'GitHub Pages build failed: Page build failed.' });
+  });
+});
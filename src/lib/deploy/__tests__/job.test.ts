@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { db } from '@/lib/db';
+import { fullDeploymentPipeline } from '@/lib/deploy';
+import { DeployJobPayload, runDeployJob } from '../job';
+
+vi.mock('@/lib/deploy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/deploy')>()),
+  fullDeploymentPipeline: vi.fn(),
+}));
+
+const mockDb = vi.mocked(db, true);
+
+const payload: DeployJobPayload = {
+  deploymentId: 'dep-1',
+  projectId: 'proj-1',
+  userId: 'user-1',
+  provider: 'vercel',
+  envVariables: { API_URL: 'https://api.example.com' },
+  isPrivate: true,
+  vercelMode: 'files',
+};
+
+const project = {
+  id: 'proj-1',
+  name: 'Todo',
+  description: null,
+  generatedFiles: [{ path: 'index.html', content: '<h1>Todo</h1>' }],
+  envVariables: { SESSION_SECRET: 'correct-horse-battery' },
+  vercelProjectId: 'prj_1',
+  netlifyId: null,
+};
+
+describe('runDeployJob', () => {
+  beforeEach(() => {
+    delete process.env.SECRET_SCAN_MODE;
+    mockDb.project.findUnique.mockResolvedValue(project as never);
+    mockDb.auditLog.create.mockResolvedValue({} as never);
+  });
+
+  it('should move the deployment to BUILDING, then SUCCESS, and store the provider project', async () => {
+    vi.mocked(fullDeploymentPipeline).mockResolvedValue({
+      success: true,
+      deploymentUrl: 'https://todo.vercel.app',
+      githubUrl: 'https://github.com/acme/todo',
+      siteId: 'prj_2',
+    });
+
+    await runDeployJob(payload);
+
+    expect(mockDb.deployment.update.mock.calls.map(([args]) => args.data.status)).toEqual(['BUILDING', 'SUCCESS']);
+    expect(fullDeploymentPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectName: 'todo',
+        deployProvider: 'vercel',
+        siteId: 'prj_1',
+        vercelMode: 'files',
+        files: project.generatedFiles,
+        envVariables: { API_URL: 'https://api.example.com' },
+      })
+    );
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: expect.objectContaining({
+        status: 'DEPLOYED',
+        deploymentUrl: 'https://todo.vercel.app',
+        vercelProjectId: 'prj_2',
+      }),
+    });
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'CREATE', resource: 'Deployment', resourceId: 'dep-1' }),
+    });
+  });
+
+  it('should record failed deployments without failing the job', async () => {
+    vi.mocked(fullDeploymentPipeline).mockResolvedValue({ success: false, error: 'GitHub setup failed: Bad credentials' });
+
+    await expect(runDeployJob(payload)).resolves.toBeUndefined();
+
+    expect(mockDb.deployment.update).toHaveBeenLastCalledWith({
+      where: { id: 'dep-1' },
+      data: expect.objectContaining({ status: 'FAILED', errorMessage: 'GitHub setup failed: Bad credentials' }),
+    });
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: { status: 'FAILED' },
+    });
+  });
+
+  it('should redact secrets that were added to the files after queueing', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project,
+      generatedFiles: [{ path: 'config.js', content: "export const key = 'sk-ant-REDACTED';" }],
+    } as never);
+    vi.mocked(fullDeploymentPipeline).mockResolvedValue({ success: true, deploymentUrl: 'https://todo.vercel.app' });
+
+    await runDeployJob(payload);
+
+    const { files } = vi.mocked(fullDeploymentPipeline).mock.calls[0][0];
+    expect(JSON.stringify(files)).not.toContain('sk-ant-api03');
+  });
+
+  it('should redact the values of project and request environment variables', async () => {
+    mockDb.project.findUnique.mockResolvedValue({
+      ...project,
+      generatedFiles: [
+        { path: 'config.js', content: "export const secret = 'correct-horse-battery';\nexport const url = 'https://api.example.com';" },
+      ],
+    } as never);
+    vi.mocked(fullDeploymentPipeline).mockResolvedValue({ success: true, deploymentUrl: 'https://todo.vercel.app' });
+
+    await runDeployJob(payload);
+
+    const { files } = vi.mocked(fullDeploymentPipeline).mock.calls[0][0];
+    expect(JSON.stringify(files)).not.toContain('correct-horse-battery');
+    expect(JSON.stringify(files)).not.toContain('https://api.example.com');
+  });
+});
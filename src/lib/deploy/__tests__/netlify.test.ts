@@ -0,0 +1,193 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { deployToNetlify, NetlifyService } from '../netlify';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+// In-memory stand-in for the parts of the Netlify API the service uses
+class NetlifyStandIn {
+  requests: RecordedRequest[] = [];
+  sites = new Map<string, { id: string; name: string; account_id: string; url: string; ssl_url: string }>();
+  env = new Map<string, string>();
+  uploads = new Map<string, string>();
+  // Digests the stand-in already has, so they are not required again
+  known = new Set<string>();
+  polls = 0;
+  failDeploy = false;
+
+  handle(request: IncomingMessage, body: string): [number, unknown] {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/^\/api\/v1/, '');
+    const method = request.method ?? 'GET';
+    this.requests.push({ method, url: `${path}${url.search}`, body });
+
+    if (request.headers.authorization !== 'Bearer test-token') {
+      return [401, { message: 'Unauthorized' }];
+    }
+
+    let match: RegExpMatchArray | null;
+    if (method === 'GET' && path === '/sites') {
+      return [200, [...this.sites.values()].filter((site) => site.name.includes(url.searchParams.get('name') ?? ''))];
+    }
+    if (method === 'POST' && path === '/sites') {
+      const { name } = JSON.parse(body);
+      if ([...this.sites.values()].some((site) => site.name === name) || name === 'taken') {
+        return [422, { errors: { subdomain: ['must be unique'] } }];
+      }
+      const site = { id: `site-${this.sites.size + 1}`, name, account_id: 'acct-1', url: `http://${name}.netlify.app`, ssl_url: `https://${name}.netlify.app` };
+      this.sites.set(site.id, site);
+      return [201, site];
+    }
+    if ((match = path.match(/^\/sites\/([^/]+)$/)) && method === 'GET') {
+      const site = this.sites.get(match[1]);
+      return site ? [200, site] : [404, { message: 'Not Found' }];
+    }
+    if ((match = path.match(/^\/accounts\/[^/]+\/env(?:\/([^/]+))?$/))) {
+      if (method === 'GET') {
+        return [200, [...this.env.keys()].map((key) => ({ key }))];
+      }
+      const variables = method === 'POST' ? JSON.parse(body) : [JSON.parse(body)];
+      for (const variable of variables) {
+        this.env.set(variable.key, variable.values[0].value);
+      }
+      return [200, variables];
+    }
+    if ((match = path.match(/^\/sites\/([^/]+)\/deploys$/)) && method === 'POST') {
+      const { files } = JSON.parse(body) as { files: Record<string, string> };
+      const required = [...new Set(Object.values(files))].filter((digest) => !this.known.has(digest));
+      return [200, { id: 'deploy-1', site_id: match[1], state: 'uploading', required }];
+    }
+    if ((match = path.match(/^\/deploys\/deploy-1\/files\/(.+)$/)) && method === 'PUT') {
+      this.uploads.set(decodeURIComponent(match[1]), body);
+      return [200, {}];
+    }
+    if (path === '/deploys/deploy-1' && method === 'GET') {
+      this.polls++;
+      if (this.failDeploy) {
+        return [200, { id: 'deploy-1', state: 'error', error_message: 'Build script returned non-zero exit code' }];
+      }
+      return [200, { id: 'deploy-1', state: this.polls > 1 ? 'ready' : 'processing', ssl_url: 'https://deploy-1--site.netlify.app' }];
+    }
+    return [404, { message: `No route for ${method} ${path}` }];
+  }
+}
+
+describe('Netlify deployment', () => {
+  let server: Server;
+  let standIn: NetlifyStandIn;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const [status, payload] = standIn.handle(request, body);
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn = new NetlifyStandIn();
+    const { port } = server.address() as AddressInfo;
+    process.env = { ...originalEnv, NETLIFY_TOKEN: 'test-token', NETLIFY_API_URL: `http://127.0.0.1:${port}/api/v1` };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const files = [
+    { path: 'index.html', content: '<h1>Hello</h1>' },
+    { path: 'assets/app.js', content: 'console.log(1);' },
+    { path: 'assets/copy.js', content: 'console.log(1);' },
+  ];
+
+  it('should create a site, upload required files and wait until ready', async () => {
+    standIn.known.add(createHash('sha1').update('<h1>Hello</h1>').digest('hex'));
+
+    const result = await deployToNetlify(
+      { provider: 'netlify', projectName: 'todo-app', files, envVariables: { API_URL: 'https://api.example.com' } },
+      { pollInterval: 1 }
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      url: 'https://deploy-1--site.netlify.app',
+      deploymentId: 'deploy-1',
+      siteId: 'site-1',
+    });
+    expect(standIn.sites.get('site-1')?.name).toBe('todo-app');
+    expect(standIn.env.get('API_URL')).toBe('https://api.example.com');
+
+    const deployRequest = standIn.requests.find((request) => request.url === '/sites/site-1/deploys');
+    expect(Object.keys(JSON.parse(deployRequest?.body ?? '{}').files)).toEqual(['/index.html', '/assets/app.js', '/assets/copy.js']);
+
+    // Identical contents share a digest and are uploaded once; known files are skipped
+    expect([...standIn.uploads.keys()]).toEqual(['assets/copy.js']);
+    expect(standIn.polls).toBe(2);
+  });
+
+  it('should reuse the saved site and update existing variables', async () => {
+    standIn.sites.set('site-9', { id: 'site-9', name: 'saved', account_id: 'acct-1', url: 'http://saved.netlify.app', ssl_url: 'https://saved.netlify.app' });
+    standIn.env.set('API_URL', 'old');
+
+    const result = await deployToNetlify(
+      { provider: 'netlify', projectName: 'todo-app', siteId: 'site-9', files, envVariables: { API_URL: 'new' } },
+      { pollInterval: 1 }
+    );
+
+    expect(result.siteId).toBe('site-9');
+    expect(standIn.env.get('API_URL')).toBe('new');
+    expect(standIn.requests.some((request) => request.method === 'PUT' && request.url.startsWith('/accounts/acct-1/env/API_URL'))).toBe(true);
+    expect(standIn.requests.some((request) => request.method === 'POST' && request.url === '/sites')).toBe(false);
+  });
+
+  it('should publish only the output directory', async () => {
+    await deployToNetlify(
+      {
+        provider: 'netlify',
+        projectName: 'static',
+        outputDirectory: 'dist',
+        files: [
+          { path: 'src/main.ts', content: 'x' },
+          { path: 'dist/index.html', content: '<p>built</p>' },
+        ],
+      },
+      { pollInterval: 1 }
+    );
+
+    const deployRequest = standIn.requests.find((request) => request.url.endsWith('/deploys'));
+    expect(JSON.parse(deployRequest?.body ?? '{}').files).toEqual({
+      '/index.html': createHash('sha1').update('<p>built</p>').digest('hex'),
+    });
+  });
+
+  it('should retry a taken site name with a suffix', async () => {
+    const site = await new NetlifyService().createSite('taken');
+
+    expect(site.name).toMatch(/^taken-[0-9a-f]{6}$/);
+  });
+
+  it('should report failed deploys', async () => {
+    standIn.failDeploy = true;
+
+    const result = await deployToNetlify({ provider: 'netlify', projectName: 'broken', files }, { pollInterval: 1 });
+
+    expect(result).toEqual({ success: false, error: 'Deployment failed: Build script returned non-zero exit code' });
+  });
+});
@@ -0,0 +1,198 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { deployToVercel } from '../vercel';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+const sha1 = (content: string) => createHash('sha1').update(content).digest('hex');
+
+// In-memory stand-in for the parts of the Vercel API the service uses
+class VercelStandIn {
+  requests: RecordedRequest[] = [];
+  projects = new Map<string, { id: string; name: string; accountId: string; createdAt: string; updatedAt: string }>();
+  uploads = new Map<string, string>();
+  polls = 0;
+  failDeployment = false;
+
+  handle(request: IncomingMessage, body: string): [number, unknown] {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const path = url.pathname;
+    const method = request.method ?? 'GET';
+    this.requests.push({ method, url: path, body });
+
+    if (request.headers.authorization !== 'Bearer test-token') {
+      return [401, { error: { code: 'forbidden' } }];
+    }
+
+    let match: RegExpMatchArray | null;
+    if ((match = path.match(/^\/v9\/projects\/([^/]+)$/)) && method === 'GET') {
+      const key = decodeURIComponent(match[1]);
+      const project = [...this.projects.values()].find((candidate) => candidate.id === key || candidate.name === key);
+      return project ? [200, project] : [404, { error: { code: 'not_found' } }];
+    }
+    if (path === '/v10/projects' && method === 'POST') {
+      const { name } = JSON.parse(body);
+      const project = { id: `prj_${this.projects.size + 1}`, name, accountId: 'team_1', createdAt: '', updatedAt: '' };
+      this.projects.set(project.id, project);
+      return [200, project];
+    }
+    if (path.match(/^\/v10\/projects\/[^/]+\/env$/) && method === 'POST') {
+      return [201, {}];
+    }
+    if (path === '/v2/files' && method === 'POST') {
+      const digest = request.headers['x-vercel-digest'];
+      if (typeof digest !== 'string' || digest !== sha1(body)) {
+        return [400, { error: { code: 'invalid_sha' } }];
+      }
+      this.uploads.set(digest, body);
+      return [200, {}];
+    }
+    if (path === '/v13/deployments' && method === 'POST') {
+      const { files } = JSON.parse(body) as { files?: { sha: string }[] };
+      const missing = (files ?? []).filter((file) => !this.uploads.has(file.sha));
+      if (missing.length > 0) {
+        return [400, { error: { code: 'missing_files', missing: missing.map((file) => file.sha) } }];
+      }
+      return [200, { id: 'dpl_1', url: 'todo-abc.vercel.app', state: 'QUEUED', createdAt: 0 }];
+    }
+    if (path === '/v13/deployments/dpl_1' && method === 'GET') {
+      this.polls++;
+      const state = this.failDeployment ? 'ERROR' : this.polls > 1 ? 'READY' : 'BUILDING';
+      return [200, { id: 'dpl_1', url: 'todo-abc.vercel.app', state, createdAt: 0 }];
+    }
+    return [404, { error: { code: 'not_found', message: `No route for ${method} ${path}` } }];
+  }
+
+  deploymentBody() {
+    const deployment = this.requests.find((request) => request.method === 'POST' && request.url === '/v13/deployments');
+    return JSON.parse(deployment?.body ?? '{}');
+  }
+}
+
+describe('Vercel deployment', () => {
+  let server: Server;
+  let standIn: VercelStandIn;
+  const originalEnv = process.env;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const [status, payload] = standIn.handle(request, body);
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(payload));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    standIn = new VercelStandIn();
+    const { port } = server.address() as AddressInfo;
+    process.env = { ...originalEnv, VERCEL_TOKEN: 'test-token', VERCEL_API_URL: `http://127.0.0.1:${port}` };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const files = [
+    { path: 'package.json', content: '{"name":"todo"}' },
+    { path: 'app/page.tsx', content: 'export default () => null;' },
+    { path: 'app/copy.tsx', content: 'export default () => null;' },
+  ];
+
+  it('should upload files and deploy them with an inline manifest', async () => {
+    const result = await deployToVercel(
+      { provider: 'vercel', projectName: 'todo', mode: 'files', files, envVariables: { API_URL: 'https://api.example.com' } },
+      { pollInterval: 1 }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      url: 'https://todo-abc.vercel.app',
+      deploymentId: 'dpl_1',
+      siteId: 'prj_1',
+      logs: ['Uploaded 2 unique files (3 total)'],
+    });
+
+    // Identical contents share a digest and are uploaded once
+    expect([...standIn.uploads.values()]).toEqual(['{"name":"todo"}', 'export default () => null;']);
+    expect(standIn.deploymentBody()).toEqual({
+      name: 'todo',
+      project: 'prj_1',
+      target: 'production',
+      files: [
+        { file: 'package.json', sha: sha1('{"name":"todo"}'), size: 15 },
+        { file: 'app/page.tsx', sha: sha1('export default () => null;'), size: 26 },
+        { file: 'app/copy.tsx', sha: sha1('export default () => null;'), size: 26 },
+      ],
+    });
+    expect(standIn.requests.some((request) => request.url === '/v10/projects/prj_1/env')).toBe(true);
+    expect(standIn.polls).toBe(2);
+  });
+
+  it('should deploy a commit of the linked GitHub repository', async () => {
+    const result = await deployToVercel(
+      {
+        provider: 'vercel',
+        projectName: 'todo',
+        mode: 'git',
+        gitSource: { repo: 'acme/todo', repoId: 42, ref: 'abc123' },
+      },
+      { pollInterval: 1 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(standIn.uploads.size).toBe(0);
+    expect(JSON.parse(standIn.requests.find((request) => request.url === '/v10/projects')?.body ?? '{}').gitRepository).toEqual({
+      type: 'github',
+      repo: 'acme/todo',
+    });
+    expect(standIn.deploymentBody()).toEqual({
+      name: 'todo',
+      project: 'prj_1',
+      target: 'production',
+      gitSource: { type: 'github', repoId: 42, ref: 'abc123' },
+    });
+  });
+
+  it('should reuse the saved project', async () => {
+    standIn.projects.set('prj_9', { id: 'prj_9', name: 'saved', accountId: 'team_1', createdAt: '', updatedAt: '' });
+
+    const result = await deployToVercel(
+      { provider: 'vercel', projectName: 'todo', mode: 'files', files, projectId: 'prj_9' },
+      { pollInterval: 1 }
+    );
+
+    expect(result.siteId).toBe('prj_9');
+    expect(standIn.requests.some((request) => request.url === '/v10/projects')).toBe(false);
+  });
+
+  it('should require a repository in git mode', async () => {
+    const result = await deployToVercel({ provider: 'vercel', projectName: 'todo', mode: 'git' });
+
+    expect(result).toEqual({ success: false, error: 'A GitHub repository is required for git deployments' });
+    expect(standIn.requests).toHaveLength(0);
+  });
+
+  it('should report failed deployments', async () => {
+    standIn.failDeployment = true;
+
+    const result = await deployToVercel({ provider: 'vercel', projectName: 'todo', mode: 'files', files }, { pollInterval: 1 });
+
+    expect(result).toEqual({ success: false, error: 'Deployment failed with state: ERROR' });
+  });
+});
@@ -0,0 +1,65 @@
+import { DeploymentConfig, DeploymentResult } from "@/types";
+import { GitHubService } from "./github";
+import { selectOutputFiles } from "./output";
+
+export const GITHUB_PAGES_BRANCH = "gh-pages";
+
+export interface GitHubPagesDeployConfig extends DeploymentConfig {
+  files: { path: string; content: string }[];
+  // Repository owner; defaults to the authenticated user
+  owner?: string;
+}
+
+/**
+ * Deploy a project to GitHub Pages: push the build output (or the files as
+ * they are) to the `gh-pages` branch of the project's repository, serve
+ * Pages from that branch, and wait for the Pages build.
+ */
+export async function deployToGitHubPages(
+  config: GitHubPagesDeployConfig,
+  options: { pollInterval?: number } = {}
+): Promise<DeploymentResult> {
+  try {
+    const github = new GitHubService();
+    const owner = config.owner ?? (await github.getAuthenticatedUser()).login;
+    const repo = config.projectName;
+
+    const published = selectOutputFiles(config.files, config.outputDirectory);
+    if (published.length === 0) {
+      throw new Error("No files to deploy");
+    }
+    // Serve files as they are instead of running them through Jekyll
+    if (!published.some((file) => file.path === ".nojekyll")) {
+      published.push({ path: ".nojekyll", content: "" });
+    }
+
+    const { commitSha } = await github.pushFiles(
+      { owner, repo, branch: GITHUB_PAGES_BRANCH },
+      { files: published, commitMessage: "Deploy to GitHub Pages" }
+    );
+
+    const site = await github.enablePages(owner, repo, {
+      branch: GITHUB_PAGES_BRANCH,
+    });
+
+    await github.waitForPagesBuild(
+      owner,
+      repo,
+      commitSha,
+      undefined,
+      options.pollInterval
+    );
+
+    return {
+      success: true,
+      url: site.url,
+      deploymentId: commitSha,
+      logs: [`Pushed ${published.length} files to ${GITHUB_PAGES_BRANCH}`],
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
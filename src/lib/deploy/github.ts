@@ -24,6 +24,18 @@ export interface PushFilesOptions {
   branch?: string;
 }
 
+export interface PagesSite {
+  url: string;
+  status: string | null;
+  source?: { branch: string; path: string };
+}
+
+export interface PagesBuild {
+  status: "built" | "building" | "errored" | "queued" | string;
+  commit: string | null;
+  error?: string | null;
+}
+
 export class GitHubService {
   private octokit: Octokit;
   private git: SimpleGit;
@@ -109,6 +121,8 @@ export class GitHubService {
       // Initialize git repo
       const git = simpleGit(tempDir);
       await git.init();
+      // Commit on the target branch, whatever the local default is
+      await git.checkoutLocalBranch(branch);
       await git.addConfig("user.email", "project-scaffolder@example.com");
       await git.addConfig("user.name", "Project Scaffolder");
 
@@ -236,4 +250,124 @@ export class GitHubService {
       updatedAt: repo.updated_at,
     }));
   }
+
+  /**
+   * Get the Pages site of a repository, or null when Pages is not enabled
+   */
+  async getPagesSite(owner: string, repo: string): Promise<PagesSite | null> {
+    try {
+      const { data } = await this.octokit.repos.getPages({ owner, repo });
+      return {
+        url: data.html_url || data.url,
+        status: data.status,
+        source: data.source,
+      };
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Enable Pages, served from a branch, or point an existing site at it
+   */
+  async enablePages(
+    owner: string,
+    repo: string,
+    source: { branch: string; path?: "/" | "/docs" }
+  ): Promise<PagesSite> {
+    const pagesSource = { branch: source.branch, path: source.path ?? "/" };
+    const existing = await this.getPagesSite(owner, repo);
+
+    if (!existing) {
+      try {
+        await this.octokit.repos.createPagesSite({
+          owner,
+          repo,
+          build_type: "legacy",
+          source: pagesSource,
+        });
+      } catch (error: unknown) {
+        // GitHub's free plan only serves Pages from public repositories
+        if ((error as { status?: number }).status === 422) {
+          throw new Error(
+            `GitHub Pages could not be enabled for ${owner}/${repo}; ` +
+              "private repositories need a paid GitHub plan, so deploy " +
+              "with isPrivate set to false"
+          );
+        }
+        throw error;
+      }
+    } else if (
+      existing.source?.branch !== pagesSource.branch ||
+      existing.source?.path !== pagesSource.path
+    ) {
+      await this.octokit.repos.updateInformationAboutPagesSite({
+        owner,
+        repo,
+        build_type: "legacy",
+        source: pagesSource,
+      });
+    }
+
+    const site = await this.getPagesSite(owner, repo);
+    if (!site) {
+      throw new Error("GitHub Pages could not be enabled");
+    }
+    return site;
+  }
+
+  /**
+   * Get the latest Pages build, or null before the first build
+   */
+  async getLatestPagesBuild(owner: string, repo: string): Promise<PagesBuild | null> {
+    try {
+      const { data } = await this.octokit.repos.getLatestPagesBuild({ owner, repo });
+      return {
+        status: data.status,
+        commit: data.commit,
+        error: data.error.message,
+      };
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the Pages build of a commit to finish
+   */
+  async waitForPagesBuild(
+    owner: string,
+    repo: string,
+    commitSha: string,
+    timeout = 300000, // 5 minutes
+    interval = 5000
+  ): Promise<PagesBuild> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < timeout) {
+      const build = await this.getLatestPagesBuild(owner, repo);
+
+      // Earlier builds are ignored until the pushed commit is picked up
+      if (build && build.commit === commitSha) {
+        if (build.status === "built") {
+          return build;
+        }
+        if (build.status === "errored") {
+          throw new Error(
+            `GitHub Pages build failed: ${build.error || "unknown error"}`
+          );
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+
+    throw new Error("GitHub Pages build timed out");
+  }
 }
@@ -1,9 +1,14 @@
 import { DeploymentResult } from "@/types";
 import { GitHubService } from "./github";
-import { deployToVercel } from "./vercel";
+import { deployToVercel, VercelDeployMode } from "./vercel";
+import { deployToNetlify } from "./netlify";
+import { deployToGitHubPages } from "./github-pages";
 
 export { GitHubService } from "./github";
 export { VercelService, deployToVercel } from "./vercel";
+export type { VercelDeployMode } from "./vercel";
+export { NetlifyService, deployToNetlify } from "./netlify";
+export { deployToGitHubPages, GITHUB_PAGES_BRANCH } from "./github-pages";
 
 export type DeploymentProvider = "vercel" | "netlify" | "github-pages";
 
@@ -14,6 +19,12 @@ export interface DeployOptions {
   envVariables?: Record<string, string>;
   buildCommand?: string;
   outputDirectory?: string;
+  // Existing provider site to deploy to (Netlify site, Vercel project)
+  siteId?: string;
+  // Required for Vercel: upload the files or deploy from `gitSource`
+  vercelMode?: VercelDeployMode;
+  // GitHub repository holding the files, `repo` being "owner/repo"
+  gitSource?: { repo: string; repoId: number; ref: string };
 }
 
 /**
@@ -41,32 +52,55 @@ export function getConfiguredProviders(): DeploymentProvider[] {
 export async function deploy(
   options: DeployOptions
 ): Promise<DeploymentResult> {
-  const { provider, projectName, envVariables, buildCommand, outputDirectory } =
-    options;
+  const {
+    provider,
+    projectName,
+    files,
+    envVariables,
+    buildCommand,
+    outputDirectory,
+    siteId,
+    vercelMode,
+    gitSource,
+  } = options;
 
   switch (provider) {
     case "vercel":
+      if (!vercelMode) {
+        return {
+          success: false,
+          error: "Vercel deployment mode is required",
+        };
+      }
       return deployToVercel({
         provider: "vercel",
         projectName,
         envVariables,
         buildCommand,
         outputDirectory,
+        mode: vercelMode,
+        files,
+        gitSource,
+        projectId: siteId,
       });
 
     case "netlify":
-      // TODO: Implement Netlify deployment
-      return {
-        success: false,
-        error: "Netlify deployment not yet implemented",
-      };
+      return deployToNetlify({
+        provider: "netlify",
+        projectName,
+        files,
+        envVariables,
+        outputDirectory,
+        siteId,
+      });
 
     case "github-pages":
-      // TODO: Implement GitHub Pages deployment
-      return {
-        success: false,
-        error: "GitHub Pages deployment not yet implemented",
-      };
+      return deployToGitHubPages({
+        provider: "github-pages",
+        projectName,
+        files,
+        outputDirectory,
+      });
 
     default:
       return {
@@ -87,6 +121,10 @@ export async function createAndPushToGitHub(options: {
 }): Promise<{
   success: boolean;
   repoUrl?: string;
+  // "owner/repo", the numeric repository ID and the pushed commit
+  fullName?: string;
+  repoId?: number;
+  commitSha?: string;
   error?: string;
 }> {
   try {
@@ -95,18 +133,17 @@ export async function createAndPushToGitHub(options: {
     // Get authenticated user
     const user = await github.getAuthenticatedUser();
 
-    // Check if repo exists
+    // Check if repo exists, create it if not
     const exists = await github.repoExists(user.login, options.repoName);
 
-    if (!exists) {
-      // Create the repository
-      await github.createRepository({
-        name: options.repoName,
-        description: options.description,
-        isPrivate: options.isPrivate ?? true,
-        autoInit: false,
-      });
-    }
+    const repository = exists
+      ? await github.getRepository(user.login, options.repoName)
+      : await github.createRepository({
+          name: options.repoName,
+          description: options.description,
+          isPrivate: options.isPrivate ?? true,
+          autoInit: false,
+        });
 
     // Push files
     const result = await github.pushFiles(
@@ -123,6 +160,9 @@ export async function createAndPushToGitHub(options: {
     return {
       success: true,
       repoUrl: result.url,
+      fullName: repository.fullName,
+      repoId: repository.id,
+      commitSha: result.commitSha,
     };
   } catch (error) {
     return {
@@ -142,10 +182,13 @@ export async function fullDeploymentPipeline(options: {
   deployProvider: DeploymentProvider;
   envVariables?: Record<string, string>;
   isPrivate?: boolean;
+  siteId?: string;
+  vercelMode?: VercelDeployMode;
 }): Promise<{
   success: boolean;
   githubUrl?: string;
   deploymentUrl?: string;
+  siteId?: string;
   error?: string;
 }> {
   // Step 1: Create GitHub repo and push code
@@ -169,12 +212,23 @@ export async function fullDeploymentPipeline(options: {
     projectName: options.projectName,
     files: options.files,
     envVariables: options.envVariables,
+    siteId: options.siteId,
+    vercelMode: options.vercelMode,
+    ...(githubResult.fullName &&
+      githubResult.repoId && {
+        gitSource: {
+          repo: githubResult.fullName,
+          repoId: githubResult.repoId,
+          ref: githubResult.commitSha || "main",
+        },
+      }),
   });
 
   return {
     success: deployResult.success,
     githubUrl: githubResult.repoUrl,
     deploymentUrl: deployResult.url,
+    siteId: deployResult.siteId,
     error: deployResult.error,
   };
 }
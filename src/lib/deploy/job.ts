@@ -0,0 +1,141 @@
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import { protectSecrets } from "@/lib/analysis";
+import { DeploymentProvider, fullDeploymentPipeline } from "./index";
+import { VercelDeployMode } from "./vercel";
+
+export const DEPLOY_JOB = "deploy";
+
+// Everything the worker needs to run a queued deployment. The files are
+// read from the project when the job runs instead of being copied into the
+// queue; the environment variables are the ones passed with the request.
+export type DeployJobPayload = {
+  deploymentId: string;
+  projectId: string;
+  userId: string;
+  provider: DeploymentProvider;
+  envVariables?: Record<string, string>;
+  isPrivate: boolean;
+  vercelMode?: VercelDeployMode;
+};
+
+/**
+ * Run a queued deployment: PENDING -> BUILDING -> SUCCESS or FAILED. A failed
+ * deployment is recorded on the Deployment and does not fail the job.
+ */
+export async function runDeployJob(payload: DeployJobPayload): Promise<void> {
+  const { deploymentId, projectId, userId, provider } = payload;
+
+  await db.deployment.update({
+    where: { id: deploymentId },
+    data: { status: "BUILDING" },
+  });
+
+  try {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+    });
+    if (!project?.generatedFiles) {
+      throw new Error("Project has no generated files to deploy");
+    }
+
+    // The files were scanned when the deployment was queued; scan them
+    // again in case they changed since
+    const secrets = protectSecrets(
+      project.generatedFiles as Array<{ path: string; content: string }>,
+      {
+        envValues: Object.values({
+          ...((project.envVariables as Record<string, string> | null) ?? {}),
+          ...payload.envVariables,
+        }),
+      }
+    );
+    if (secrets.blocked) {
+      throw new Error("Project files contain secrets");
+    }
+
+    const result = await fullDeploymentPipeline({
+      projectName: project.name.toLowerCase().replace(/[^a-z0-9-]/g, "-"),
+      description: project.description || undefined,
+      files: secrets.files,
+      deployProvider: provider,
+      envVariables: payload.envVariables,
+      isPrivate: payload.isPrivate,
+      siteId:
+        provider === "netlify"
+          ? project.netlifyId ?? undefined
+          : provider === "vercel"
+            ? project.vercelProjectId ?? undefined
+            : undefined,
+      vercelMode: payload.vercelMode,
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || "Deployment failed");
+    }
+
+    await db.deployment.update({
+      where: { id: deploymentId },
+      data: {
+        status: "SUCCESS",
+        url: result.deploymentUrl,
+        completedAt: new Date(),
+      },
+    });
+
+    await db.project.update({
+      where: { id: projectId },
+      data: {
+        status: "DEPLOYED",
+        deploymentUrl: result.deploymentUrl,
+        githubRepo: result.githubUrl,
+        ...(provider === "netlify" &&
+          result.siteId && { netlifyId: result.siteId }),
+        ...(provider === "vercel" &&
+          result.siteId && { vercelProjectId: result.siteId }),
+        lastDeployedAt: new Date(),
+      },
+    });
+
+    await audit.create(userId, "Deployment", deploymentId, {
+      projectId,
+      provider,
+      url: result.deploymentUrl,
+      githubUrl: result.githubUrl,
+    });
+  } catch (deployError) {
+    await failDeployment(
+      payload,
+      deployError instanceof Error ? deployError.message : "Unknown error"
+    );
+  }
+}
+
+/**
+ * Mark a deployment and its project as failed
+ */
+export async function failDeployment(
+  payload: DeployJobPayload,
+  message: string
+): Promise<void> {
+  const { deploymentId, projectId, userId } = payload;
+
+  await db.deployment.update({
+    where: { id: deploymentId },
+    data: {
+      status: "FAILED",
+      errorMessage: message,
+      completedAt: new Date(),
+    },
+  });
+
+  await db.project.update({
+    where: { id: projectId },
+    data: { status: "FAILED" },
+  });
+
+  await audit.error(userId, "Deployment", "DEPLOY", message, {
+    projectId,
+    deploymentId,
+  });
+}
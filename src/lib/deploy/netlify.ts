@@ -0,0 +1,329 @@
+import { createHash, randomBytes } from "crypto";
+import { DeploymentConfig, DeploymentResult } from "@/types";
+import { selectOutputFiles } from "./output";
+
+export interface NetlifySite {
+  id: string;
+  name: string;
+  account_id?: string;
+  url: string;
+  ssl_url?: string;
+  admin_url?: string;
+}
+
+export interface NetlifyDeploy {
+  id: string;
+  site_id: string;
+  state:
+    | "new"
+    | "uploading"
+    | "uploaded"
+    | "preparing"
+    | "prepared"
+    | "processing"
+    | "processed"
+    | "ready"
+    | "error";
+  // SHA1 digests of the files Netlify does not have yet
+  required?: string[];
+  url?: string;
+  ssl_url?: string;
+  deploy_ssl_url?: string;
+  error_message?: string;
+}
+
+interface NetlifyEnvVar {
+  key: string;
+}
+
+export interface NetlifyDeployConfig extends DeploymentConfig {
+  files: { path: string; content: string }[];
+  // Site to deploy to, e.g. the project's saved `netlifyId`
+  siteId?: string;
+}
+
+const DEFAULT_API_URL = "https://api.netlify.com/api/v1";
+
+export class NetlifyService {
+  private apiUrl: string;
+  private token: string;
+
+  constructor(token?: string) {
+    const authToken = token || process.env.NETLIFY_TOKEN;
+    if (!authToken) {
+      throw new Error("Netlify token not configured");
+    }
+    this.token = authToken;
+    // Overridable to point at a self-hosted proxy or a test stand-in
+    this.apiUrl = (process.env.NETLIFY_API_URL || DEFAULT_API_URL).replace(
+      /\/$/,
+      ""
+    );
+  }
+
+  /**
+   * Check if Netlify is configured
+   */
+  static isConfigured(): boolean {
+    return !!process.env.NETLIFY_TOKEN;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options?: RequestInit
+  ): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+        ...options?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(
+        `Netlify API error: ${response.status} - ${JSON.stringify(error)}`
+      );
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /**
+   * Get a site by ID
+   */
+  async getSite(siteId: string): Promise<NetlifySite | null> {
+    try {
+      return await this.request<NetlifySite>(`/sites/${siteId}`);
+    } catch (error: unknown) {
+      if ((error as Error).message?.includes("404")) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find a site by its exact name
+   */
+  async findSiteByName(name: string): Promise<NetlifySite | null> {
+    const sites = await this.request<NetlifySite[]>(
+      `/sites?name=${encodeURIComponent(name)}&filter=all`
+    );
+    return sites.find((site) => site.name === name) ?? null;
+  }
+
+  /**
+   * Create a new site. Site names are global, so a taken name is retried
+   * once with a random suffix.
+   */
+  async createSite(name: string): Promise<NetlifySite> {
+    try {
+      return await this.request<NetlifySite>("/sites", {
+        method: "POST",
+        body: JSON.stringify({ name }),
+      });
+    } catch (error: unknown) {
+      if (!(error as Error).message?.includes("422")) {
+        throw error;
+      }
+      return this.request<NetlifySite>("/sites", {
+        method: "POST",
+        body: JSON.stringify({
+          name: `${name}-${randomBytes(3).toString("hex")}`,
+        }),
+      });
+    }
+  }
+
+  /**
+   * Create or update environment variables for a site
+   */
+  async setEnvironmentVariables(
+    site: NetlifySite,
+    envVars: Record<string, string>
+  ): Promise<void> {
+    if (!site.account_id) {
+      throw new Error("Netlify site has no account ID");
+    }
+    const base = `/accounts/${site.account_id}/env`;
+    const query = `?site_id=${site.id}`;
+
+    const existing = await this.request<NetlifyEnvVar[]>(`${base}${query}`);
+    const existingKeys = new Set(existing.map((variable) => variable.key));
+
+    const entries = Object.entries(envVars);
+    const toCreate = entries.filter(([key]) => !existingKeys.has(key));
+    const toUpdate = entries.filter(([key]) => existingKeys.has(key));
+
+    if (toCreate.length > 0) {
+      await this.request(`${base}${query}`, {
+        method: "POST",
+        body: JSON.stringify(
+          toCreate.map(([key, value]) => ({
+            key,
+            values: [{ value, context: "all" }],
+          }))
+        ),
+      });
+    }
+
+    for (const [key, value] of toUpdate) {
+      await this.request(`${base}/${encodeURIComponent(key)}${query}`, {
+        method: "PUT",
+        body: JSON.stringify({ key, values: [{ value, context: "all" }] }),
+      });
+    }
+  }
+
+  /**
+   * Start a file digest deploy. Netlify answers with the digests of the
+   * files it still needs uploaded.
+   */
+  async createDeploy(
+    siteId: string,
+    digests: Record<string, string>
+  ): Promise<NetlifyDeploy> {
+    return this.request<NetlifyDeploy>(`/sites/${siteId}/deploys`, {
+      method: "POST",
+      body: JSON.stringify({ files: digests, draft: false }),
+    });
+  }
+
+  /**
+   * Upload one file of a deploy
+   */
+  async uploadFile(
+    deployId: string,
+    path: string,
+    content: Buffer
+  ): Promise<void> {
+    const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+    await this.request(`/deploys/${deployId}/files/${encodedPath}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array(content),
+    });
+  }
+
+  /**
+   * Get deploy status
+   */
+  async getDeploy(deployId: string): Promise<NetlifyDeploy> {
+    return this.request<NetlifyDeploy>(`/deploys/${deployId}`);
+  }
+
+  /**
+   * Wait for a deploy to finish processing
+   */
+  async waitForDeploy(
+    deployId: string,
+    timeout = 300000, // 5 minutes
+    interval = 3000
+  ): Promise<NetlifyDeploy> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < timeout) {
+      const deploy = await this.getDeploy(deployId);
+
+      if (deploy.state === "ready") {
+        return deploy;
+      }
+
+      if (deploy.state === "error") {
+        throw new Error(
+          `Deployment failed: ${deploy.error_message || "unknown error"}`
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+
+    throw new Error("Deployment timed out");
+  }
+
+  /**
+   * Delete a site
+   */
+  async deleteSite(siteId: string): Promise<void> {
+    await this.request(`/sites/${siteId}`, { method: "DELETE" });
+  }
+}
+
+/**
+ * Deploy a project to Netlify. Files are published as they are; Netlify
+ * does not run a build for file digest deploys.
+ */
+export async function deployToNetlify(
+  config: NetlifyDeployConfig,
+  options: { pollInterval?: number } = {}
+): Promise<DeploymentResult> {
+  try {
+    const netlify = new NetlifyService();
+
+    // Reuse the saved site, then a site with the same name, else create one
+    let site = config.siteId ? await netlify.getSite(config.siteId) : null;
+    if (!site) {
+      site = await netlify.findSiteByName(config.projectName);
+    }
+    if (!site) {
+      site = await netlify.createSite(config.projectName);
+    }
+
+    if (config.envVariables && Object.keys(config.envVariables).length > 0) {
+      await netlify.setEnvironmentVariables(site, config.envVariables);
+    }
+
+    const published = selectOutputFiles(config.files, config.outputDirectory);
+    if (published.length === 0) {
+      throw new Error("No files to deploy");
+    }
+
+    // Netlify keys files by their absolute site path
+    const digests: Record<string, string> = {};
+    const contentsByDigest = new Map<
+      string,
+      { path: string; content: Buffer }
+    >();
+    for (const file of published) {
+      const content = Buffer.from(file.content, "utf8");
+      const digest = createHash("sha1").update(content).digest("hex");
+      digests[`/${file.path}`] = digest;
+      contentsByDigest.set(digest, { path: file.path, content });
+    }
+
+    const deploy = await netlify.createDeploy(site.id, digests);
+
+    // Only upload what Netlify does not already have
+    const logs: string[] = [];
+    for (const digest of deploy.required ?? []) {
+      const file = contentsByDigest.get(digest);
+      if (file) {
+        await netlify.uploadFile(deploy.id, file.path, file.content);
+        logs.push(`Uploaded /${file.path}`);
+      }
+    }
+
+    const finalDeploy = await netlify.waitForDeploy(
+      deploy.id,
+      undefined,
+      options.pollInterval
+    );
+
+    return {
+      success: true,
+      url: finalDeploy.ssl_url || finalDeploy.url || site.ssl_url || site.url,
+      deploymentId: finalDeploy.id,
+      siteId: site.id,
+      logs,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
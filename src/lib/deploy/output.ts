@@ -0,0 +1,20 @@
+/**
+ * Files a static host should serve. With an output directory only the files
+ * inside it are kept, with paths relative to it.
+ */
+export function selectOutputFiles(
+  files: { path: string; content: string }[],
+  outputDirectory?: string
+): { path: string; content: string }[] {
+  const prefix = outputDirectory?.replace(/^\.?\/+|\/+$/g, "");
+
+  return files.flatMap((file) => {
+    const path = file.path.replace(/^\.?\/+/, "");
+    if (!prefix) {
+      return [{ path, content: file.content }];
+    }
+    return path.startsWith(`${prefix}/`)
+      ? [{ path: path.slice(prefix.length + 1), content: file.content }]
+      : [];
+  });
+}
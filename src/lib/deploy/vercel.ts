@@ -1,3 +1,4 @@
+import { createHash } from "crypto";
 import { DeploymentConfig, DeploymentResult } from "@/types";
 
 export interface VercelProject {
@@ -18,8 +19,39 @@ export interface VercelDeployment {
   readyAt?: number;
 }
 
+// One entry of an inline file manifest, referencing an uploaded file
+export interface VercelDeploymentFile {
+  file: string;
+  sha: string;
+  size: number;
+}
+
+export interface VercelGitSource {
+  type: "github";
+  ref: string; // branch or commit SHA
+  repoId: number;
+}
+
+/**
+ * How a deployment gets its source: "files" uploads the files and sends an
+ * inline manifest, "git" deploys a commit of the linked GitHub repository
+ */
+export type VercelDeployMode = "files" | "git";
+
+export interface VercelDeployConfig extends DeploymentConfig {
+  mode: VercelDeployMode;
+  // Required in "files" mode
+  files?: { path: string; content: string }[];
+  // Required in "git" mode; `repo` is "owner/repo"
+  gitSource?: { repo: string; repoId: number; ref: string };
+  // Project to deploy to, e.g. the project's saved `vercelProjectId`
+  projectId?: string;
+}
+
+const DEFAULT_API_URL = "https://api.vercel.com";
+
 export class VercelService {
-  private apiUrl = "https://api.vercel.com";
+  private apiUrl: string;
   private token: string;
 
   constructor(token?: string) {
@@ -28,6 +60,8 @@ export class VercelService {
       throw new Error("Vercel token not configured");
     }
     this.token = authToken;
+    // Overridable to point at a self-hosted proxy or a test stand-in
+    this.apiUrl = (process.env.VERCEL_API_URL || DEFAULT_API_URL).replace(/\/$/, "");
   }
 
   /**
@@ -57,7 +91,8 @@ export class VercelService {
       );
     }
 
-    return response.json();
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 
   /**
@@ -89,7 +124,9 @@ export class VercelService {
    */
   async getProject(nameOrId: string): Promise<VercelProject | null> {
     try {
-      return await this.request<VercelProject>(`/v9/projects/${nameOrId}`);
+      return await this.request<VercelProject>(
+        `/v9/projects/${encodeURIComponent(nameOrId)}`
+      );
     } catch (error: unknown) {
       if ((error as Error).message?.includes("404")) {
         return null;
@@ -150,22 +187,42 @@ export class VercelService {
   }
 
   /**
-   * Trigger a deployment
+   * Upload one file by its SHA1 digest. Vercel keeps files it already has,
+   * so uploading the same content again is cheap.
+   */
+  async uploadFile(content: Buffer): Promise<string> {
+    const sha = createHash("sha1").update(content).digest("hex");
+    await this.request("/v2/files", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": String(content.length),
+        "x-vercel-digest": sha,
+      },
+      body: new Uint8Array(content),
+    });
+    return sha;
+  }
+
+  /**
+   * Trigger a deployment from uploaded files or a git source
    */
   async deploy(options: {
     projectId: string;
-    gitSource?: {
-      type: "github";
-      ref: string; // branch or commit SHA
-      repoId: number;
-    };
+    name?: string;
+    files?: VercelDeploymentFile[];
+    gitSource?: VercelGitSource;
     target?: "production" | "preview";
   }): Promise<VercelDeployment> {
     const body: Record<string, unknown> = {
-      name: options.projectId,
+      name: options.name || options.projectId,
+      project: options.projectId,
       target: options.target || "production",
     };
 
+    if (options.files) {
+      body.files = options.files;
+    }
     if (options.gitSource) {
       body.gitSource = options.gitSource;
     }
@@ -188,7 +245,8 @@ export class VercelService {
    */
   async waitForDeployment(
     deploymentId: string,
-    timeout = 300000 // 5 minutes
+    timeout = 300000, // 5 minutes
+    interval = 5000
   ): Promise<VercelDeployment> {
     const startTime = Date.now();
 
@@ -203,8 +261,7 @@ export class VercelService {
         throw new Error(`Deployment failed with state: ${deployment.state}`);
       }
 
-      // Wait 5 seconds before checking again
-      await new Promise((resolve) => setTimeout(resolve, 5000));
+      await new Promise((resolve) => setTimeout(resolve, interval));
     }
 
     throw new Error("Deployment timed out");
@@ -221,43 +278,102 @@ export class VercelService {
 }
 
 /**
- * Deploy a project to Vercel
+ * Deploy a project to Vercel, either by uploading its files or from a commit
+ * of its GitHub repository. Vercel runs the build in both modes.
  */
 export async function deployToVercel(
-  config: DeploymentConfig
+  config: VercelDeployConfig,
+  options: { pollInterval?: number } = {}
 ): Promise<DeploymentResult> {
   try {
     const vercel = new VercelService();
 
-    // Check if project exists, create if not
-    let project = await vercel.getProject(config.projectName);
+    if (config.mode === "git" && !config.gitSource) {
+      throw new Error("A GitHub repository is required for git deployments");
+    }
+    if (config.mode === "files" && !config.files?.length) {
+      throw new Error("No files to deploy");
+    }
+
+    // Reuse the saved project, then a project with the same name, else create one
+    let project = config.projectId
+      ? await vercel.getProject(config.projectId)
+      : null;
+    if (!project) {
+      project = await vercel.getProject(config.projectName);
+    }
     if (!project) {
       project = await vercel.createProject({
         name: config.projectName,
         buildCommand: config.buildCommand,
         outputDirectory: config.outputDirectory,
+        ...(config.mode === "git" &&
+          config.gitSource && {
+            gitRepository: { type: "github", repo: config.gitSource.repo },
+          }),
       });
     }
 
     // Set environment variables if provided
-    if (config.envVariables) {
+    if (config.envVariables && Object.keys(config.envVariables).length > 0) {
       await vercel.setEnvironmentVariables(project.id, config.envVariables);
     }
 
-    // Trigger deployment
-    const deployment = await vercel.deploy({
-      projectId: project.id,
-      target: "production",
-    });
+    const logs: string[] = [];
+    let deployment: VercelDeployment;
+
+    if (config.mode === "git" && config.gitSource) {
+      deployment = await vercel.deploy({
+        projectId: project.id,
+        name: config.projectName,
+        gitSource: {
+          type: "github",
+          repoId: config.gitSource.repoId,
+          ref: config.gitSource.ref,
+        },
+        target: "production",
+      });
+      logs.push(`Deploying ${config.gitSource.repo}@${config.gitSource.ref}`);
+    } else {
+      // Upload each distinct content once, then reference it by digest
+      const manifest: VercelDeploymentFile[] = [];
+      const uploaded = new Set<string>();
+      for (const file of config.files ?? []) {
+        const content = Buffer.from(file.content, "utf8");
+        const sha = createHash("sha1").update(content).digest("hex");
+        if (!uploaded.has(sha)) {
+          await vercel.uploadFile(content);
+          uploaded.add(sha);
+        }
+        manifest.push({
+          file: file.path.replace(/^\.?\/+/, ""),
+          sha,
+          size: content.length,
+        });
+      }
+      logs.push(`Uploaded ${uploaded.size} unique files (${manifest.length} total)`);
+
+      deployment = await vercel.deploy({
+        projectId: project.id,
+        name: config.projectName,
+        files: manifest,
+        target: "production",
+      });
+    }
 
     // Wait for deployment to complete
-    const finalDeployment = await vercel.waitForDeployment(deployment.id);
+    const finalDeployment = await vercel.waitForDeployment(
+      deployment.id,
+      undefined,
+      options.pollInterval
+    );
 
     return {
       success: true,
       url: `https://${finalDeployment.url}`,
       deploymentId: finalDeployment.id,
-      logs: [],
+      siteId: project.id,
+      logs,
     };
   } catch (error) {
     return {
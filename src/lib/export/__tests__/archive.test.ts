@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { gunzipSync, inflateRawSync } from 'zlib';
+import {
+  getFileMode,
+  createArchiveEntries,
+  createArchiveStream,
+  zipArchive,
+  tarArchive,
+  crc32,
+  MANIFEST_FILENAME,
+} from '../archive';
+
+const files = [
+  { path: 'scripts/start.sh', content: 'echo start\n' },
+  { path: 'src/index.ts', content: 'export const answer = 42;\n'.repeat(20) },
+];
+
+async function readStream(stream: ReadableStream<Uint8Array>) {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+// Entries of an uncompressed tar buffer, following PAX path headers
+function readTar(buffer: Buffer) {
+  const entries: { path: string; mode: number; content: string }[] = [];
+  let offset = 0;
+  let paxPath: string | undefined;
+  while (buffer[offset] !== 0) {
+    const header = buffer.subarray(offset, offset + 512);
+    const field = (start: number, length: number) =>
+      header.subarray(start, start + length).toString('utf8').split('\0')[0];
+    const size = parseInt(field(124, 12), 8);
+    const content = buffer.subarray(offset + 512, offset + 512 + size).toString('utf8');
+    if (field(156, 1) === 'x') {
+      paxPath = /path=(.*)\n/.exec(content)?.[1];
+    } else {
+      const prefix = field(345, 155);
+      const name = field(0, 100);
+      entries.push({ path: paxPath ?? (prefix ? `${prefix}/${name}` : name), mode: parseInt(field(100, 8), 8), content });
+      paxPath = undefined;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+}
+
+describe('Project archives', () => {
+  it('should keep stored modes and mark scripts executable', () => {
+    expect(getFileMode({ path: 'bin/cli', content: '#!/usr/bin/env node\n' })).toBe(0o755);
+    expect(getFileMode({ path: 'deploy.sh', content: 'set -e\n' })).toBe(0o755);
+    expect(getFileMode({ path: 'README.md', content: '# App\n' })).toBe(0o644);
+    expect(getFileMode({ path: 'run', content: 'x', mode: 0o700 })).toBe(0o700);
+  });
+
+  it('should add a manifest with checksums under the root directory', () => {
+    const entries = createArchiveEntries(files, { rootDir: 'todo', manifest: true });
+    const manifest = JSON.parse(entries[2].content.toString('utf8'));
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      'todo/scripts/start.sh',
+      'todo/src/index.ts',
+      `todo/${MANIFEST_FILENAME}`,
+    ]);
+    expect(manifest.files[0]).toEqual({
+      path: 'scripts/start.sh',
+      size: 11,
+      mode: '0755',
+      sha256: createHash('sha256').update('echo start\n').digest('hex'),
+    });
+  });
+
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('should write a zip with deflated entries and Unix modes', () => {
+    const entries = createArchiveEntries(files);
+    const zip = Buffer.concat([...zipArchive(entries)]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+
+    const central = zip.subarray(end.readUInt32LE(16));
+    expect(central.readUInt32LE(38) >>> 16).toBe(0o100755);
+
+    // Second local entry is deflated
+    const second = zip.indexOf(Buffer.from('src/index.ts')) - 30;
+    expect(zip.readUInt16LE(second + 8)).toBe(8);
+    const data = zip.subarray(second + 30 + 12, second + 30 + 12 + zip.readUInt32LE(second + 18));
+    expect(inflateRawSync(data).toString('utf8')).toBe(files[1].content);
+  });
+
+  it('should write a tar with modes and long paths', () => {
+    const longPath = `${'a'.repeat(120)}/${'b'.repeat(120)}.txt`;
+    const entries = createArchiveEntries([...files, { path: longPath, content: 'long' }]);
+
+    expect(readTar(Buffer.concat([...tarArchive(entries)]))).toEqual([
+      { path: 'scripts/start.sh', mode: 0o755, content: 'echo start\n' },
+      { path: 'src/index.ts', mode: 0o644, content: files[1].content },
+      { path: longPath, mode: 0o644, content: 'long' },
+    ]);
+  });
+
+  it('should stream a gzipped tarball', async () => {
+    const archive = await readStream(createArchiveStream(files, 'tar.gz', { rootDir: 'todo' }));
+
+    expect(readTar(gunzipSync(archive)).map((entry) => entry.path)).toEqual([
+      'todo/scripts/start.sh',
+      'todo/src/index.ts',
+    ]);
+  });
+});
@@ -0,0 +1,338 @@
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { createGzip, deflateRawSync } from "zlib";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["zip", "tar.gz"];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+};
+
+// Written at the archive root when a manifest is requested
+export const MANIFEST_FILENAME = "export-manifest.json";
+
+export interface ArchiveEntry {
+  path: string;
+  content: Buffer;
+  mode: number;
+}
+
+export interface ArchiveOptions {
+  // Directory every entry is placed under, e.g. the project slug
+  rootDir?: string;
+  // Add a manifest with the size, mode and SHA-256 of every file
+  manifest?: boolean;
+  modifiedAt?: Date;
+}
+
+export interface ExportManifest {
+  generatedAt: string;
+  files: Array<{ path: string; size: number; mode: string; sha256: string }>;
+}
+
+const DEFAULT_FILE_MODE = 0o644;
+const EXECUTABLE_FILE_MODE = 0o755;
+
+/**
+ * Permission bits for a file: its stored mode, or executable for shell
+ * scripts and files starting with a shebang
+ */
+export function getFileMode(file: GeneratedFileOutput): number {
+  if (file.mode !== undefined) {
+    return file.mode;
+  }
+  if (file.content.startsWith("#!") || /\.(sh|bash)$/.test(file.path)) {
+    return EXECUTABLE_FILE_MODE;
+  }
+  return DEFAULT_FILE_MODE;
+}
+
+export function createManifest(
+  entries: ArchiveEntry[],
+  generatedAt = new Date()
+): ExportManifest {
+  return {
+    generatedAt: generatedAt.toISOString(),
+    files: entries.map((entry) => ({
+      path: entry.path,
+      size: entry.content.length,
+      mode: entry.mode.toString(8).padStart(4, "0"),
+      sha256: createHash("sha256").update(entry.content).digest("hex"),
+    })),
+  };
+}
+
+/**
+ * Files as archive entries, with the manifest appended when requested
+ */
+export function createArchiveEntries(
+  files: GeneratedFileOutput[],
+  options: ArchiveOptions = {}
+): ArchiveEntry[] {
+  const entries = files.map((file) => ({
+    path: file.path,
+    content: Buffer.from(file.content, "utf8"),
+    mode: getFileMode(file),
+  }));
+
+  if (
+    options.manifest &&
+    !entries.some((entry) => entry.path === MANIFEST_FILENAME)
+  ) {
+    const manifest = createManifest(entries, options.modifiedAt);
+    entries.push({
+      path: MANIFEST_FILENAME,
+      content: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, "utf8"),
+      mode: DEFAULT_FILE_MODE,
+    });
+  }
+
+  if (options.rootDir) {
+    const rootDir = options.rootDir;
+    return entries.map((entry) => ({
+      ...entry,
+      path: `${rootDir}/${entry.path}`,
+    }));
+  }
+  return entries;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980) - 1980;
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: (year << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// CRC-32 lookup table (IEEE polynomial), as used by ZIP
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/**
+ * CRC-32 of a buffer. zlib.crc32 only exists from Node 20.15 / 22.2.
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * ZIP archive chunks. Entries are deflated unless that makes them larger,
+ * and the Unix mode is kept in the external attributes.
+ */
+export function* zipArchive(
+  entries: ArchiveEntry[],
+  modifiedAt = new Date()
+): Generator<Buffer> {
+  const { time, date } = dosDateTime(modifiedAt);
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, "utf8");
+    const deflated = deflateRawSync(entry.content);
+    const stored = deflated.length >= entry.content.length;
+    const data = stored ? entry.content : deflated;
+    const checksum = crc32(entry.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(entry.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    // Made by Unix, so extracting tools honor the mode
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and internal attributes stay zero
+    central.writeUInt32LE(((0o100000 | entry.mode) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centralDirectory.push(central, name);
+
+    yield Buffer.concat([local, name, data]);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield Buffer.concat([directory, end]);
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+function writeString(
+  header: Buffer,
+  value: string,
+  offset: number,
+  length: number
+) {
+  const size = Math.min(Buffer.byteLength(value), length);
+  header.write(value, offset, size, "utf8");
+}
+
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+) {
+  const octal = value.toString(8).padStart(length - 1, "0");
+  header.write(`${octal}\0`, offset, length, "ascii");
+}
+
+function padding(size: number): Buffer {
+  const remainder = size % TAR_BLOCK_SIZE;
+  return Buffer.alloc(remainder ? TAR_BLOCK_SIZE - remainder : 0);
+}
+
+/**
+ * Split a path into the ustar `prefix` and `name` fields. Returns null when
+ * it does not fit and needs a PAX header.
+ */
+function splitTarPath(path: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(path) <= 100) {
+    return { prefix: "", name: path };
+  }
+  for (
+    let index = path.indexOf("/");
+    index !== -1;
+    index = path.indexOf("/", index + 1)
+  ) {
+    const prefix = path.slice(0, index);
+    const name = path.slice(index + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name };
+    }
+  }
+  return null;
+}
+
+function tarHeader(
+  name: string,
+  prefix: string,
+  size: number,
+  mode: number,
+  mtime: number,
+  type: "0" | "x"
+): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156); // checksum is computed with spaces here
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\0" + "00", 257, 8, "ascii");
+  writeString(header, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  const octal = checksum.toString(8).padStart(6, "0");
+  header.write(`${octal}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  // The length prefix counts its own digits
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * Uncompressed ustar archive chunks, with PAX headers for long paths
+ */
+export function* tarArchive(
+  entries: ArchiveEntry[],
+  modifiedAt = new Date()
+): Generator<Buffer> {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+
+  for (const entry of entries) {
+    let fields = splitTarPath(entry.path);
+    if (!fields) {
+      const pax = Buffer.from(paxRecord("path", entry.path), "utf8");
+      yield tarHeader("PaxHeader", "", pax.length, 0o644, mtime, "x");
+      yield Buffer.concat([pax, padding(pax.length)]);
+      fields = { prefix: "", name: entry.path.slice(-100) };
+    }
+
+    yield tarHeader(
+      fields.name,
+      fields.prefix,
+      entry.content.length,
+      entry.mode,
+      mtime,
+      "0"
+    );
+    yield Buffer.concat([entry.content, padding(entry.content.length)]);
+  }
+
+  // End of archive marker
+  yield Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
+
+/**
+ * Stream the files as an archive in the given format
+ */
+export function createArchiveStream(
+  files: GeneratedFileOutput[],
+  format: ArchiveFormat,
+  options: ArchiveOptions = {}
+): ReadableStream<Uint8Array> {
+  const modifiedAt = options.modifiedAt ?? new Date();
+  const entries = createArchiveEntries(files, { ...options, modifiedAt });
+
+  const stream =
+    format === "zip"
+      ? Readable.from(zipArchive(entries, modifiedAt))
+      : Readable.from(tarArchive(entries, modifiedAt)).pipe(createGzip());
+
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, buildFileTree, findFile, withLanguage } from '..';
+
+const files = [
+  { path: 'src/index.ts', content: 'export {};' },
+  { path: 'README.md', content: '# App' },
+  { path: 'src/components/button.tsx', content: 'export const Button = 1;' },
+  { path: 'Dockerfile', content: 'FROM node:20' },
+];
+
+describe('File tree', () => {
+  it('should detect languages from extensions and file names', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectLanguage('lib/util.MJS')).toBe('javascript');
+    expect(detectLanguage('docker/Dockerfile')).toBe('dockerfile');
+    expect(detectLanguage('Dockerfile.dev')).toBe('dockerfile');
+    expect(detectLanguage('.env.local')).toBe('dotenv');
+    expect(detectLanguage('prisma/schema.prisma')).toBe('prisma');
+    expect(detectLanguage('LICENSE')).toBe('plaintext');
+  });
+
+  it('should nest files with directories first and sizes rolled up', () => {
+    const tree = buildFileTree(files);
+
+    expect(tree).toEqual({
+      name: '',
+      path: '',
+      type: 'directory',
+      size: 51,
+      children: [
+        {
+          name: 'src',
+          path: 'src',
+          type: 'directory',
+          size: 34,
+          children: [
+            {
+              name: 'components',
+              path: 'src/components',
+              type: 'directory',
+              size: 24,
+              children: [
+                { name: 'button.tsx', path: 'src/components/button.tsx', type: 'file', size: 24, language: 'typescript' },
+              ],
+            },
+            { name: 'index.ts', path: 'src/index.ts', type: 'file', size: 10, language: 'typescript' },
+          ],
+        },
+        { name: 'Dockerfile', path: 'Dockerfile', type: 'file', size: 12, language: 'dockerfile' },
+        { name: 'README.md', path: 'README.md', type: 'file', size: 5, language: 'markdown' },
+      ],
+    });
+  });
+
+  it('should only include contents when asked', () => {
+    const readme = (tree: ReturnType<typeof buildFileTree>) => tree.children?.find((node) => node.name === 'README.md');
+
+    expect(readme(buildFileTree(files))).not.toHaveProperty('content');
+    expect(readme(buildFileTree(files, { includeContent: true }))?.content).toBe('# App');
+  });
+
+  it('should find a file by path with its language', () => {
+    expect(findFile(files, '/src/index.ts')).toEqual({ path: 'src/index.ts', content: 'export {};', language: 'typescript' });
+    expect(findFile(files, 'src/missing.ts')).toBeUndefined();
+    expect(withLanguage(files).map((file) => file.language)).toEqual(['typescript', 'markdown', 'typescript', 'dockerfile']);
+  });
+});
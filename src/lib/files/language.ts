@@ -0,0 +1,82 @@
+import { posix } from "path";
+
+// Language identifiers follow the names used by Monaco and most highlighters
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".ts": "typescript",
+  ".tsx": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".json": "json",
+  ".jsonc": "json",
+  ".html": "html",
+  ".htm": "html",
+  ".css": "css",
+  ".scss": "scss",
+  ".sass": "scss",
+  ".less": "less",
+  ".md": "markdown",
+  ".mdx": "markdown",
+  ".yml": "yaml",
+  ".yaml": "yaml",
+  ".toml": "toml",
+  ".xml": "xml",
+  ".svg": "xml",
+  ".py": "python",
+  ".rb": "ruby",
+  ".go": "go",
+  ".rs": "rust",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".php": "php",
+  ".cs": "csharp",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".hpp": "cpp",
+  ".swift": "swift",
+  ".sh": "shell",
+  ".bash": "shell",
+  ".zsh": "shell",
+  ".sql": "sql",
+  ".prisma": "prisma",
+  ".graphql": "graphql",
+  ".gql": "graphql",
+  ".vue": "vue",
+  ".svelte": "svelte",
+  ".ini": "ini",
+  ".env": "dotenv",
+};
+
+// Files recognised by name rather than extension
+const FILENAME_LANGUAGES: Record<string, string> = {
+  Dockerfile: "dockerfile",
+  Makefile: "makefile",
+  Gemfile: "ruby",
+  Procfile: "shell",
+  ".gitignore": "ignore",
+  ".dockerignore": "ignore",
+  ".npmrc": "ini",
+  ".editorconfig": "ini",
+};
+
+/**
+ * Detect a file's language from its name or extension. Returns
+ * "plaintext" when it is not recognised.
+ */
+export function detectLanguage(path: string): string {
+  const name = posix.basename(path);
+  if (FILENAME_LANGUAGES[name]) {
+    return FILENAME_LANGUAGES[name];
+  }
+  if (/^Dockerfile\./.test(name) || name.endsWith(".dockerfile")) {
+    return "dockerfile";
+  }
+  if (/^\.env(\..+)?$/.test(name)) {
+    return "dotenv";
+  }
+  return EXTENSION_LANGUAGES[posix.extname(name).toLowerCase()] ?? "plaintext";
+}
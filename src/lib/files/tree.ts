@@ -0,0 +1,102 @@
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+import { FileTree, GeneratedFile } from "@/types";
+import { detectLanguage } from "./language";
+
+export interface FileTreeOptions {
+  // Include each file's content in its node; off by default to keep the
+  // tree small for large projects
+  includeContent?: boolean;
+}
+
+function sortTree(node: FileTree) {
+  if (!node.children) {
+    return;
+  }
+  // Directories first, then files, each alphabetically
+  node.children.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === "directory" ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+  node.children.forEach(sortTree);
+}
+
+/**
+ * Build a nested tree from flat generated files. The root node is an
+ * unnamed directory; directory sizes are the total of their files.
+ */
+export function buildFileTree(
+  files: GeneratedFileOutput[],
+  options: FileTreeOptions = {}
+): FileTree {
+  const root: FileTree = {
+    name: "",
+    path: "",
+    type: "directory",
+    children: [],
+    size: 0,
+  };
+  const directories = new Map<string, FileTree>([["", root]]);
+
+  for (const file of files) {
+    const segments = file.path.split("/").filter(Boolean);
+    const size = Buffer.byteLength(file.content, "utf8");
+    let parent = root;
+    parent.size = (parent.size ?? 0) + size;
+
+    for (let depth = 1; depth < segments.length; depth++) {
+      const path = segments.slice(0, depth).join("/");
+      let directory = directories.get(path);
+      if (!directory) {
+        directory = {
+          name: segments[depth - 1],
+          path,
+          type: "directory",
+          children: [],
+          size: 0,
+        };
+        directories.set(path, directory);
+        parent.children?.push(directory);
+      }
+      directory.size = (directory.size ?? 0) + size;
+      parent = directory;
+    }
+
+    parent.children?.push({
+      name: segments[segments.length - 1],
+      path: segments.join("/"),
+      type: "file",
+      size,
+      language: detectLanguage(file.path),
+      ...(options.includeContent && { content: file.content }),
+    });
+  }
+
+  sortTree(root);
+  return root;
+}
+
+/**
+ * Add the detected language to each file
+ */
+export function withLanguage(files: GeneratedFileOutput[]): GeneratedFile[] {
+  return files.map((file) => ({
+    ...file,
+    language: detectLanguage(file.path),
+  }));
+}
+
+/**
+ * Find a file by path, ignoring leading "./" or "/". Returns undefined when
+ * the project has no such file.
+ */
+export function findFile(
+  files: GeneratedFileOutput[],
+  path: string
+): GeneratedFile | undefined {
+  const normalize = (value: string) => value.replace(/^(\.?\/)+/, "");
+  const target = normalize(path);
+  const file = files.find((candidate) => normalize(candidate.path) === target);
+  return file && { ...file, language: detectLanguage(file.path) };
+}
@@ -0,0 +1,98 @@
+import { ProjectStatus } from "@prisma/client";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+
+// Delay between checks for a cancellation made by another process (1 second)
+export const CANCEL_POLL_INTERVAL_MS = 1000;
+
+export class GenerationCancelledError extends Error {
+  constructor(public readonly generationId: string) {
+    super("Generation was cancelled");
+    this.name = "GenerationCancelledError";
+  }
+}
+
+export interface GenerationTracker {
+  // Aborts the provider calls once the generation is cancelled
+  signal: AbortSignal;
+  stop(): void;
+}
+
+// Generations running in this process, aborted directly on cancellation
+const activeGenerations = new Map<string, AbortController>();
+
+/**
+ * Track a running generation. The signal aborts when the generation is
+ * cancelled, either in this process or by another one (found by polling
+ * the generation's status). Call stop() once the generation has finished.
+ */
+export function trackGeneration(
+  generationId: string,
+  pollInterval = CANCEL_POLL_INTERVAL_MS
+): GenerationTracker {
+  const controller = new AbortController();
+  activeGenerations.set(generationId, controller);
+
+  const timer = setInterval(async () => {
+    try {
+      const generation = await db.codeGeneration.findUnique({
+        where: { id: generationId },
+        select: { status: true },
+      });
+      if (generation?.status === "CANCELLED") {
+        controller.abort();
+      }
+    } catch (error) {
+      console.error("Error checking for generation cancellation:", error);
+    }
+  }, pollInterval);
+  timer.unref?.();
+
+  return {
+    signal: controller.signal,
+    stop: () => {
+      clearInterval(timer);
+      activeGenerations.delete(generationId);
+    },
+  };
+}
+
+/**
+ * Cancel a queued or running generation: mark it CANCELLED, put the project
+ * back in the status it had before, and abort the provider calls. Returns
+ * false when the generation had already finished.
+ */
+export async function cancelGeneration(
+  userId: string,
+  generation: {
+    id: string;
+    projectId: string;
+    previousProjectStatus: ProjectStatus | null;
+  }
+): Promise<boolean> {
+  const { count } = await db.codeGeneration.updateMany({
+    where: { id: generation.id, status: { in: ["PENDING", "PROCESSING"] } },
+    data: { status: "CANCELLED", completedAt: new Date() },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  activeGenerations.get(generation.id)?.abort();
+
+  const projectStatus = generation.previousProjectStatus ?? "DRAFT";
+  await db.project.update({
+    where: { id: generation.projectId },
+    data: { status: projectStatus },
+  });
+
+  await audit.update(
+    userId,
+    "CodeGeneration",
+    generation.id,
+    { status: "PROCESSING" },
+    { status: "CANCELLED", projectStatus }
+  );
+
+  return true;
+}
@@ -0,0 +1,262 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { audit } from "@/lib/compliance";
+import { recordProjectVersion } from "@/lib/versions";
+import {
+  createSecurityReport,
+  isSafePath,
+  protectSecrets,
+  summarizeFindings,
+  SecretLeakError,
+} from "@/lib/analysis";
+import {
+  CodeGenerationOutcome,
+  ProviderChainError,
+  UsageMeter,
+} from "@/lib/ai";
+import { repairGeneratedFiles, RepairOptions } from "@/lib/ai/repair";
+import { GenerationCancelledError } from "./cancel";
+
+export type GenerationOutcome = Pick<
+  CodeGenerationOutcome,
+  "files" | "incompleteFiles" | "result"
+> & { continuations?: number };
+
+/**
+ * Validate the generated files, repairing them while errors remain, then
+ * mark the generation as completed and store the files on the project.
+ * Files with unsafe paths are dropped and secrets are redacted, or the
+ * generation is refused when secret scanning is in block mode. Nothing is
+ * saved once the generation has been cancelled, whether the cancellation
+ * aborted `repairOptions.signal` or landed just before the final write.
+ */
+export async function completeGeneration(
+  userId: string,
+  projectId: string,
+  codeGenId: string,
+  outcome: GenerationOutcome,
+  repairOptions: RepairOptions,
+  envValues: string[]
+) {
+  const { result, incompleteFiles } = outcome;
+  const repair = await repairGeneratedFiles(outcome.files, repairOptions);
+  const { validation } = repair;
+
+  // Cancelled during repair; the cancellation has already updated the records
+  if (repairOptions.signal?.aborted) {
+    throw new GenerationCancelledError(codeGenId);
+  }
+
+  const secrets = protectSecrets(
+    repair.files.filter((file) => isSafePath(file.path)),
+    { envValues }
+  );
+  if (secrets.findings.length > 0) {
+    await audit.security(userId, "SECRETS_DETECTED", {
+      projectId,
+      codeGenId,
+      mode: secrets.mode,
+      findings: summarizeFindings(secrets.findings),
+    });
+  }
+  if (secrets.blocked) {
+    throw new SecretLeakError(secrets.findings);
+  }
+  const { files } = secrets;
+  const security = createSecurityReport(files);
+  const costUsd =
+    repair.rounds > 0 ? (result.costUsd ?? 0) + repair.costUsd : result.costUsd;
+
+  const spend = await addRecordedSpend(codeGenId, {
+    tokenUsage: {
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+    },
+    costUsd,
+  });
+
+  // Only a generation that is still running is completed; a cancellation
+  // has already restored the project
+  const { count } = await db.codeGeneration.updateMany({
+    where: { id: codeGenId, status: "PROCESSING" },
+    data: {
+      output: files,
+      incompleteFiles: incompleteFiles.length > 0 ? incompleteFiles : undefined,
+      model: result.model,
+      provider: result.provider,
+      attempts: result.attempts as object[] | undefined,
+      ...spend,
+      cacheHit: result.cacheHit ?? false,
+      diagnostics: validation.diagnostics as object[],
+      securityFindings: security.findings as object[],
+      repairRounds: repair.rounds,
+      repairTokenUsage:
+        repair.rounds > 0
+          ? {
+              inputTokens: repair.usage.inputTokens,
+              outputTokens: repair.usage.outputTokens,
+            }
+          : undefined,
+      durationMs: result.durationMs,
+      status: "COMPLETED",
+      completedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw new GenerationCancelledError(codeGenId);
+  }
+
+  const project = await db.project.update({
+    where: { id: projectId },
+    data: {
+      status: "GENERATED",
+      generatedFiles: files,
+      version: { increment: 1 },
+    },
+  });
+
+  await recordProjectVersion(project, {
+    source: "generate",
+    codeGenerationId: codeGenId,
+    createdById: userId,
+  });
+
+  await audit.create(userId, "CodeGeneration", codeGenId, {
+    projectId,
+    model: result.model,
+    costUsd,
+    cacheHit: result.cacheHit ?? false,
+    filesGenerated: files.length,
+    incompleteFiles: incompleteFiles.length,
+    continuations: outcome.continuations ?? 0,
+    repairRounds: repair.rounds,
+    validationErrors: validation.errorCount,
+    secretsRedacted: secrets.findings.length,
+    securityFindings: security.counts,
+  });
+
+  return {
+    files,
+    validation,
+    security,
+    repair,
+    costUsd,
+    secrets: secrets.findings,
+  };
+}
+
+interface SpendFields {
+  tokenUsage?: { inputTokens: number; outputTokens: number };
+  costUsd?: number;
+}
+
+/**
+ * Add the spend already recorded on a generation to the spend of this run,
+ * so a resumed generation keeps what its earlier runs were billed
+ */
+async function addRecordedSpend(
+  codeGenId: string,
+  spend: SpendFields
+): Promise<SpendFields> {
+  if (!spend.tokenUsage) {
+    return spend;
+  }
+  const recorded = await db.codeGeneration.findUnique({
+    where: { id: codeGenId },
+    select: { tokenUsage: true, costUsd: true },
+  });
+  const tokens = recorded?.tokenUsage as SpendFields["tokenUsage"] | null;
+  if (!tokens) {
+    return spend;
+  }
+  return {
+    tokenUsage: {
+      inputTokens: (tokens.inputTokens ?? 0) + spend.tokenUsage.inputTokens,
+      outputTokens:
+        (tokens.outputTokens ?? 0) + spend.tokenUsage.outputTokens,
+    },
+    costUsd: (recorded?.costUsd ?? 0) + (spend.costUsd ?? 0),
+  };
+}
+
+/**
+ * Usage and cost fields for a generation that did not complete, so billed
+ * responses still count against the budget
+ */
+export function spendData(spend?: UsageMeter): SpendFields {
+  if (!spend || (spend.inputTokens === 0 && spend.outputTokens === 0)) {
+    return {};
+  }
+  return {
+    tokenUsage: {
+      inputTokens: spend.inputTokens,
+      outputTokens: spend.outputTokens,
+    },
+    costUsd: spend.costUsd,
+  };
+}
+
+/**
+ * Record the spend of a cancelled generation; its status was already set
+ * by the cancellation
+ */
+export async function recordCancelledSpend(
+  codeGenId: string,
+  spend: UsageMeter
+) {
+  const data = spendData(spend);
+  if (Object.keys(data).length === 0) {
+    return;
+  }
+  await db.codeGeneration.update({
+    where: { id: codeGenId },
+    data: await addRecordedSpend(codeGenId, data),
+  });
+}
+
+/**
+ * Mark a generation and its project as failed, recording whatever the
+ * provider billed before the failure. A generation that was cancelled in
+ * the meantime keeps its status and only the spend is recorded.
+ */
+export async function failGeneration(
+  userId: string,
+  projectId: string,
+  codeGenId: string,
+  genError: unknown,
+  spend?: UsageMeter
+) {
+  const { count } = await db.codeGeneration.updateMany({
+    where: { id: codeGenId, status: "PROCESSING" },
+    data: {
+      ...(await addRecordedSpend(codeGenId, spendData(spend))),
+      status: "FAILED",
+      errorMessage:
+        genError instanceof Error ? genError.message : "Unknown error",
+      ...(genError instanceof ProviderChainError && {
+        attempts: genError.attempts as object[],
+      }),
+      // Partial output saved while streaming may contain the secrets
+      ...(genError instanceof SecretLeakError && { output: Prisma.DbNull }),
+    },
+  });
+  if (count === 0) {
+    if (spend) {
+      await recordCancelledSpend(codeGenId, spend);
+    }
+    return;
+  }
+
+  await db.project.update({
+    where: { id: projectId },
+    data: { status: "FAILED" },
+  });
+
+  await audit.error(
+    userId,
+    "CodeGeneration",
+    "GENERATE",
+    genError instanceof Error ? genError.message : "Unknown error",
+    { projectId, codeGenId }
+  );
+}
@@ -0,0 +1,139 @@
+import { db } from "@/lib/db";
+import {
+  createUsageMeter,
+  generateProjectFiles,
+  LLMProvider,
+} from "@/lib/ai";
+import {
+  runPlannedGeneration,
+  PlannedGenerationProgress,
+} from "@/lib/ai/planner";
+import { redactPartialFiles } from "@/lib/analysis";
+import {
+  completeGeneration,
+  failGeneration,
+  recordCancelledSpend,
+  GenerationOutcome,
+} from "./complete";
+import { GenerationCancelledError, trackGeneration } from "./cancel";
+
+export const GENERATE_JOB = "generate";
+
+// Everything the worker needs to run a queued generation. Environment
+// variable values are read from the project when the job runs instead of
+// being copied into the queue.
+export type GenerateJobPayload = {
+  generationId: string;
+  projectId: string;
+  userId: string;
+  mode: "single" | "planned";
+  // Resolved prompt for single generations
+  prompt: string;
+  // Planned generations write their own prompts from these
+  projectDescription: string;
+  techStack: string[];
+  provider?: LLMProvider;
+  model?: string;
+  skipCache: boolean;
+  repairRounds?: number;
+};
+
+/**
+ * Run a queued generation. Planned generations pick up the progress saved
+ * on the generation, so a resumed generation continues from its last
+ * finished batch. Failures are recorded on the generation and do not fail
+ * the job; a cancelled generation stops without further writes.
+ */
+export async function runGenerateJob(
+  payload: GenerateJobPayload
+): Promise<void> {
+  const { generationId, projectId, userId } = payload;
+
+  const generation = await db.codeGeneration.findUnique({
+    where: { id: generationId },
+  });
+  // Cancelled while queued
+  if (!generation || generation.status !== "PROCESSING") {
+    return;
+  }
+
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { envVariables: true },
+  });
+  // Environment variable values must not end up in the generated source
+  const envValues = Object.values(
+    (project?.envVariables as Record<string, string> | null) ?? {}
+  );
+
+  const tracker = trackGeneration(generationId);
+  const spend = createUsageMeter();
+
+  try {
+    const generateOptions = {
+      provider: payload.provider,
+      model: payload.model,
+      maxTokens: 8192,
+      temperature: 0.7,
+      structuredOutput: true,
+      cache: !payload.skipCache,
+      signal: tracker.signal,
+      onUsage: spend.record,
+    };
+
+    // Generate code, continuing if the output is cut off. Planned mode
+    // writes a file manifest first and saves progress after every batch.
+    const outcome: GenerationOutcome =
+      payload.mode === "planned"
+        ? await runPlannedGeneration(
+            {
+              projectDescription: payload.projectDescription,
+              techStack: payload.techStack,
+            },
+            {
+              ...generateOptions,
+              progress:
+                (generation.progress as unknown as PlannedGenerationProgress) ??
+                undefined,
+              onProgress: async (progress) => {
+                // Partial output is redacted before it is saved
+                const files = redactPartialFiles(progress.files, { envValues });
+                await db.codeGeneration.update({
+                  where: { id: generationId },
+                  data: {
+                    progress: { ...progress, files } as unknown as object,
+                    output: files,
+                  },
+                });
+              },
+            }
+          )
+        : await generateProjectFiles(
+            [{ role: "user", content: payload.prompt }],
+            generateOptions
+          );
+
+    await completeGeneration(
+      userId,
+      projectId,
+      generationId,
+      outcome,
+      { ...generateOptions, maxRounds: payload.repairRounds },
+      envValues
+    );
+  } catch (genError) {
+    // The cancellation has already updated the generation and project;
+    // only the spend is left to record
+    if (
+      tracker.signal.aborted ||
+      genError instanceof GenerationCancelledError
+    ) {
+      await recordCancelledSpend(generationId, spend);
+      return;
+    }
+    console.error("Error generating code:", genError);
+    await failGeneration(userId, projectId, generationId, genError, spend);
+  } finally {
+    tracker.stop();
+  }
+}
@@ -0,0 +1,403 @@
+import { posix } from "path";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+import { getUnsafePathReason } from "@/lib/analysis";
+
+/**
+ * A file read from an upload or a clone, before filtering. `content` is
+ * left out for files that were too large to read.
+ */
+export interface RawImportFile {
+  path: string;
+  size: number;
+  mode?: number;
+  content?: Buffer;
+}
+
+export interface ImportLimits {
+  // Larger files are skipped
+  maxFileBytes: number;
+  // Imports over these limits are rejected
+  maxTotalBytes: number;
+  maxFiles: number;
+  // Largest ZIP upload or repository clone accepted
+  maxArchiveBytes: number;
+}
+
+/**
+ * Running count of the files read from an upload or a clone
+ */
+export interface ReadBudget {
+  /**
+   * Whether a file should be read. Files that would be dropped anyway are
+   * not; the others are counted, and an ImportError is thrown as soon as
+   * the import goes over its limits.
+   */
+  admit(path: string, size: number): boolean;
+}
+
+export type SkipReason = "ignored" | "binary" | "too-large" | "unsafe-path";
+
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+}
+
+export interface ImportResult {
+  files: GeneratedFileOutput[];
+  skipped: SkippedFile[];
+  totalBytes: number;
+}
+
+/**
+ * Thrown when an upload or repository cannot be imported. `status` is the
+ * HTTP status the route responds with.
+ */
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const DEFAULT_MAX_FILE_BYTES = 512 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 2000;
+const DEFAULT_MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// Dependencies, build output and tool state, ignored at any depth
+const IGNORED_DIRECTORIES = new Set([
+  ".git",
+  "node_modules",
+  ".next",
+  ".nuxt",
+  ".svelte-kit",
+  ".turbo",
+  ".vercel",
+  ".netlify",
+  ".cache",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+  "__pycache__",
+  ".venv",
+  "venv",
+  "target",
+]);
+
+const IGNORED_FILES = new Set([".DS_Store", "Thumbs.db"]);
+
+const BINARY_EXTENSIONS = new Set([
+  ".png", ".jpg", ".jpeg", ".gif", ".webp", ".ico", ".bmp", ".tiff", ".avif",
+  ".pdf", ".zip", ".gz", ".tgz", ".tar", ".rar", ".7z", ".jar", ".war",
+  ".woff", ".woff2", ".ttf", ".otf", ".eot",
+  ".mp3", ".mp4", ".mov", ".avi", ".webm", ".wav", ".ogg",
+  ".exe", ".dll", ".so", ".dylib", ".class", ".pyc", ".o", ".a", ".wasm",
+  ".sqlite", ".db",
+]);
+
+// Bytes inspected for a NUL when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function getImportLimits(): ImportLimits {
+  return {
+    maxFileBytes: readLimit("IMPORT_MAX_FILE_BYTES", DEFAULT_MAX_FILE_BYTES),
+    maxTotalBytes: readLimit("IMPORT_MAX_TOTAL_BYTES", DEFAULT_MAX_TOTAL_BYTES),
+    maxFiles: readLimit("IMPORT_MAX_FILES", DEFAULT_MAX_FILES),
+    maxArchiveBytes: readLimit(
+      "IMPORT_MAX_ARCHIVE_BYTES",
+      DEFAULT_MAX_ARCHIVE_BYTES
+    ),
+  };
+}
+
+function hasBinaryExtension(path: string): boolean {
+  return BINARY_EXTENSIONS.has(posix.extname(path).toLowerCase());
+}
+
+export function isBinaryFile(path: string, content: Buffer): boolean {
+  return (
+    hasBinaryExtension(path) ||
+    content.subarray(0, BINARY_SNIFF_BYTES).includes(0)
+  );
+}
+
+export function isIgnoredDirectory(name: string): boolean {
+  return IGNORED_DIRECTORIES.has(name);
+}
+
+// Environment files hold real secrets; only examples are imported
+function isEnvFile(name: string): boolean {
+  return (
+    /^\.env(\..+)?$/.test(name) &&
+    !/\.(example|sample|template)$/.test(name)
+  );
+}
+
+function isDefaultIgnored(path: string): boolean {
+  const segments = path.split("/");
+  const name = segments[segments.length - 1];
+  return (
+    segments
+      .slice(0, -1)
+      .some((segment) => IGNORED_DIRECTORIES.has(segment)) ||
+    IGNORED_FILES.has(name) ||
+    isEnvFile(name)
+  );
+}
+
+interface IgnoreRule {
+  // Directory of the .gitignore the rule came from, "" for the root
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+function globToRegExp(glob: string): string {
+  let source = "";
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      // "**/" matches zero or more directories, a trailing "**" everything
+      if (glob[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", index + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        const members = glob
+          .slice(index + 1, close)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\");
+        source += `[${members}]`;
+        index = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse a .gitignore file into rules. Supports comments, negation,
+ * directory-only patterns, anchoring and `*`, `?`, `**` and classes.
+ */
+export function parseGitignore(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const negate = line.startsWith("!");
+    if (negate) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    // Patterns with a slash before the end are relative to the .gitignore
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (!line) {
+      continue;
+    }
+
+    const source = globToRegExp(line);
+    rules.push({
+      base,
+      pattern: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negate,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Whether a path is ignored by the rules. The path and each of its parent
+ * directories are checked, and the last matching rule wins.
+ */
+export function isIgnored(path: string, rules: IgnoreRule[]): boolean {
+  const segments = path.split("/");
+  let ignored = false;
+
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const candidate = segments.slice(0, depth).join("/");
+    const isDirectory = depth < segments.length;
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.base && !candidate.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      const relative = rule.base
+        ? candidate.slice(rule.base.length + 1)
+        : candidate;
+      if (rule.pattern.test(relative)) {
+        ignored = !rule.negate;
+      }
+    }
+
+    // Git never looks inside an ignored directory
+    if (ignored && isDirectory) {
+      return true;
+    }
+  }
+
+  return ignored;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+}
+
+/**
+ * Remove a directory every file sits under, e.g. the `repo-main/` folder
+ * of a downloaded archive
+ */
+function stripCommonRoot(files: RawImportFile[]): RawImportFile[] {
+  const roots = new Set(files.map((file) => file.path.split("/")[0]));
+  if (roots.size !== 1 || files.some((file) => !file.path.includes("/"))) {
+    return files;
+  }
+  const [root] = roots;
+  return files.map((file) => ({
+    ...file,
+    path: file.path.slice(root.length + 1),
+  }));
+}
+
+/**
+ * Create the budget a reader checks each file against, so an upload or
+ * clone over the limits is rejected before all of it has been read
+ */
+export function createReadBudget(limits: ImportLimits): ReadBudget {
+  let fileCount = 0;
+  let totalBytes = 0;
+
+  return {
+    admit(path, size) {
+      const normalized = normalizePath(path);
+      if (
+        size > limits.maxFileBytes ||
+        isDefaultIgnored(normalized) ||
+        hasBinaryExtension(normalized)
+      ) {
+        return false;
+      }
+
+      fileCount += 1;
+      totalBytes += size;
+      if (fileCount > limits.maxFiles) {
+        throw new ImportError(
+          `The import has more than ${limits.maxFiles} files`,
+          413
+        );
+      }
+      if (totalBytes > limits.maxTotalBytes) {
+        throw new ImportError(
+          `The import is larger than ${limits.maxTotalBytes} bytes`,
+          413
+        );
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Turn raw files into project files: drop ignored, binary, oversized and
+ * unsafe files, then enforce the file count and total size limits.
+ */
+export function collectImportFiles(
+  rawFiles: RawImportFile[],
+  limits: ImportLimits = getImportLimits()
+): ImportResult {
+  const normalized = stripCommonRoot(
+    rawFiles.map((file) => ({ ...file, path: normalizePath(file.path) }))
+  );
+
+  const rules = normalized
+    .filter(
+      (file) => posix.basename(file.path) === ".gitignore" && file.content
+    )
+    .flatMap((file) => {
+      const base = posix.dirname(file.path);
+      return parseGitignore(
+        file.content?.toString("utf8") ?? "",
+        base === "." ? "" : base
+      );
+    });
+
+  const files: GeneratedFileOutput[] = [];
+  const skipped: SkippedFile[] = [];
+  let totalBytes = 0;
+
+  normalized.sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of normalized) {
+    if (getUnsafePathReason(file.path)) {
+      skipped.push({ path: file.path, reason: "unsafe-path" });
+    } else if (isDefaultIgnored(file.path) || isIgnored(file.path, rules)) {
+      skipped.push({ path: file.path, reason: "ignored" });
+    } else if (hasBinaryExtension(file.path)) {
+      // Not read from the upload or clone, so there may be no content
+      skipped.push({ path: file.path, reason: "binary" });
+    } else if (!file.content || file.size > limits.maxFileBytes) {
+      skipped.push({ path: file.path, reason: "too-large" });
+    } else if (isBinaryFile(file.path, file.content)) {
+      skipped.push({ path: file.path, reason: "binary" });
+    } else {
+      totalBytes += file.content.length;
+      files.push({
+        path: file.path,
+        content: file.content.toString("utf8"),
+        ...(file.mode !== undefined && file.mode & 0o111
+          ? { mode: file.mode }
+          : {}),
+      });
+    }
+  }
+
+  if (files.length === 0) {
+    throw new ImportError("No importable text files were found");
+  }
+  if (files.length > limits.maxFiles) {
+    throw new ImportError(
+      `The import has ${files.length} files; the limit is ${limits.maxFiles}`,
+      413
+    );
+  }
+  if (totalBytes > limits.maxTotalBytes) {
+    throw new ImportError(
+      `The import is ${totalBytes} bytes; the limit is ${limits.maxTotalBytes}`,
+      413
+    );
+  }
+
+  return { files, skipped, totalBytes };
+}
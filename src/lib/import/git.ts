@@ -0,0 +1,238 @@
+import simpleGit from "simple-git";
+import { lookup } from "dns/promises";
+import { mkdtemp, readdir, readFile, rm, stat } from "fs/promises";
+import { BlockList, isIP } from "net";
+import { join, relative } from "path";
+import { tmpdir } from "os";
+import {
+  ImportError,
+  ImportLimits,
+  RawImportFile,
+  ReadBudget,
+  createReadBudget,
+  getImportLimits,
+  isIgnoredDirectory,
+} from "./files";
+
+export interface CloneOptions {
+  branch?: string;
+  limits?: ImportLimits;
+}
+
+// A clone that takes longer than this without output is aborted
+const CLONE_TIMEOUT_MS = 60_000;
+
+// How often the size of a running clone is checked
+const CLONE_SIZE_CHECK_MS = 500;
+
+// Addresses that would let a clone reach the server's own network.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+PRIVATE_ADDRESSES.addAddress("::", "ipv6");
+PRIVATE_ADDRESSES.addAddress("::1", "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+/**
+ * Whether a host name or IP address is on the server's own network. IPv6
+ * literals may keep the brackets they have in URLs.
+ */
+function isPrivateHost(host: string): boolean {
+  const address = host.replace(/^\[(.*)\]$/, "$1");
+  const family = isIP(address);
+  if (family) {
+    return PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+  }
+  return /(^|\.)localhost\.?$/i.test(host);
+}
+
+/**
+ * Check a repository URL before cloning. Only public HTTPS remotes are
+ * allowed, so uploads cannot read local paths or internal services.
+ */
+export function getRepositoryUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Repository URL is not a valid URL";
+  }
+  if (parsed.protocol !== "https:") {
+    return "Only https:// repository URLs are supported";
+  }
+  if (parsed.username || parsed.password) {
+    return "Repository URLs may not contain credentials";
+  }
+  if (isPrivateHost(parsed.hostname)) {
+    return "Repository URL points to a private address";
+  }
+  return null;
+}
+
+/**
+ * Resolve a repository host and return the address to clone from. Hosts
+ * with any private address are refused, since a name can resolve to an
+ * internal service as easily as a literal IP.
+ */
+export async function resolveRepositoryHost(hostname: string): Promise<string> {
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[(.*)\]$/, "$1"), {
+      all: true,
+    });
+  } catch {
+    throw new ImportError("The repository host could not be resolved", 422);
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isPrivateHost(address))
+  ) {
+    throw new ImportError("Repository URL points to a private address");
+  }
+  return addresses[0].address;
+}
+
+async function getDirectorySize(directory: string): Promise<number> {
+  let total = 0;
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const fullPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(fullPath);
+    } else if (entry.isFile()) {
+      total += (await stat(fullPath)).size;
+    }
+  }
+  return total;
+}
+
+async function walk(
+  root: string,
+  directory: string,
+  budget: ReadBudget,
+  files: RawImportFile[]
+): Promise<void> {
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const fullPath = join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      // Skip dependency and build folders rather than read and discard them
+      if (!isIgnoredDirectory(entry.name)) {
+        await walk(root, fullPath, budget, files);
+      }
+    } else if (entry.isFile()) {
+      const path = relative(root, fullPath).split("\\").join("/");
+      const { size, mode } = await stat(fullPath);
+      files.push({
+        path,
+        size,
+        mode: mode & 0o777,
+        ...(budget.admit(path, size) && {
+          content: await readFile(fullPath),
+        }),
+      });
+    }
+    // Symlinks are not followed; they could point outside the clone
+  }
+}
+
+/**
+ * Shallow clone a repository into a temporary directory and read its files.
+ * Clones over `maxArchiveBytes` are aborted, and reading stops as soon as
+ * the files go over the import limits. The clone is removed afterwards.
+ */
+export async function cloneRepository(
+  url: string,
+  options: CloneOptions = {}
+): Promise<RawImportFile[]> {
+  const urlError = getRepositoryUrlError(url);
+  if (urlError) {
+    throw new ImportError(urlError);
+  }
+  if (options.branch && !/^[\w][\w./-]*$/.test(options.branch)) {
+    throw new ImportError("Invalid branch name");
+  }
+
+  const { hostname, port } = new URL(url);
+  const address = await resolveRepositoryHost(hostname);
+  const limits = options.limits ?? getImportLimits();
+  const tooLarge = new ImportError(
+    `The repository is larger than ${limits.maxArchiveBytes} bytes`,
+    413
+  );
+  // Connect to the address that was checked rather than resolving again
+  const pinned = isIP(address) === 6 ? `[${address}]` : address;
+  const config =
+    isIP(hostname) || hostname.startsWith("[")
+      ? []
+      : [`http.curloptResolve=${hostname}:${port || 443}:${pinned}`];
+  const tempDir = await mkdtemp(join(tmpdir(), "project-scaffolder-import-"));
+
+  // Abort the clone once it takes more space than the limit
+  const controller = new AbortController();
+  let measuring = false;
+  const watcher = setInterval(() => {
+    if (measuring) {
+      return;
+    }
+    measuring = true;
+    getDirectorySize(tempDir)
+      .then((size) => {
+        if (size > limits.maxArchiveBytes) {
+          controller.abort();
+        }
+      })
+      // Git renames files while it writes; the next check catches up
+      .catch(() => {})
+      .finally(() => {
+        measuring = false;
+      });
+  }, CLONE_SIZE_CHECK_MS);
+
+  try {
+    const git = simpleGit({
+      timeout: { block: CLONE_TIMEOUT_MS },
+      abort: controller.signal,
+      config,
+    });
+    try {
+      await git.clone(url, tempDir, [
+        "--depth",
+        "1",
+        "--single-branch",
+        "--no-tags",
+        ...(options.branch ? ["--branch", options.branch] : []),
+      ]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw tooLarge;
+      }
+      console.error("Error cloning repository:", error);
+      throw new ImportError("The repository could not be cloned", 422);
+    } finally {
+      clearInterval(watcher);
+    }
+
+    // A clone can finish between two checks
+    if ((await getDirectorySize(tempDir)) > limits.maxArchiveBytes) {
+      throw tooLarge;
+    }
+
+    const files: RawImportFile[] = [];
+    await walk(tempDir, tempDir, createReadBudget(limits), files);
+    return files;
+  } finally {
+    clearInterval(watcher);
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
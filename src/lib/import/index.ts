@@ -0,0 +1,4 @@
+export * from "./files";
+export * from "./zip";
+export * from "./git";
+export * from "./stack";
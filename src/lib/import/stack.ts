@@ -0,0 +1,154 @@
+import { posix } from "path";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+import { TechStackItem } from "@/types";
+
+type Category = TechStackItem["category"];
+
+// Plain object type so results can be stored as JSON
+export type DetectedTech = Pick<TechStackItem, "name" | "category" | "version">;
+
+interface PackageTech {
+  pkg: string;
+  name: string;
+  category: Category;
+}
+
+// npm packages that identify a technology, most specific first
+const NPM_PACKAGES: PackageTech[] = [
+  { pkg: "next", name: "Next.js", category: "frontend" },
+  { pkg: "nuxt", name: "Nuxt", category: "frontend" },
+  { pkg: "@sveltejs/kit", name: "SvelteKit", category: "frontend" },
+  { pkg: "react", name: "React", category: "frontend" },
+  { pkg: "vue", name: "Vue", category: "frontend" },
+  { pkg: "svelte", name: "Svelte", category: "frontend" },
+  { pkg: "@angular/core", name: "Angular", category: "frontend" },
+  { pkg: "tailwindcss", name: "Tailwind CSS", category: "frontend" },
+  { pkg: "vite", name: "Vite", category: "frontend" },
+  { pkg: "express", name: "Express", category: "backend" },
+  { pkg: "fastify", name: "Fastify", category: "backend" },
+  { pkg: "@nestjs/core", name: "NestJS", category: "backend" },
+  { pkg: "hono", name: "Hono", category: "backend" },
+  { pkg: "prisma", name: "Prisma", category: "database" },
+  { pkg: "@prisma/client", name: "Prisma", category: "database" },
+  { pkg: "drizzle-orm", name: "Drizzle", category: "database" },
+  { pkg: "mongoose", name: "MongoDB", category: "database" },
+  { pkg: "mongodb", name: "MongoDB", category: "database" },
+  { pkg: "pg", name: "PostgreSQL", category: "database" },
+  { pkg: "mysql2", name: "MySQL", category: "database" },
+  { pkg: "redis", name: "Redis", category: "database" },
+  { pkg: "ioredis", name: "Redis", category: "database" },
+  { pkg: "typescript", name: "TypeScript", category: "other" },
+];
+
+// Python requirements that identify a technology
+const PYTHON_PACKAGES: PackageTech[] = [
+  { pkg: "fastapi", name: "FastAPI", category: "backend" },
+  { pkg: "django", name: "Django", category: "backend" },
+  { pkg: "flask", name: "Flask", category: "backend" },
+  { pkg: "sqlalchemy", name: "SQLAlchemy", category: "database" },
+  { pkg: "psycopg2", name: "PostgreSQL", category: "database" },
+  { pkg: "psycopg", name: "PostgreSQL", category: "database" },
+  { pkg: "redis", name: "Redis", category: "database" },
+];
+
+function parseJson(content: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(content);
+    return value && typeof value === "object" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function detectNodePackages(
+  content: string,
+  add: (item: DetectedTech) => void
+) {
+  const manifest = parseJson(content);
+  if (!manifest) {
+    return;
+  }
+  const dependencies = {
+    ...(manifest.dependencies as Record<string, string> | undefined),
+    ...(manifest.devDependencies as Record<string, string> | undefined),
+  };
+
+  add({ name: "Node.js", category: "backend" });
+  for (const { pkg, name, category } of NPM_PACKAGES) {
+    const version = dependencies[pkg];
+    if (typeof version === "string") {
+      const major = /\d+/.exec(version)?.[0];
+      add({ name, category, ...(major && { version: major }) });
+    }
+  }
+}
+
+function detectPythonPackages(
+  content: string,
+  add: (item: DetectedTech) => void
+) {
+  add({ name: "Python", category: "backend" });
+  const names = new Set(
+    [...content.toLowerCase().matchAll(/^\s*["']?([a-z0-9_.-]+)/gm)].map(
+      (match) => match[1]
+    )
+  );
+  for (const { pkg, name, category } of PYTHON_PACKAGES) {
+    if (names.has(pkg) || names.has(`${pkg}-binary`)) {
+      add({ name, category });
+    }
+  }
+}
+
+/**
+ * Detect the tech stack of an imported codebase from its manifests:
+ * package.json, Python requirements, go.mod, Cargo.toml, Gemfile,
+ * Dockerfiles and CI workflows
+ */
+export function detectTechStack(files: GeneratedFileOutput[]): DetectedTech[] {
+  const stack = new Map<string, DetectedTech>();
+  const add = (item: DetectedTech) => {
+    if (!stack.has(item.name)) {
+      stack.set(item.name, item);
+    }
+  };
+
+  for (const file of files) {
+    const name = posix.basename(file.path);
+
+    if (name === "package.json" && !file.path.includes("node_modules/")) {
+      detectNodePackages(file.content, add);
+    } else if (name === "tsconfig.json") {
+      add({ name: "TypeScript", category: "other" });
+    } else if (
+      name === "requirements.txt" ||
+      name === "pyproject.toml" ||
+      name === "Pipfile"
+    ) {
+      detectPythonPackages(file.content, add);
+    } else if (name === "go.mod") {
+      add({ name: "Go", category: "backend" });
+    } else if (name === "Cargo.toml") {
+      add({ name: "Rust", category: "backend" });
+    } else if (name === "Gemfile") {
+      add({ name: "Ruby", category: "backend" });
+      if (/^\s*gem\s+["']rails["']/m.test(file.content)) {
+        add({ name: "Rails", category: "backend" });
+      }
+    } else if (
+      name === "pom.xml" ||
+      name === "build.gradle" ||
+      name === "build.gradle.kts"
+    ) {
+      add({ name: "Java", category: "backend" });
+    } else if (name === "Dockerfile" || /^docker-compose\.ya?ml$/.test(name)) {
+      add({ name: "Docker", category: "devops" });
+    } else if (file.path.startsWith(".github/workflows/")) {
+      add({ name: "GitHub Actions", category: "devops" });
+    } else if (name === "vercel.json") {
+      add({ name: "Vercel", category: "devops" });
+    }
+  }
+
+  return [...stack.values()];
+}
@@ -0,0 +1,113 @@
+import { inflateRawSync } from "zlib";
+import { ImportError, RawImportFile, ReadBudget } from "./files";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of at most 64 KiB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ImportError("The upload is not a valid ZIP archive");
+}
+
+/**
+ * Read the files of a ZIP archive. Directories are skipped, and entries
+ * the budget does not admit are returned without content so they can be
+ * reported as skipped without inflating them.
+ */
+export function readZipArchive(
+  buffer: Buffer,
+  budget: ReadBudget
+): RawImportFile[] {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  const files: RawImportFile[] = [];
+  for (let index = 0; index < count; index++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new ImportError(
+        "The ZIP archive's central directory is corrupt"
+      );
+    }
+
+    const madeBy = buffer.readUInt16LE(offset + 4) >> 8;
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const path = buffer
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x0800 ? "utf8" : "latin1");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) {
+      continue;
+    }
+
+    // Unix permission bits, when the archive was made on Unix
+    const mode =
+      madeBy === 3 ? (externalAttributes >>> 16) & 0o777 : undefined;
+
+    if (!budget.admit(path, size)) {
+      files.push({ path, size, mode });
+      continue;
+    }
+    if (flags & 0x0001) {
+      throw new ImportError(
+        `Encrypted ZIP entries are not supported: ${path}`
+      );
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ImportError(`The ZIP entry ${path} is corrupt`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) {
+      // Only the declared size was counted against the budget
+      content = data.subarray(0, size);
+    } else if (method === 8) {
+      try {
+        // Bound the output so a forged size cannot inflate past the limit
+        content = inflateRawSync(data, {
+          maxOutputLength: Math.max(size, 1),
+        });
+      } catch {
+        throw new ImportError(
+          `The ZIP entry ${path} could not be decompressed`
+        );
+      }
+    } else {
+      throw new ImportError(
+        `Unsupported ZIP compression method ${method} for ${path}`
+      );
+    }
+
+    files.push({ path, size: content.length, mode, content });
+  }
+
+  return files;
+}
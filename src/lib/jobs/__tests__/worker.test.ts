@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { db } from '@/lib/db';
+import { Job } from '../queue';
+import { processNextJob, releaseStaleJobsFor, runWorker, JobHandlers } from '../worker';
+
+const mockDb = vi.mocked(db, true);
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: 'deploy',
+    payload: { deploymentId: 'dep-1' },
+    status: 'RUNNING',
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    lockedAt: new Date(),
+    lockedBy: 'worker-1',
+    lastError: null,
+    createdAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+function sqlText(call: unknown[]): string {
+  return (call[0] as TemplateStringsArray).join('?');
+}
+
+describe('job worker', () => {
+  let handlers: JobHandlers;
+
+  beforeEach(() => {
+    handlers = { deploy: { run: vi.fn(), onFailed: vi.fn() } };
+    mockDb.job.updateMany.mockResolvedValue({ count: 1 } as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should claim due jobs with SKIP LOCKED for the handled types only', async () => {
+    mockDb.$queryRaw.mockResolvedValue([] as never);
+
+    expect(await processNextJob(handlers, 'worker-1')).toBe(false);
+
+    const call = mockDb.$queryRaw.mock.calls[0];
+    expect(sqlText(call)).toContain('FOR UPDATE SKIP LOCKED');
+    expect(call.slice(1)).toEqual(['worker-1', ['deploy']]);
+  });
+
+  it('should run the handler and complete the job', async () => {
+    mockDb.$queryRaw.mockResolvedValue([job()] as never);
+
+    expect(await processNextJob(handlers, 'worker-1')).toBe(true);
+
+    expect(handlers.deploy.run).toHaveBeenCalledWith({ deploymentId: 'dep-1' }, expect.objectContaining({ id: 'job-1' }));
+    expect(mockDb.job.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' },
+      data: expect.objectContaining({ status: 'COMPLETED', lockedAt: null }),
+    });
+  });
+
+  it('should renew the lock while the handler runs', async () => {
+    vi.useFakeTimers();
+    mockDb.$queryRaw.mockResolvedValue([job()] as never);
+    vi.mocked(handlers.deploy.run).mockImplementation(async () => {
+      await vi.advanceTimersByTimeAsync(900000);
+    });
+
+    await processNextJob(handlers, 'worker-1');
+
+    const renewals = mockDb.job.updateMany.mock.calls.filter(([args]) => !('status' in args.data!));
+    expect(renewals).toHaveLength(3);
+    expect(renewals[0][0]).toEqual({
+      where: { id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' },
+      data: { lockedAt: expect.any(Date) },
+    });
+  });
+
+  it('should leave jobs released while they ran to the release', async () => {
+    mockDb.$queryRaw.mockResolvedValue([job({ attempts: 3 })] as never);
+    mockDb.job.updateMany.mockResolvedValue({ count: 0 } as never);
+    vi.mocked(handlers.deploy.run).mockRejectedValue(new Error('Connection reset'));
+
+    expect(await processNextJob(handlers, 'worker-1')).toBe(true);
+
+    expect(mockDb.job.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'FAILED' }) })
+    );
+    expect(handlers.deploy.onFailed).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    mockDb.$queryRaw.mockResolvedValue([job({ attempts: 2 })] as never);
+    vi.mocked(handlers.deploy.run).mockRejectedValue(new Error('Connection reset'));
+
+    const before = Date.now();
+    await processNextJob(handlers, 'worker-1');
+
+    const { data } = mockDb.job.updateMany.mock.calls[0][0];
+    expect(data).toMatchObject({ status: 'QUEUED', lastError: 'Connection reset' });
+    expect((data.runAt as Date).getTime() - before).toBeGreaterThanOrEqual(10000);
+    expect(handlers.deploy.onFailed).not.toHaveBeenCalled();
+  });
+
+  it('should fail jobs that ran out of attempts and notify the handler', async () => {
+    mockDb.$queryRaw.mockResolvedValue([job({ attempts: 3 })] as never);
+    vi.mocked(handlers.deploy.run).mockRejectedValue(new Error('Connection reset'));
+
+    await processNextJob(handlers, 'worker-1');
+
+    expect(mockDb.job.updateMany.mock.calls[0][0].data).toMatchObject({ status: 'FAILED', lastError: 'Connection reset' });
+    expect(handlers.deploy.onFailed).toHaveBeenCalledWith({ deploymentId: 'dep-1' }, expect.anything(), 'Connection reset');
+  });
+
+  it('should notify handlers of stale jobs that failed for good', async () => {
+    mockDb.$queryRaw.mockResolvedValue([
+      job({ id: 'job-1', status: 'QUEUED' }),
+      job({ id: 'job-2', status: 'FAILED', lastError: 'Worker stopped before the job finished' }),
+    ] as never);
+
+    await releaseStaleJobsFor(handlers);
+
+    expect(sqlText(mockDb.$queryRaw.mock.calls[0])).toContain(`"status" = 'RUNNING' AND "lockedAt" < ?`);
+    expect(handlers.deploy.onFailed).toHaveBeenCalledTimes(1);
+    expect(handlers.deploy.onFailed).toHaveBeenCalledWith(
+      { deploymentId: 'dep-1' },
+      expect.objectContaining({ id: 'job-2' }),
+      'Worker stopped before the job finished'
+    );
+  });
+
+  it('should keep polling until the signal aborts', async () => {
+    const controller = new AbortController();
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([job()] as never)
+      .mockResolvedValueOnce([] as never)
+      .mockImplementation((() => {
+        controller.abort();
+        return Promise.resolve([]);
+      }) as never);
+
+    await runWorker(handlers, { workerId: 'worker-1', pollInterval: 1, signal: controller.signal });
+
+    expect(handlers.deploy.run).toHaveBeenCalledTimes(1);
+  });
+});
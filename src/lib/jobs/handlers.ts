@@ -0,0 +1,31 @@
+import {
+  DEPLOY_JOB,
+  DeployJobPayload,
+  failDeployment,
+  runDeployJob,
+} from "@/lib/deploy/job";
+import { failGeneration } from "@/lib/generation";
+import {
+  GENERATE_JOB,
+  GenerateJobPayload,
+  runGenerateJob,
+} from "@/lib/generation/job";
+import { JobHandlers } from "./worker";
+
+/**
+ * Handlers for every job type the worker runs
+ */
+export const jobHandlers: JobHandlers = {
+  [DEPLOY_JOB]: {
+    run: (payload) => runDeployJob(payload as DeployJobPayload),
+    onFailed: (payload, _job, error) =>
+      failDeployment(payload as DeployJobPayload, error),
+  },
+  [GENERATE_JOB]: {
+    run: (payload) => runGenerateJob(payload as GenerateJobPayload),
+    onFailed: (payload, _job, error) => {
+      const { userId, projectId, generationId } = payload as GenerateJobPayload;
+      return failGeneration(userId, projectId, generationId, new Error(error));
+    },
+  },
+};
@@ -0,0 +1,169 @@
+import { Job, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export type { Job };
+
+// Running jobs whose lock is older than this are assumed to belong to a
+// worker that died (15 minutes)
+export const DEFAULT_LOCK_TIMEOUT_MS = 900000;
+
+export const STALE_JOB_ERROR = "Worker stopped before the job finished";
+
+// First retry delay; doubled for every further attempt
+const RETRY_BASE_DELAY_MS = 5000;
+
+/**
+ * Thrown when a worker finishes a job after its lock went stale and the job
+ * was released; the release, or the worker that claimed it next, owns the
+ * job's status from then on
+ */
+export class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was released before its worker finished it`);
+    this.name = "JobLockLostError";
+  }
+}
+
+/**
+ * Get the stale lock timeout from JOB_LOCK_TIMEOUT_MS
+ */
+export function getLockTimeoutMs(): number {
+  const value = Number(process.env.JOB_LOCK_TIMEOUT_MS);
+  return process.env.JOB_LOCK_TIMEOUT_MS && Number.isFinite(value) && value > 0
+    ? value
+    : DEFAULT_LOCK_TIMEOUT_MS;
+}
+
+/**
+ * Queue a job for the worker
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Prisma.InputJsonValue,
+  options: { maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> {
+  return db.job.create({
+    data: {
+      type,
+      payload,
+      maxAttempts: options.maxAttempts,
+      runAt: options.runAt,
+    },
+  });
+}
+
+/**
+ * Claim the next due job of the given types. SKIP LOCKED lets any number of
+ * workers poll the same table without claiming a job twice or waiting on
+ * each other's locks.
+ */
+export async function claimNextJob(
+  workerId: string,
+  types: string[]
+): Promise<Job | null> {
+  const [job] = await db.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId}
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'QUEUED' AND "runAt" <= NOW() AND "type" = ANY(${types})
+      ORDER BY "runAt", "createdAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return job ?? null;
+}
+
+// Writes by a worker only apply while it still holds the job's lock
+function heldLock(job: Job): Prisma.JobWhereInput {
+  return { id: job.id, status: "RUNNING", lockedBy: job.lockedBy };
+}
+
+/**
+ * Refresh the lock of a running job so it is not released as stale.
+ * Returns false when the worker no longer holds the lock.
+ */
+export async function renewJobLock(job: Job): Promise<boolean> {
+  const { count } = await db.job.updateMany({
+    where: heldLock(job),
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Mark a claimed job as done
+ */
+export async function completeJob(job: Job): Promise<void> {
+  const { count } = await db.job.updateMany({
+    where: heldLock(job),
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+  if (count === 0) {
+    throw new JobLockLostError(job.id);
+  }
+}
+
+/**
+ * Record a failed attempt. The job is retried with exponential backoff until
+ * it runs out of attempts. Returns whether the job will be retried.
+ */
+export async function failJob(job: Job, error: unknown): Promise<boolean> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retry = job.attempts < job.maxAttempts;
+
+  const { count } = await db.job.updateMany({
+    where: heldLock(job),
+    data: {
+      status: retry ? "QUEUED" : "FAILED",
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+      ...(retry
+        ? {
+            runAt: new Date(
+              Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+            ),
+          }
+        : { completedAt: new Date() }),
+    },
+  });
+  if (count === 0) {
+    throw new JobLockLostError(job.id);
+  }
+  return retry;
+}
+
+/**
+ * Release jobs locked by workers that stopped before finishing them. Jobs
+ * with attempts left are queued again, the others fail. Returns the
+ * released jobs with their new status.
+ */
+export async function releaseStaleJobs(
+  timeoutMs = getLockTimeoutMs()
+): Promise<Job[]> {
+  const cutoff = new Date(Date.now() - timeoutMs);
+
+  return db.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = CASE WHEN "attempts" < "maxAttempts"
+          THEN 'QUEUED'::"JobStatus" ELSE 'FAILED'::"JobStatus" END,
+        "completedAt" = CASE WHEN "attempts" < "maxAttempts"
+          THEN NULL ELSE NOW() END,
+        "lastError" = ${STALE_JOB_ERROR},
+        "lockedAt" = NULL,
+        "lockedBy" = NULL
+    WHERE "status" = 'RUNNING' AND "lockedAt" < ${cutoff}
+    RETURNING *
+  `;
+}
@@ -0,0 +1,170 @@
+import { hostname } from "os";
+import {
+  Job,
+  JobLockLostError,
+  claimNextJob,
+  completeJob,
+  failJob,
+  getLockTimeoutMs,
+  releaseStaleJobs,
+  renewJobLock,
+  STALE_JOB_ERROR,
+} from "./queue";
+
+export interface JobHandler {
+  // Do the job's work; throwing records a failed attempt
+  run(payload: unknown, job: Job): Promise<void>;
+  // Called once the job has failed for good, including when its worker
+  // stopped responding
+  onFailed?(payload: unknown, job: Job, error: string): Promise<void>;
+}
+
+export type JobHandlers = Record<string, JobHandler>;
+
+export interface WorkerOptions {
+  workerId?: string;
+  // Delay between polls while the queue is empty
+  pollInterval?: number;
+  // Stops the worker once the current job is done
+  signal?: AbortSignal;
+}
+
+// Default delay between polls of an empty queue (2 seconds)
+export const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Get the poll interval from JOB_POLL_INTERVAL_MS
+ */
+export function getPollIntervalMs(): number {
+  const value = Number(process.env.JOB_POLL_INTERVAL_MS);
+  return process.env.JOB_POLL_INTERVAL_MS && Number.isFinite(value) && value > 0
+    ? value
+    : DEFAULT_POLL_INTERVAL_MS;
+}
+
+/**
+ * Keep renewing a job's lock while its handler runs, well inside the lock
+ * timeout so long jobs are not released as stale. Returns a function that
+ * stops the renewals.
+ */
+function startHeartbeat(job: Job): () => void {
+  const timer = setInterval(() => {
+    renewJobLock(job)
+      .then((held) => {
+        if (!held) {
+          console.error(`Job ${job.id} lost its lock while running`);
+        }
+      })
+      .catch((error) => {
+        console.error(`Error renewing the lock of job ${job.id}:`, error);
+      });
+  }, getLockTimeoutMs() / 3);
+  return () => clearInterval(timer);
+}
+
+async function runClaimedJob(handler: JobHandler, job: Job): Promise<void> {
+  const stopHeartbeat = startHeartbeat(job);
+  try {
+    try {
+      await handler.run(job.payload, job);
+    } finally {
+      stopHeartbeat();
+    }
+    await completeJob(job);
+  } catch (error) {
+    if (error instanceof JobLockLostError) {
+      throw error;
+    }
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    const retry = await failJob(job, error);
+    if (!retry) {
+      await handler.onFailed?.(
+        job.payload,
+        job,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+/**
+ * Claim and run one job. Returns false when no job was due. A job that was
+ * released while it ran keeps the status the release gave it.
+ */
+export async function processNextJob(
+  handlers: JobHandlers,
+  workerId: string
+): Promise<boolean> {
+  const job = await claimNextJob(workerId, Object.keys(handlers));
+  if (!job) {
+    return false;
+  }
+
+  try {
+    await runClaimedJob(handlers[job.type], job);
+  } catch (error) {
+    if (!(error instanceof JobLockLostError)) {
+      throw error;
+    }
+    console.error(error.message);
+  }
+  return true;
+}
+
+/**
+ * Release jobs of dead workers and let handlers clean up the ones that
+ * failed for good
+ */
+export async function releaseStaleJobsFor(handlers: JobHandlers): Promise<void> {
+  const released = await releaseStaleJobs();
+  for (const job of released) {
+    if (job.status === "FAILED") {
+      await handlers[job.type]?.onFailed?.(
+        job.payload,
+        job,
+        job.lastError ?? STALE_JOB_ERROR
+      );
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Run jobs until the signal aborts. Jobs are processed one at a time; run
+ * more workers to process more in parallel.
+ */
+export async function runWorker(
+  handlers: JobHandlers,
+  options: WorkerOptions = {}
+): Promise<void> {
+  const workerId = options.workerId ?? `${hostname()}-${process.pid}`;
+  const pollInterval = options.pollInterval ?? getPollIntervalMs();
+  const { signal } = options;
+
+  while (!signal?.aborted) {
+    let worked = false;
+    try {
+      worked = await processNextJob(handlers, workerId);
+      if (!worked) {
+        await releaseStaleJobsFor(handlers);
+      }
+    } catch (error) {
+      console.error("Error polling job queue:", error);
+    }
+
+    if (!worked) {
+      await sleep(pollInterval, signal);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createPromptTemplateVersion,
+  resolvePromptTemplate,
+  buildGenerationPrompt,
+  PromptTemplateError,
+  PromptTemplateConflictError,
+} from '../registry';
+import { db } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+
+const mockDb = vi.mocked(db, true);
+
+const template = (overrides: Record<string, unknown>) => ({
+  id: 'tpl-1',
+  name: 'default',
+  version: 1,
+  body: '{{description}}',
+  description: null,
+  techStack: null,
+  isActive: true,
+  createdById: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('Prompt template registry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createPromptTemplateVersion', () => {
+    it('should create the next version and keep the previous tech stack', async () => {
+      mockDb.promptTemplate.findFirst.mockResolvedValue(
+        template({ version: 2, techStack: 'React' }) as never
+      );
+      mockDb.promptTemplate.create.mockResolvedValue(template({ version: 3 }) as never);
+
+      await createPromptTemplateVersion({ name: 'react-app', body: 'Build {{description}}' });
+
+      expect(mockDb.promptTemplate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'react-app', version: 3, techStack: 'React' }),
+      });
+    });
+
+    it('should start at version 1', async () => {
+      mockDb.promptTemplate.findFirst.mockResolvedValue(null);
+      mockDb.promptTemplate.create.mockResolvedValue(template({}) as never);
+
+      await createPromptTemplateVersion({ name: 'new', body: '{{description}}', techStack: null });
+
+      expect(mockDb.promptTemplate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 1, techStack: null }),
+      });
+    });
+
+    it('should take the next version when a concurrent publish took this one', async () => {
+      const duplicate = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      });
+      mockDb.promptTemplate.findFirst
+        .mockResolvedValueOnce(template({ version: 1 }) as never)
+        .mockResolvedValueOnce(template({ version: 2 }) as never);
+      mockDb.promptTemplate.create
+        .mockRejectedValueOnce(duplicate)
+        .mockResolvedValueOnce(template({ version: 3 }) as never);
+
+      const created = await createPromptTemplateVersion({ name: 'default', body: '{{description}}' });
+
+      expect(created.version).toBe(3);
+      expect(mockDb.promptTemplate.create).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({ version: 3 }),
+      });
+    });
+
+    it('should give up after repeated version conflicts', async () => {
+      mockDb.promptTemplate.findFirst.mockResolvedValue(template({ version: 1 }) as never);
+      mockDb.promptTemplate.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      );
+
+      await expect(
+        createPromptTemplateVersion({ name: 'default', body: '{{description}}' })
+      ).rejects.toThrow(PromptTemplateConflictError);
+      expect(mockDb.promptTemplate.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject templates with unknown variables', async () => {
+      await expect(
+        createPromptTemplateVersion({ name: 'bad', body: '{{secret}}' })
+      ).rejects.toThrow(PromptTemplateError);
+      expect(mockDb.promptTemplate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolvePromptTemplate', () => {
+    it('should prefer the template pinned on the project', async () => {
+      const pinned = template({ id: 'tpl-pinned' });
+      mockDb.promptTemplate.findUnique.mockResolvedValue(pinned as never);
+
+      const result = await resolvePromptTemplate({
+        promptTemplateId: 'tpl-pinned',
+        techStack: ['React'],
+      });
+
+      expect(result).toBe(pinned);
+      expect(mockDb.promptTemplate.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should pick the template for the first matching technology', async () => {
+      mockDb.promptTemplate.findMany.mockResolvedValue([
+        template({ id: 'tpl-postgres', techStack: 'postgresql' }),
+        template({ id: 'tpl-next', techStack: 'next.js' }),
+      ] as never);
+
+      const result = await resolvePromptTemplate({ techStack: ['Next.js', 'PostgreSQL'] });
+
+      expect(result?.id).toBe('tpl-next');
+    });
+
+    it('should return null without a matching template', async () => {
+      mockDb.promptTemplate.findMany.mockResolvedValue([]);
+
+      expect(await resolvePromptTemplate({ techStack: ['Go'] })).toBeNull();
+    });
+  });
+
+  describe('buildGenerationPrompt', () => {
+    it('should render the resolved template and report its version', async () => {
+      mockDb.promptTemplate.findMany.mockResolvedValue([
+        template({
+          id: 'tpl-go',
+          version: 4,
+          techStack: 'Go',
+          body: 'Go service: {{description}}{{#existingFiles}}\nCurrent:\n{{existingFiles}}{{/existingFiles}}',
+        }),
+      ] as never);
+
+      const result = await buildGenerationPrompt({
+        description: 'An API',
+        techStack: ['Go'],
+        existingFiles: [{ path: 'main.go', content: 'package main' }],
+      });
+
+      expect(result).toEqual({
+        prompt: 'Go service: An API\nCurrent:\n### main.go\n```\npackage main\n```',
+        templateId: 'tpl-go',
+        templateVersion: 4,
+      });
+    });
+
+    it('should fall back to the built-in template', async () => {
+      mockDb.promptTemplate.findMany.mockResolvedValue([]);
+
+      const result = await buildGenerationPrompt({ description: 'An API', techStack: ['Go'] });
+
+      expect(result.templateId).toBeNull();
+      expect(result.templateVersion).toBeNull();
+      expect(result.prompt).toContain('## Technology Stack\nGo');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { db } from "@/lib/db";
+import { Prisma, PromptTemplate } from "@prisma/client";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  GeneratedFileOutput,
+  formatExistingFiles,
+  renderTemplate,
+  validateTemplate,
+} from "@/lib/ai";
+
+/**
+ * Thrown when a template body uses unknown variables or broken sections
+ */
+export class PromptTemplateError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid prompt template: ${errors.join("; ")}`);
+    this.name = "PromptTemplateError";
+  }
+}
+
+/**
+ * Thrown when concurrent publishes keep taking the next version number
+ */
+export class PromptTemplateConflictError extends Error {
+  constructor(public readonly templateName: string) {
+    super(`Another version of template ${templateName} was published concurrently`);
+    this.name = "PromptTemplateConflictError";
+  }
+}
+
+// Attempts at taking the next version number before giving up
+const MAX_VERSION_ATTEMPTS = 3;
+
+export interface PromptTemplateInput {
+  name: string;
+  body: string;
+  description?: string;
+  // Omit to keep the tech stack of the previous version, null to clear it
+  techStack?: string | null;
+  createdById?: string;
+}
+
+export interface ResolvedPrompt {
+  prompt: string;
+  // Null when the built-in template was used
+  templateId: string | null;
+  templateVersion: number | null;
+}
+
+/**
+ * Store a new version of a named template. Versions start at 1 and the
+ * previous versions stay available for existing generations.
+ */
+export async function createPromptTemplateVersion(
+  input: PromptTemplateInput
+): Promise<PromptTemplate> {
+  const errors = validateTemplate(input.body);
+  if (errors.length > 0) {
+    throw new PromptTemplateError(errors);
+  }
+
+  // A concurrent publish may take the version first; the (name, version)
+  // unique constraint rejects the duplicate and the next number is tried
+  for (let attempt = 1; ; attempt++) {
+    const previous = await db.promptTemplate.findFirst({
+      where: { name: input.name },
+      orderBy: { version: "desc" },
+    });
+
+    try {
+      return await db.promptTemplate.create({
+        data: {
+          name: input.name,
+          version: (previous?.version ?? 0) + 1,
+          body: input.body,
+          description: input.description ?? previous?.description,
+          techStack:
+            input.techStack !== undefined
+              ? input.techStack
+              : previous?.techStack,
+          createdById: input.createdById,
+        },
+      });
+    } catch (error) {
+      const duplicate =
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002";
+      if (!duplicate) {
+        throw error;
+      }
+      if (attempt >= MAX_VERSION_ATTEMPTS) {
+        throw new PromptTemplateConflictError(input.name);
+      }
+    }
+  }
+}
+
+/**
+ * Pick the template for a project: the template pinned on the project, else
+ * the newest active template for the first matching technology in the
+ * project's stack. Returns null to use the built-in template.
+ */
+export async function resolvePromptTemplate(project: {
+  promptTemplateId?: string | null;
+  techStack: string[];
+}): Promise<PromptTemplate | null> {
+  if (project.promptTemplateId) {
+    const pinned = await db.promptTemplate.findUnique({
+      where: { id: project.promptTemplateId },
+    });
+    if (pinned) {
+      return pinned;
+    }
+  }
+
+  if (project.techStack.length === 0) {
+    return null;
+  }
+
+  const candidates = await db.promptTemplate.findMany({
+    where: {
+      isActive: true,
+      techStack: { in: project.techStack, mode: "insensitive" },
+    },
+    orderBy: [{ createdAt: "desc" }, { version: "desc" }],
+  });
+
+  for (const technology of project.techStack) {
+    const match = candidates.find(
+      (template) =>
+        template.techStack?.toLowerCase() === technology.toLowerCase()
+    );
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Render the code generation prompt for a project with its template
+ */
+export async function buildGenerationPrompt(project: {
+  promptTemplateId?: string | null;
+  description: string;
+  techStack: string[];
+  instructions?: string;
+  existingFiles?: GeneratedFileOutput[];
+}): Promise<ResolvedPrompt> {
+  const template = await resolvePromptTemplate(project);
+
+  const prompt = renderTemplate(template?.body ?? DEFAULT_PROMPT_TEMPLATE, {
+    description: project.description,
+    techStack: project.techStack.join(", "),
+    instructions: project.instructions,
+    existingFiles: project.existingFiles?.length
+      ? formatExistingFiles(project.existingFiles)
+      : undefined,
+  });
+
+  return {
+    prompt,
+    templateId: template?.id ?? null,
+    templateVersion: template?.version ?? null,
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { db } from '@/lib/db';
+import {
+  diffLines,
+  diffFiles,
+  formatUnifiedDiff,
+  parseRevisionRef,
+  getRevisionFiles,
+} from '../diff';
+
+const mockDb = vi.mocked(db, true);
+
+function numbered(count: number) {
+  return Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+}
+
+describe('Line diff', () => {
+  it('should find the shortest edit between two files', () => {
+    const ops = diffLines('a\nb\nc\n', 'a\nc\nd\n');
+
+    expect(ops).toEqual([
+      { type: 'context', content: 'a' },
+      { type: 'remove', content: 'b' },
+      { type: 'context', content: 'c' },
+      { type: 'add', content: 'd' },
+    ]);
+  });
+
+  it('should treat CRLF and LF line endings alike', () => {
+    expect(diffLines('a\r\nb\r\n', 'a\nb\n').every((op) => op.type === 'context')).toBe(true);
+  });
+
+  it('should fall back to a full replacement for unrelated large files', () => {
+    const before = numbered(3000).join('\n');
+    const after = numbered(3000).map((line) => `${line}!`).join('\n');
+
+    const ops = diffLines(before, after);
+
+    expect(ops.filter((op) => op.type === 'remove')).toHaveLength(3000);
+    expect(ops.filter((op) => op.type === 'add')).toHaveLength(3000);
+  });
+});
+
+describe('File set diff', () => {
+  it('should report added, removed and modified files with stats', () => {
+    const diff = diffFiles(
+      [
+        { path: 'a.js', content: 'one\ntwo\n' },
+        { path: 'b.js', content: 'same\n' },
+        { path: 'old.js', content: 'gone\n' },
+      ],
+      [
+        { path: 'a.js', content: 'one\n2\n' },
+        { path: 'b.js', content: 'same\n' },
+        { path: 'new.js', content: 'hello\nworld\n' },
+      ]
+    );
+
+    expect(diff.files.map((file) => [file.path, file.status, file.additions, file.deletions])).toEqual([
+      ['a.js', 'modified', 1, 1],
+      ['new.js', 'added', 2, 0],
+      ['old.js', 'removed', 0, 1],
+    ]);
+    expect(diff.stats).toEqual({ filesChanged: 3, added: 1, removed: 1, modified: 1, additions: 3, deletions: 2 });
+  });
+
+  it('should split distant changes into hunks with context', () => {
+    const before = numbered(20);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const [file] = diffFiles(
+      [{ path: 'f.txt', content: before.join('\n') }],
+      [{ path: 'f.txt', content: after.join('\n') }]
+    ).files;
+
+    expect(file.hunks.map((hunk) => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([
+      [1, 5, 1, 5],
+      [15, 6, 15, 6],
+    ]);
+    expect(file.hunks[0].lines[1]).toEqual({ type: 'remove', content: 'line 2', oldLine: 2 });
+    expect(file.hunks[0].lines[2]).toEqual({ type: 'add', content: 'changed 2', newLine: 2 });
+  });
+
+  it('should merge changes closer than two context windows', () => {
+    const before = numbered(12);
+    const after = [...before];
+    after[2] = 'x';
+    after[8] = 'y';
+
+    const [file] = diffFiles(
+      [{ path: 'f.txt', content: before.join('\n') }],
+      [{ path: 'f.txt', content: after.join('\n') }]
+    ).files;
+
+    expect(file.hunks).toHaveLength(1);
+  });
+
+  it('should render a unified patch', () => {
+    const patch = formatUnifiedDiff(
+      diffFiles([{ path: 'a.txt', content: 'x\n' }], [{ path: 'a.txt', content: 'y\n' }, { path: 'b.txt', content: 'z\n' }])
+    );
+
+    expect(patch).toBe(
+      [
+        'diff --git a/a.txt b/a.txt',
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,1 +1,1 @@',
+        '-x',
+        '+y',
+        'diff --git a/b.txt b/b.txt',
+        '--- /dev/null',
+        '+++ b/b.txt',
+        '@@ -0,0 +1,1 @@',
+        '+z',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('Revision refs', () => {
+  it('should parse versions, generation ids and current', () => {
+    expect(parseRevisionRef('3')).toEqual({ type: 'version', version: 3 });
+    expect(parseRevisionRef('v12')).toEqual({ type: 'version', version: 12 });
+    expect(parseRevisionRef('current')).toEqual({ type: 'current' });
+    expect(parseRevisionRef('clx0abc123')).toEqual({ type: 'generation', id: 'clx0abc123' });
+    expect(parseRevisionRef('0')).toBeNull();
+    expect(parseRevisionRef('../x')).toBeNull();
+  });
+
+  it("should not load another project's generation", async () => {
+    mockDb.codeGeneration.findUnique.mockResolvedValue({ projectId: 'proj-2', output: [] } as never);
+
+    expect(await getRevisionFiles({ id: 'proj-1', generatedFiles: [] }, { type: 'generation', id: 'gen-1' })).toBeNull();
+  });
+});
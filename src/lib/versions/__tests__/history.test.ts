@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { db } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+import { recordProjectVersion, listProjectVersions, restoreProjectVersion } from '../history';
+
+const mockDb = vi.mocked(db, true);
+
+const files = [{ path: 'index.js', content: 'console.log(1);' }];
+
+describe('Project version history', () => {
+  it('should snapshot the files, prompt and tech stack at the current version', async () => {
+    await recordProjectVersion(
+      { id: 'proj-1', version: 3, generatedFiles: files, prompt: 'Build it', techStack: [{ name: 'Node.js' }] },
+      { source: 'generate', codeGenerationId: 'gen-1', createdById: 'user-1' }
+    );
+
+    expect(mockDb.projectVersion.create).toHaveBeenCalledWith({
+      data: {
+        projectId: 'proj-1',
+        version: 3,
+        files,
+        prompt: 'Build it',
+        techStack: [{ name: 'Node.js' }],
+        source: 'generate',
+        codeGenerationId: 'gen-1',
+        createdById: 'user-1',
+      },
+    });
+  });
+
+  it('should store an empty file list for projects without files', async () => {
+    await recordProjectVersion(
+      { id: 'proj-1', version: 2, generatedFiles: null, prompt: null, techStack: [] },
+      { source: 'edit' }
+    );
+
+    expect(mockDb.projectVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 2, files: [] }),
+    });
+  });
+
+  it('should list versions newest first without their files', async () => {
+    mockDb.projectVersion.findMany.mockResolvedValue([]);
+
+    await listProjectVersions('proj-1');
+
+    const args = mockDb.projectVersion.findMany.mock.calls[0][0];
+    expect(args?.orderBy).toEqual({ version: 'desc' });
+    expect(args?.select).not.toHaveProperty('files');
+  });
+
+  it('should restore a snapshot as a new version', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({
+      id: 'ver-2',
+      projectId: 'proj-1',
+      version: 2,
+      files,
+      prompt: 'Old prompt',
+      techStack: [],
+    } as never);
+    const updated = { id: 'proj-1', version: 6, generatedFiles: files, prompt: 'Old prompt', techStack: [] };
+    mockDb.project.update.mockResolvedValue(updated as never);
+    mockDb.projectVersion.create.mockResolvedValue({ id: 'ver-6' } as never);
+
+    const restored = await restoreProjectVersion('proj-1', 2, 'user-1');
+
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: {
+        generatedFiles: files,
+        prompt: 'Old prompt',
+        techStack: [],
+        status: 'GENERATED',
+        version: { increment: 1 },
+      },
+    });
+    expect(mockDb.projectVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 6, source: 'restore', restoredFromVersion: 2 }),
+    });
+    expect(restored?.project).toBe(updated);
+  });
+
+  it('should put the project back in draft when the snapshot has no files', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue({
+      id: 'ver-1',
+      projectId: 'proj-1',
+      version: 1,
+      files: [],
+      prompt: 'First prompt',
+      techStack: [],
+    } as never);
+    mockDb.project.update.mockResolvedValue({ id: 'proj-1', version: 4, generatedFiles: null } as never);
+
+    await restoreProjectVersion('proj-1', 1, 'user-1');
+
+    expect(mockDb.project.update).toHaveBeenCalledWith({
+      where: { id: 'proj-1' },
+      data: expect.objectContaining({ generatedFiles: Prisma.DbNull, status: 'DRAFT' }),
+    });
+  });
+
+  it('should return null for a missing version', async () => {
+    mockDb.projectVersion.findUnique.mockResolvedValue(null);
+
+    expect(await restoreProjectVersion('proj-1', 9, 'user-1')).toBeNull();
+    expect(mockDb.project.update).not.toHaveBeenCalled();
+  });
+});
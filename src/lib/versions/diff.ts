@@ -0,0 +1,419 @@
+import { db } from "@/lib/db";
+import { GeneratedFileOutput } from "@/lib/ai/schema";
+
+export type FileChangeStatus = "added" | "removed" | "modified";
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  status: FileChangeStatus;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface DiffStats {
+  filesChanged: number;
+  added: number;
+  removed: number;
+  modified: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface ProjectDiff {
+  files: FileDiff[];
+  stats: DiffStats;
+}
+
+export interface DiffOptions {
+  // Unchanged lines shown around each change
+  context?: number;
+}
+
+/**
+ * One side of a diff: a version snapshot, a code generation's output, or
+ * the project's current files
+ */
+export type RevisionRef =
+  | { type: "version"; version: number }
+  | { type: "generation"; id: string }
+  | { type: "current" };
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Edit distance past which a file is shown as fully replaced. Keeps the
+// Myers trace small for unrelated files.
+const MAX_EDIT_DISTANCE = 2000;
+
+type LineOp = { type: DiffLine["type"]; content: string };
+
+function splitLines(content: string): string[] {
+  if (content === "") {
+    return [];
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function replaceAll(a: string[], b: string[]): LineOp[] {
+  return [
+    ...a.map((content) => ({ type: "remove" as const, content })),
+    ...b.map((content) => ({ type: "add" as const, content })),
+  ];
+}
+
+/**
+ * Myers' O(ND) shortest edit script between two line arrays. Returns null
+ * when the edit distance exceeds `MAX_EDIT_DISTANCE`.
+ */
+function shortestEdit(a: string[], b: string[]): LineOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x for diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): LineOp[] {
+  const ops: LineOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push({ type: "context", content: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (down) {
+      ops.push({ type: "add", content: b[y - 1] });
+    } else {
+      ops.push({ type: "remove", content: a[x - 1] });
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: "context", content: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Line-level edit script between two file contents
+ */
+export function diffLines(oldContent: string, newContent: string): LineOp[] {
+  const a = splitLines(oldContent);
+  const b = splitLines(newContent);
+
+  // Common prefix and suffix are matched directly, which keeps the search
+  // small for typical edits
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = shortestEdit(middleA, middleB) ?? replaceAll(middleA, middleB);
+
+  return [
+    ...a
+      .slice(0, prefix)
+      .map((content) => ({ type: "context" as const, content })),
+    ...middle,
+    ...a
+      .slice(a.length - suffix)
+      .map((content) => ({ type: "context" as const, content })),
+  ];
+}
+
+/**
+ * Group an edit script into unified diff hunks with `context` lines around
+ * each change
+ */
+export function createHunks(
+  ops: LineOp[],
+  context = DEFAULT_CONTEXT_LINES
+): DiffHunk[] {
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    if (op.type === "context") {
+      lines.push({ ...op, oldLine: oldLine++, newLine: newLine++ });
+    } else if (op.type === "remove") {
+      lines.push({ ...op, oldLine: oldLine++ });
+    } else {
+      lines.push({ ...op, newLine: newLine++ });
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend while the next change is within two context windows
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].type !== "context") {
+        next++;
+      }
+      let gap = next;
+      while (gap < lines.length && lines[gap].type === "context") {
+        gap++;
+      }
+      if (gap < lines.length && gap - next <= context * 2) {
+        end = gap;
+      } else {
+        end = Math.min(lines.length, next + context);
+        break;
+      }
+    }
+
+    const hunkLines = lines.slice(start, end);
+    const oldLines = hunkLines.filter((line) => line.type !== "add").length;
+    const newLines = hunkLines.filter((line) => line.type !== "remove").length;
+    // Old and new lines before the hunk
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter((line) => line.type !== "add").length;
+    const newBefore = before.filter((line) => line.type !== "remove").length;
+
+    hunks.push({
+      oldStart: oldLines ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    });
+    index = end;
+  }
+
+  return hunks;
+}
+
+function countLines(hunks: DiffHunk[], type: DiffLine["type"]): number {
+  return hunks.reduce(
+    (sum, hunk) => sum + hunk.lines.filter((line) => line.type === type).length,
+    0
+  );
+}
+
+/**
+ * Compare two file sets by path. Unchanged files are left out.
+ */
+export function diffFiles(
+  from: GeneratedFileOutput[],
+  to: GeneratedFileOutput[],
+  options: DiffOptions = {}
+): ProjectDiff {
+  const context = options.context ?? DEFAULT_CONTEXT_LINES;
+  const before = new Map(from.map((file) => [file.path, file.content]));
+  const after = new Map(to.map((file) => [file.path, file.content]));
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  const files: FileDiff[] = [];
+  for (const path of paths) {
+    const oldContent = before.get(path);
+    const newContent = after.get(path);
+    if (oldContent === newContent) {
+      continue;
+    }
+
+    const status: FileChangeStatus =
+      oldContent === undefined
+        ? "added"
+        : newContent === undefined
+          ? "removed"
+          : "modified";
+    const hunks = createHunks(
+      diffLines(oldContent ?? "", newContent ?? ""),
+      context
+    );
+
+    files.push({
+      path,
+      status,
+      additions: countLines(hunks, "add"),
+      deletions: countLines(hunks, "remove"),
+      hunks,
+    });
+  }
+
+  return {
+    files,
+    stats: {
+      filesChanged: files.length,
+      added: files.filter((file) => file.status === "added").length,
+      removed: files.filter((file) => file.status === "removed").length,
+      modified: files.filter((file) => file.status === "modified").length,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    },
+  };
+}
+
+/**
+ * Render a diff in the unified format read by `git apply` and `patch`
+ */
+export function formatUnifiedDiff(diff: ProjectDiff): string {
+  const output: string[] = [];
+  for (const file of diff.files) {
+    output.push(`diff --git a/${file.path} b/${file.path}`);
+    output.push(
+      file.status === "added" ? "--- /dev/null" : `--- a/${file.path}`
+    );
+    output.push(
+      file.status === "removed" ? "+++ /dev/null" : `+++ b/${file.path}`
+    );
+    for (const hunk of file.hunks) {
+      output.push(
+        `@@ -${hunk.oldStart},${hunk.oldLines} ` +
+          `+${hunk.newStart},${hunk.newLines} @@`
+      );
+      for (const line of hunk.lines) {
+        const prefix =
+          line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+        output.push(`${prefix}${line.content}`);
+      }
+    }
+  }
+  return output.length ? `${output.join("\n")}\n` : "";
+}
+
+/**
+ * Parse a `from`/`to` query value: a version number, `current`, or a code
+ * generation id
+ */
+export function parseRevisionRef(value: string): RevisionRef | null {
+  const ref = value.trim();
+  if (ref === "current") {
+    return { type: "current" };
+  }
+  if (/^v?\d+$/.test(ref)) {
+    const version = Number(ref.replace(/^v/, ""));
+    return version >= 1 ? { type: "version", version } : null;
+  }
+  if (/^[\w-]+$/.test(ref)) {
+    return { type: "generation", id: ref };
+  }
+  return null;
+}
+
+/**
+ * Thrown when a code generation's output is not a file list, such as the
+ * patch stored by a refinement or a generation without output
+ */
+export class RevisionWithoutFilesError extends Error {
+  constructor(public readonly generationId: string) {
+    super(`Generation ${generationId} has no file list to compare`);
+    this.name = "RevisionWithoutFilesError";
+  }
+}
+
+/**
+ * Files of one side of a diff. Returns null when the version or generation
+ * does not exist or belongs to another project.
+ */
+export async function getRevisionFiles(
+  project: { id: string; generatedFiles: unknown },
+  ref: RevisionRef
+): Promise<GeneratedFileOutput[] | null> {
+  if (ref.type === "current") {
+    return (project.generatedFiles as GeneratedFileOutput[] | null) ?? [];
+  }
+
+  if (ref.type === "version") {
+    const snapshot = await db.projectVersion.findUnique({
+      where: {
+        projectId_version: { projectId: project.id, version: ref.version },
+      },
+      select: { files: true },
+    });
+    if (!snapshot) {
+      return null;
+    }
+    return (snapshot.files as GeneratedFileOutput[] | null) ?? [];
+  }
+
+  const generation = await db.codeGeneration.findUnique({
+    where: { id: ref.id },
+    select: { projectId: true, output: true },
+  });
+  if (!generation || generation.projectId !== project.id) {
+    return null;
+  }
+  if (!Array.isArray(generation.output)) {
+    throw new RevisionWithoutFilesError(ref.id);
+  }
+  return generation.output as GeneratedFileOutput[];
+}
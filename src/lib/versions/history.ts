@@ -0,0 +1,114 @@
+import { db } from "@/lib/db";
+import { Prisma, Project, ProjectVersion } from "@prisma/client";
+
+export type VersionSource =
+  | "generate"
+  | "refine"
+  | "edit"
+  | "restore"
+  | "import";
+
+export interface SnapshotOptions {
+  source: VersionSource;
+  codeGenerationId?: string;
+  restoredFromVersion?: number;
+  createdById?: string;
+}
+
+type ProjectState = Pick<
+  Project,
+  "id" | "version" | "generatedFiles" | "prompt" | "techStack"
+>;
+
+// Snapshot fields returned by listings, without the files
+const VERSION_SUMMARY = {
+  id: true,
+  version: true,
+  source: true,
+  prompt: true,
+  techStack: true,
+  codeGenerationId: true,
+  restoredFromVersion: true,
+  createdById: true,
+  createdAt: true,
+} satisfies Prisma.ProjectVersionSelect;
+
+/**
+ * Snapshot a project as it is now. Call after the update that incremented
+ * `Project.version`, so every snapshot has its own version number.
+ */
+export async function recordProjectVersion(
+  project: ProjectState,
+  options: SnapshotOptions
+): Promise<ProjectVersion> {
+  return db.projectVersion.create({
+    data: {
+      projectId: project.id,
+      version: project.version,
+      files: (project.generatedFiles ?? []) as Prisma.InputJsonValue,
+      prompt: project.prompt,
+      techStack: (project.techStack ?? []) as Prisma.InputJsonValue,
+      ...options,
+    },
+  });
+}
+
+/**
+ * Snapshots of a project, newest first, without their files
+ */
+export async function listProjectVersions(projectId: string) {
+  return db.projectVersion.findMany({
+    where: { projectId },
+    orderBy: { version: "desc" },
+    select: VERSION_SUMMARY,
+  });
+}
+
+export async function getProjectVersion(
+  projectId: string,
+  version: number
+): Promise<ProjectVersion | null> {
+  return db.projectVersion.findUnique({
+    where: { projectId_version: { projectId, version } },
+  });
+}
+
+/**
+ * Make an older snapshot the current state of the project. The restore is
+ * itself recorded as a new version, so history is never rewritten. A
+ * snapshot taken before any files existed puts the project back in DRAFT.
+ * Returns null when the version does not exist.
+ */
+export async function restoreProjectVersion(
+  projectId: string,
+  version: number,
+  userId: string
+): Promise<{ project: Project; snapshot: ProjectVersion } | null> {
+  const target = await getProjectVersion(projectId, version);
+  if (!target) {
+    return null;
+  }
+
+  const hasFiles = Array.isArray(target.files) && target.files.length > 0;
+
+  const project = await db.project.update({
+    where: { id: projectId },
+    data: {
+      generatedFiles: hasFiles
+        ? (target.files as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      prompt: target.prompt,
+      techStack: target.techStack as Prisma.InputJsonValue,
+      status: hasFiles ? "GENERATED" : "DRAFT",
+      version: { increment: 1 },
+    },
+  });
+
+  const snapshot = await recordProjectVersion(project, {
+    source: "restore",
+    restoredFromVersion: version,
+    createdById: userId,
+  });
+
+  return { project, snapshot };
+}
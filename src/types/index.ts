@@ -56,13 +56,23 @@ export interface GeneratedFile {
 
 export interface FileTree {
   name: string;
+  // Path from the project root, "" for the root itself
+  path: string;
   type: "file" | "directory";
   children?: FileTree[];
   content?: string;
+  // Files: content length in bytes; directories: total of their files
+  size?: number;
+  language?: string;
 }
 
 // LLM types
-export type LLMProvider = "anthropic" | "openai" | "gemini";
+export type LLMProvider =
+  | "anthropic"
+  | "openai"
+  | "gemini"
+  | "openai-compatible"
+  | "mock";
 
 export interface LLMMessage {
   role: "user" | "assistant" | "system";
@@ -99,6 +109,8 @@ export interface DeploymentResult {
   success: boolean;
   url?: string;
   deploymentId?: string;
+  // Provider site the deployment went to (Netlify site or Vercel project ID)
+  siteId?: string;
   logs?: string[];
   error?: string;
 }